@@ -1,143 +1,768 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, ebool, euint8, euint32, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint8, euint32, euint64, euint256, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {Ownable2StepUpgradeable} from "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
+import {EIP712Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import {ERC2771ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/metatx/ERC2771ContextUpgradeable.sol";
+import {ContextUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
+import {PausableUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IRandomnessConsumer, IRandomnessProvider} from "./randomness/IRandomnessProvider.sol";
+import {LuckyBallPoints} from "./LuckyBallPoints.sol";
+import {LuckyBallTickets} from "./LuckyBallTickets.sol";
+import {LuckyBallTreasury} from "./LuckyBallTreasury.sol";
 
 /// @title LuckyBall
 /// @notice Encrypted lottery using Zama FHEVM on Sepolia
-contract LuckyBall is ZamaEthereumConfig {
-    uint256 public constant TICKET_PRICE = 1e15; // 0.001 ether
+/// @dev Deployed behind an ERC-1967 proxy; new state variables must be appended after the existing ones.
+/// Players may also call through the trusted ERC-2771 forwarder fixed in the implementation's constructor
+contract LuckyBall is
+    ZamaEthereumConfig,
+    Initializable,
+    Ownable2StepUpgradeable,
+    EIP712Upgradeable,
+    ERC2771ContextUpgradeable,
+    PausableUpgradeable,
+    UUPSUpgradeable,
+    IRandomnessConsumer
+{
+    uint256 public constant TICKET_PRICE = LuckyBallTickets.DEFAULT_TICKET_PRICE; // 0.001 ether
     uint8 private constant MIN_NUMBER = 1;
     uint8 private constant MAX_NUMBER = 9;
     uint32 private constant WIN_REWARD = 10;
+    uint8 public constant MAX_PICKS = LuckyBallTickets.MAX_PICKS;
+    uint256 public constant SETTLEMENT_PERIOD = LuckyBallTickets.SETTLEMENT_PERIOD;
+    uint256 private constant DEFAULT_CLAIM_WINDOW = 30 days;
+    uint256 public constant EMERGENCY_REFUND_DELAY = LuckyBallTickets.EMERGENCY_REFUND_DELAY;
+
+    /// @dev `rewards[k]` is the score awarded to a ticket matching `k` of the drawn numbers
+    struct DrawConfig {
+        uint8 minNumber;
+        uint8 maxNumber;
+        uint8 picks;
+        /// @dev Keeps each player's numbers in one encrypted bitmap instead of a ticket per purchase; packed next to
+        ///      `picks`, so draws stored before it keep their layout
+        bool bitmask;
+        uint32[] rewards;
+    }
+
+    /// @dev Zero caps leave purchases unlimited
+    struct PurchaseLimits {
+        uint32 perPlayer;
+        uint32 perDraw;
+        /// @dev Voids tickets repeating a number their player already picked in the draw
+        bool uniqueNumbers;
+    }
 
     struct Ticket {
-        euint8 number;
+        euint8[] numbers;
         uint256 drawId;
         bool claimed;
+        /// @dev Shares the storage slot of `claimed`, so tickets stored before it keep their layout
+        bool refunded;
+        ebool outcome;
+        bool won;
+        bool paid;
+        /// @dev Shares the storage slot of `won` and `paid`, so tickets stored before it keep their layout
+        bool expired;
+        ebool valid;
     }
 
     struct Draw {
-        uint8 winningNumber;
+        uint8[] winningNumbers;
+        /// @dev When the draw opened, then when its randomness was requested, and finally when it executed
         uint256 executedAt;
         bool executed;
+        /// @dev Abandoned before it executed; packed next to `executed`, so draws stored before it keep their layout
+        bool cancelled;
+        uint256 pot;
+        uint256 winners;
+        bool requested;
+        uint256 requestId;
+        uint256 salesCloseAt;
+        uint256 minTickets;
+        uint256 ticketCount;
+        DrawConfig config;
+        /// @dev Encrypted count of winning tickets claimed before the tally closes
+        euint32 winnerTally;
+        bool tallyPublished;
+        uint32 winningTickets;
+        /// @dev Claims close this long after `executedAt`; zero keeps them open forever
+        uint256 claimWindow;
+        /// @dev Extra points for a full match, carried over from earlier draws nobody won
+        uint32 jackpot;
+        /// @dev Tickets and the pot are in this token, or in ETH when it is zero
+        IERC20 paymentToken;
+        /// @dev Zero charges `TICKET_PRICE`, as draws opened before payment tokens did
+        uint256 ticketPrice;
+        PurchaseLimits limits;
+    }
+
+    /// @dev What a player bought in one draw
+    struct PlayerDraw {
+        /// @dev Indices of the player's tickets in the draw
+        uint256[] tickets;
+        /// @dev Encrypted bitmap of the numbers on the player's valid tickets, kept while `uniqueNumbers` is set
+        euint256 picked;
+        /// @dev Tickets bought and not refunded, which in a bitmask draw all share one ticket
+        uint256 bought;
+        /// @dev Encrypted bitmap of every number picked in a bitmask draw, bit `n` standing for number `n`
+        euint32 bitmap;
     }
 
     mapping(address => Ticket[]) private playerTickets;
-    mapping(address => euint32) private playerScores;
-    mapping(address => bool) private scoreInitialized;
+    mapping(address => bool) private registeredPlayers;
     mapping(uint256 => Draw) private draws;
-
-    uint256 public currentDrawId = 1;
+    mapping(uint256 => uint256) private requestDraws;
+    mapping(address => bool) public operators;
+    address[] private players;
+
+    IRandomnessProvider public randomnessProvider;
+    LuckyBallPoints public points;
+    uint256 public currentDrawId;
+    uint256 public defaultSalesDuration;
+    uint256 public defaultMinTickets;
+    DrawConfig private defaultConfig;
+    uint256 public defaultClaimWindow;
+    mapping(address => bool) public autoClaim;
+    mapping(address => uint256) public claimNonces;
+    LuckyBallTreasury public treasury;
+    IERC20 public defaultPaymentToken;
+    uint256 public defaultTicketPrice;
+    PurchaseLimits public defaultLimits;
+    mapping(address => mapping(uint256 => PlayerDraw)) private playerDraws;
+    // Draws from this one on list every ticket in `playerDraws`; older ones are found by scanning a player's tickets
+    uint256 private firstIndexedDrawId;
 
     event TicketPurchased(address indexed player, uint256 indexed drawId, uint256 indexed ticketIndex);
-    event DrawExecuted(uint256 indexed drawId, uint8 winningNumber);
+    event DrawRequested(uint256 indexed drawId, uint256 indexed requestId);
+    event DrawExecuted(uint256 indexed drawId, uint8[] winningNumbers, uint32 jackpot);
     event TicketClaimProcessed(address indexed player, uint256 indexed drawId, uint256 indexed ticketIndex);
+    event WinConfirmed(address indexed player, uint256 indexed drawId, uint256 indexed ticketIndex);
+    event OperatorUpdated(address indexed operator, bool enabled);
+    event DrawScheduled(uint256 indexed drawId, uint256 salesCloseAt, uint256 minTickets);
+    event DrawConfigUpdated(uint8 minNumber, uint8 maxNumber, uint8 picks, uint32[] rewards);
+    event PrizePaid(address indexed player, uint256 indexed drawId, uint256 indexed ticketIndex, uint256 amount);
+    event WinnerTallyRevealed(uint256 indexed drawId, bytes32 handle);
+    event WinnerTallyPublished(uint256 indexed drawId, uint32 winningTickets);
+    event ClaimWindowUpdated(uint256 claimWindow);
+    event TicketExpired(address indexed player, uint256 indexed drawId, uint256 indexed ticketIndex);
+    event PotRolledOver(uint256 indexed fromDrawId, uint256 indexed toDrawId, uint256 amount);
+    event JackpotRolledOver(uint256 indexed fromDrawId, uint256 indexed toDrawId, uint32 jackpot);
+    event AutoClaimUpdated(address indexed player, bool enabled);
+    event TreasuryUpdated(address indexed treasury);
+    event PaymentTokenUpdated(address indexed token, uint256 ticketPrice);
+    event TicketRefunded(address indexed player, uint256 indexed drawId, uint256 indexed ticketIndex, uint256 amount);
+    event DrawCancelled(uint256 indexed drawId);
+    event PurchaseLimitsUpdated(uint32 perPlayer, uint32 perDraw, bool uniqueNumbers);
+    event TicketModeUpdated(bool bitmask);
+
+    modifier onlyOperator() {
+        require(isOperator(_msgSender()), "Caller is not an operator");
+        _;
+    }
 
-    constructor() {
-        draws[currentDrawId] = Draw({winningNumber: 0, executedAt: block.timestamp, executed: false});
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address trustedForwarder) ERC2771ContextUpgradeable(trustedForwarder) {
+        _disableInitializers();
     }
 
-    function buyTicket(externalEuint8 encryptedNumber, bytes calldata inputProof) external payable returns (uint256) {
-        require(msg.value == TICKET_PRICE, "Invalid ticket price");
-        Draw storage activeDraw = draws[currentDrawId];
-        require(!activeDraw.executed, "Draw already executed");
+    /// @dev `pointsToken` must name the proxy as its minter before the first claim
+    function initialize(IRandomnessProvider provider, LuckyBallPoints pointsToken) external initializer {
+        require(address(provider) != address(0), "Invalid randomness provider");
+        require(address(pointsToken) != address(0), "Invalid points token");
+        __Ownable_init(msg.sender);
+        __EIP712_init("LuckyBall", "1");
+        // The config constructor only wrote to the implementation's storage
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+        randomnessProvider = provider;
+        points = pointsToken;
+        currentDrawId = 1;
+        firstIndexedDrawId = 1;
+        defaultClaimWindow = DEFAULT_CLAIM_WINDOW;
+
+        uint32[] memory rewards = new uint32[](2);
+        rewards[1] = WIN_REWARD;
+        LuckyBallTickets.configure(defaultConfig, draws[currentDrawId], MIN_NUMBER, MAX_NUMBER, 1, rewards, false);
+
+        _openDraw();
+    }
 
-        euint8 number = FHE.fromExternal(encryptedNumber, inputProof);
+    /// @notice Called on upgrade of a proxy deployed before the per-draw ticket index: the active draw may hold
+    ///         unindexed tickets, so only later draws rely on the index
+    function initializeTicketIndex() external onlyOwner reinitializer(2) {
+        require(firstIndexedDrawId == 0, "Ticket index already set");
+        firstIndexedDrawId = currentDrawId + 1;
+    }
 
-        _ensureScore(msg.sender);
+    /// @notice Buys a ticket for the active draw with one encrypted number per pick of the draw configuration,
+    ///         paying its price in ETH or, after approving the treasury, in the draw's payment token
+    function buyTicket(
+        externalEuint8[] calldata encryptedNumbers,
+        bytes calldata inputProof
+    ) external payable returns (uint256) {
+        Draw storage activeDraw = _openForSales();
+        require(_ticketCount(activeDraw, encryptedNumbers.length) == 1, "Invalid number count");
+        treasury.collect{value: msg.value}(_msgSender(), activeDraw.paymentToken, LuckyBallTickets.priceOf(activeDraw));
+
+        return _issueTicket(activeDraw, encryptedNumbers, inputProof);
+    }
 
-        playerTickets[msg.sender].push();
-        uint256 index = playerTickets[msg.sender].length - 1;
-        Ticket storage ticket = playerTickets[msg.sender][index];
-        ticket.number = number;
-        ticket.drawId = currentDrawId;
-        ticket.claimed = false;
+    /// @notice Buys several tickets at once from a single encrypted input holding `picks` numbers per ticket
+    function buyTickets(
+        externalEuint8[] calldata encryptedNumbers,
+        bytes calldata inputProof
+    ) external payable returns (uint256[] memory) {
+        Draw storage activeDraw = _openForSales();
+        uint256 count = _ticketCount(activeDraw, encryptedNumbers.length);
+        treasury.collect{value: msg.value}(
+            _msgSender(),
+            activeDraw.paymentToken,
+            LuckyBallTickets.priceOf(activeDraw) * count
+        );
 
-        FHE.allowThis(ticket.number);
-        FHE.allow(ticket.number, msg.sender);
+        return _issueTickets(activeDraw, encryptedNumbers, inputProof, count);
+    }
 
-        emit TicketPurchased(msg.sender, currentDrawId, index);
-        return index;
+    /// @notice Buys one or more tickets of a token-priced draw with an EIP-2612 permit for the treasury instead of
+    ///         an approval
+    function buyTicketsWithPermit(
+        externalEuint8[] calldata encryptedNumbers,
+        bytes calldata inputProof,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256[] memory) {
+        Draw storage activeDraw = _openForSales();
+        uint256 count = _ticketCount(activeDraw, encryptedNumbers.length);
+        uint256 amount = LuckyBallTickets.priceOf(activeDraw) * count;
+        treasury.collectWithPermit(_msgSender(), activeDraw.paymentToken, amount, deadline, v, r, s);
+
+        return _issueTickets(activeDraw, encryptedNumbers, inputProof, count);
     }
 
-    function executeDraw() external returns (uint8) {
-        Draw storage activeDraw = draws[currentDrawId];
-        require(!activeDraw.executed, "Draw already executed");
+    /// @notice Closes ticket sales for the active draw and requests its randomness; the draw settles on fulfilment
+    function executeDraw() external onlyOperator whenNotPaused returns (uint256) {
+        uint256 drawId = currentDrawId;
+        Draw storage activeDraw = draws[drawId];
+        require(!activeDraw.requested, "Draw already requested");
+        require(block.timestamp >= activeDraw.salesCloseAt, "Ticket sales still open");
+        require(activeDraw.ticketCount > 0 && activeDraw.ticketCount >= activeDraw.minTickets, "Not enough tickets");
 
-        uint8 result = _generateWinningNumber();
-        activeDraw.winningNumber = result;
+        activeDraw.requested = true;
         activeDraw.executedAt = block.timestamp;
-        activeDraw.executed = true;
+        currentDrawId += 1;
+        _openDraw();
 
-        emit DrawExecuted(currentDrawId, result);
+        uint256 requestId = randomnessProvider.requestRandomness(drawId);
+        activeDraw.requestId = requestId;
+        requestDraws[requestId] = drawId;
 
-        currentDrawId += 1;
-        draws[currentDrawId] = Draw({winningNumber: 0, executedAt: block.timestamp, executed: false});
+        emit DrawRequested(drawId, requestId);
+        return requestId;
+    }
+
+    function rawFulfillRandomness(uint256 requestId, uint256 randomness) external {
+        require(msg.sender == address(randomnessProvider), "Only randomness provider");
+
+        uint256 drawId = requestDraws[requestId];
+        require(drawId != 0, "Unknown request");
 
-        return result;
+        Draw storage settledDraw = draws[drawId];
+        require(!settledDraw.executed, "Draw already executed");
+        require(!settledDraw.cancelled, "Draw cancelled");
+
+        LuckyBallTickets.settle(settledDraw, drawId, randomness, treasury);
     }
 
     function claimTicket(uint256 ticketIndex) external {
-        require(ticketIndex < playerTickets[msg.sender].length, "Invalid ticket index");
+        _claimTicket(_msgSender(), ticketIndex);
+    }
+
+    /// @notice Claims several tickets of the caller in one transaction
+    function claimTickets(uint256[] calldata ticketIndices) external {
+        _claimTickets(_msgSender(), ticketIndices);
+    }
+
+    /// @notice Lets anyone, typically a relayer, claim the caller's tickets through `claimFor`
+    function setAutoClaim(bool enabled) external {
+        address player = _msgSender();
+        autoClaim[player] = enabled;
+        emit AutoClaimUpdated(player, enabled);
+    }
+
+    /// @notice Claims tickets of a player who opted in to auto-claims; the points still only reach the player
+    function claimFor(address player, uint256[] calldata ticketIndices) external {
+        require(autoClaim[player], "Auto-claim not enabled");
+        _claimTickets(player, ticketIndices);
+    }
+
+    /// @notice Claims tickets of a player who signed an EIP-712 `Claim` for exactly these tickets
+    function claimForBySig(
+        address player,
+        uint256[] calldata ticketIndices,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "Signature expired");
+        LuckyBallTickets.checkClaimSignature(
+            _domainSeparatorV4(),
+            player,
+            ticketIndices,
+            claimNonces[player]++,
+            deadline,
+            signature
+        );
+        _claimTickets(player, ticketIndices);
+    }
+
+    /// @notice Claims every unclaimed ticket the caller holds for an executed draw
+    function claimAllForDraw(uint256 drawId) external {
+        require(draws[drawId].executed, "Draw not executed");
+
+        address player = _msgSender();
+        uint256[] memory indices = _ticketsIn(player, drawId);
+        uint256 claimed = 0;
+        for (uint256 i = 0; i < indices.length; i++) {
+            Ticket storage ticket = playerTickets[player][indices[i]];
+            if (!ticket.claimed && !ticket.refunded) {
+                _claimTicket(player, indices[i]);
+                claimed += 1;
+            }
+        }
+        require(claimed > 0, "No tickets to claim");
+    }
 
-        Ticket storage ticket = playerTickets[msg.sender][ticketIndex];
-        require(!ticket.claimed, "Already processed");
+    /// @notice Records a winning ticket from the public decryption of its claim outcome
+    function confirmWin(
+        uint256 ticketIndex,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        address player = _msgSender();
+        Ticket storage ticket = _ticketOf(player, ticketIndex);
+        LuckyBallTickets.confirmWin(
+            ticket,
+            draws[ticket.drawId],
+            player,
+            ticketIndex,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+    }
+
+    /// @notice Makes the winner tally of a draw publicly decryptable once it stops counting claims
+    function revealWinnerTally(uint256 drawId) external {
+        emit WinnerTallyRevealed(drawId, LuckyBallTickets.revealTally(draws[drawId]));
+    }
+
+    /// @notice Publishes the public decryption of a revealed winner tally; without a winner, the jackpot of the
+    ///         draw carries over to the active draw
+    function publishWinnerTally(
+        uint256 drawId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        LuckyBallTickets.publishTally(
+            draws[drawId],
+            draws[currentDrawId],
+            drawId,
+            currentDrawId,
+            abiEncodedCleartexts,
+            decryptionProof
+        );
+    }
+
+    /// @notice Marks unclaimed tickets of `player` whose claim window has closed as expired
+    function expireTickets(address player, uint256[] calldata ticketIndices) external {
+        require(ticketIndices.length > 0, "No tickets to expire");
+        for (uint256 i = 0; i < ticketIndices.length; i++) {
+            Ticket storage ticket = _ticketOf(player, ticketIndices[i]);
+            LuckyBallTickets.expire(ticket, draws[ticket.drawId], player, ticketIndices[i]);
+        }
+    }
 
-        Draw storage settledDraw = draws[ticket.drawId];
-        require(settledDraw.executed, "Draw not executed");
+    /// @notice Moves the pot of a draw nobody confirmed a win for into the active draw once its claims close; of a
+    ///         cancelled draw, only what earlier draws rolled into it moves and its tickets stay refundable
+    function rollOverPot(uint256 drawId) external {
+        LuckyBallTickets.rollOverPot(draws[drawId], draws[currentDrawId], drawId, currentDrawId);
+    }
 
-        euint8 winningEncrypted = FHE.asEuint8(settledDraw.winningNumber);
-        ebool isWinner = FHE.eq(ticket.number, winningEncrypted);
+    /// @notice Refunds the price of a ticket whose draw never executed, either while the lottery is paused and the
+    ///         draw has not requested randomness, or once its randomness has been pending for `EMERGENCY_REFUND_DELAY`
+    function emergencyRefund(uint256 ticketIndex) external {
+        _refundTicket(ticketIndex, false);
+    }
 
-        euint32 currentScore = playerScores[msg.sender];
-        euint32 incremented = FHE.add(currentScore, FHE.asEuint32(WIN_REWARD));
-        euint32 nextScore = FHE.select(isWinner, incremented, currentScore);
+    /// @notice Refunds the price of a ticket in a cancelled draw
+    function refundTicket(uint256 ticketIndex) external {
+        _refundTicket(ticketIndex, true);
+    }
 
-        playerScores[msg.sender] = nextScore;
-        ticket.claimed = true;
+    function collectPrize(uint256 ticketIndex) external {
+        address player = _msgSender();
+        Ticket storage ticket = _ticketOf(player, ticketIndex);
+        LuckyBallTickets.payPrize(ticket, draws[ticket.drawId], treasury, player, ticketIndex);
+    }
 
-        FHE.allowThis(nextScore);
-        FHE.allow(nextScore, msg.sender);
+    /// @notice Abandons a draw that has not requested its randomness, or whose request has been pending for
+    ///         `EMERGENCY_REFUND_DELAY`, making its tickets refundable; cancelling the active draw opens the next
+    ///         one, and any jackpot carried into the cancelled draw moves on to the active draw
+    function cancelDraw(uint256 drawId) external onlyOperator {
+        Draw storage draw = draws[drawId];
+        require(drawId != 0 && drawId <= currentDrawId, "Unknown draw");
+        require(!draw.executed, "Draw already executed");
+        require(!draw.cancelled, "Draw already cancelled");
+        // Requested randomness may already be public, so the operator could otherwise cancel a draw it sees losing
+        require(!draw.requested || block.timestamp > draw.executedAt + EMERGENCY_REFUND_DELAY, "Randomness requested");
+
+        draw.cancelled = true;
+        if (drawId == currentDrawId) {
+            currentDrawId += 1;
+            _openDraw();
+        }
+        emit DrawCancelled(drawId);
+
+        if (draw.jackpot > 0) {
+            draws[currentDrawId].jackpot += draw.jackpot;
+            emit JackpotRolledOver(drawId, currentDrawId, draw.jackpot);
+            draw.jackpot = 0;
+        }
+    }
 
-        emit TicketClaimProcessed(msg.sender, ticket.drawId, ticketIndex);
+    /// @notice Stops ticket sales and draw execution; claims, payouts and emergency refunds stay available
+    function pause() external onlyOwner {
+        _pause();
     }
 
-    function getScore(address player) external view returns (euint32) {
-        return playerScores[player];
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    function setOperator(address operator, bool enabled) external onlyOwner {
+        operators[operator] = enabled;
+        emit OperatorUpdated(operator, enabled);
+    }
+
+    /// @notice Points the lottery at the treasury holding its payments and hands over any ETH it still holds
+    /// @dev The treasury must name the proxy as its game. It is set once: pots, prizes and fees stay in the first
+    ///      treasury, so moving to another would strand them
+    function setTreasury(LuckyBallTreasury newTreasury) external onlyOwner {
+        require(address(treasury) == address(0), "Treasury already set");
+        treasury = newTreasury;
+        if (address(this).balance > 0) {
+            (bool sent, ) = payable(address(newTreasury)).call{value: address(this).balance}("");
+            require(sent, "Transfer failed");
+        }
+
+        emit TreasuryUpdated(address(newTreasury));
+    }
+
+    /// @notice Prices new draws, and the active draw while it has no tickets, in `token` (zero for ETH); a zero
+    ///         ETH price restores `TICKET_PRICE`
+    /// @dev `token` must be an ERC-20; confidential ERC-7984 tokens lack `transferFrom`, so purchases would revert
+    function setPaymentToken(IERC20 token, uint256 ticketPrice) external onlyOwner {
+        require(address(token) == address(0) || ticketPrice > 0, "Invalid ticket price");
+        defaultPaymentToken = token;
+        defaultTicketPrice = ticketPrice;
+
+        // A pot rolled over into the active draw keeps it in its token
+        Draw storage activeDraw = draws[currentDrawId];
+        if (activeDraw.ticketCount == 0 && activeDraw.pot == 0) {
+            activeDraw.paymentToken = token;
+            activeDraw.ticketPrice = ticketPrice;
+        }
+
+        emit PaymentTokenUpdated(address(token), ticketPrice);
+    }
+
+    /// @notice Caps the tickets each player may buy per draw and each draw may sell, zero for no cap, and sets whether
+    ///         players may pick a number again within a draw; applies to the active draw until it sells a ticket
+    function setPurchaseLimits(uint32 perPlayer, uint32 perDraw, bool uniqueNumbers) external onlyOwner {
+        defaultLimits = PurchaseLimits({perPlayer: perPlayer, perDraw: perDraw, uniqueNumbers: uniqueNumbers});
+
+        Draw storage activeDraw = draws[currentDrawId];
+        if (activeDraw.ticketCount == 0) {
+            activeDraw.limits = defaultLimits;
+        }
+
+        emit PurchaseLimitsUpdated(perPlayer, perDraw, uniqueNumbers);
+    }
+
+    /// @notice Sets how long claims stay open after each newly opened draw executes; zero never expires tickets
+    function setClaimWindow(uint256 claimWindow) external onlyOwner {
+        // Shorter windows would expire tickets whose owners may still confirm a win
+        require(claimWindow == 0 || claimWindow >= SETTLEMENT_PERIOD, "Claim window too short");
+        defaultClaimWindow = claimWindow;
+
+        emit ClaimWindowUpdated(claimWindow);
+    }
+
+    /// @notice Sets the schedule applied to every newly opened draw; a zero duration leaves sales open-ended
+    function setDefaultSchedule(uint256 salesDuration, uint256 minTickets) external onlyOwner {
+        defaultSalesDuration = salesDuration;
+        defaultMinTickets = minTickets;
+    }
+
+    /// @notice Reschedules the active draw; a zero `salesCloseAt` leaves sales open until the operator closes them
+    function scheduleDraw(uint256 salesCloseAt, uint256 minTickets) external onlyOperator {
+        require(salesCloseAt == 0 || salesCloseAt > block.timestamp, "Sales close in the past");
+        _scheduleDraw(currentDrawId, salesCloseAt, minTickets);
+    }
+
+    /// @notice Configures the number range, pick count and reward tiers of new draws and of the active draw
+    ///         while it has no tickets
+    function setDrawConfig(
+        uint8 minNumber,
+        uint8 maxNumber,
+        uint8 picks,
+        uint32[] calldata rewards
+    ) external onlyOwner {
+        LuckyBallTickets.configure(
+            defaultConfig,
+            draws[currentDrawId],
+            minNumber,
+            maxNumber,
+            picks,
+            rewards,
+            defaultConfig.bitmask
+        );
+    }
+
+    /// @notice Switches new draws, and the active draw while it has no tickets, between a ticket per purchase and
+    ///         one encrypted bitmap of each player's numbers; bitmask draws need a single pick of at most 31
+    function setTicketMode(bool bitmask) external onlyOwner {
+        DrawConfig storage config = defaultConfig;
+        LuckyBallTickets.configure(
+            config,
+            draws[currentDrawId],
+            config.minNumber,
+            config.maxNumber,
+            config.picks,
+            config.rewards,
+            bitmask
+        );
+
+        emit TicketModeUpdated(bitmask);
+    }
+
+    /// @dev Only the owner can point the proxy at a new implementation
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    function _msgSender() internal view override(ContextUpgradeable, ERC2771ContextUpgradeable) returns (address) {
+        return ERC2771ContextUpgradeable._msgSender();
+    }
+
+    function _msgData() internal view override(ContextUpgradeable, ERC2771ContextUpgradeable) returns (bytes calldata) {
+        return ERC2771ContextUpgradeable._msgData();
+    }
+
+    function _contextSuffixLength()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (uint256)
+    {
+        return ERC2771ContextUpgradeable._contextSuffixLength();
+    }
+
+    function getDefaultConfig() external view returns (DrawConfig memory) {
+        return defaultConfig;
+    }
+
+    function isOperator(address account) public view returns (bool) {
+        return account == owner() || operators[account];
+    }
+
+    /// @notice Encrypted points balance of `player` in the points token
+    function getScore(address player) external view returns (euint64) {
+        return points.confidentialBalanceOf(player);
     }
 
     function getTickets(address player) external view returns (Ticket[] memory) {
         return playerTickets[player];
     }
 
+    /// @notice Up to `limit` tickets of `player` from index `offset` on, fewer or none past their last ticket
+    function getTicketsPage(address player, uint256 offset, uint256 limit) external view returns (Ticket[] memory) {
+        uint256 total = playerTickets[player].length;
+        uint256 available = offset < total ? total - offset : 0;
+        uint256[] memory indices = new uint256[](limit < available ? limit : available);
+        for (uint256 i = 0; i < indices.length; i++) {
+            indices[i] = offset + i;
+        }
+        return _ticketsAt(player, indices);
+    }
+
+    /// @notice The tickets `player` bought in a draw, with their indices
+    function getTicketsByDraw(
+        address player,
+        uint256 drawId
+    ) external view returns (uint256[] memory indices, Ticket[] memory tickets) {
+        indices = _ticketsIn(player, drawId);
+        tickets = _ticketsAt(player, indices);
+    }
+
+    function getPlayers() external view returns (address[] memory) {
+        return players;
+    }
+
     function getDraw(uint256 drawId) external view returns (Draw memory) {
         return draws[drawId];
     }
 
+    /// @notice Draws `fromId` to `toId`, both included
+    function getDraws(uint256 fromId, uint256 toId) external view returns (Draw[] memory result) {
+        require(fromId <= toId, "Invalid draw range");
+        result = new Draw[](toId - fromId + 1);
+        for (uint256 i = 0; i < result.length; i++) {
+            result[i] = draws[fromId + i];
+        }
+    }
+
     function totalTickets(address player) external view returns (uint256) {
         return playerTickets[player].length;
     }
 
-    function _ensureScore(address player) private {
-        if (!scoreInitialized[player]) {
-            euint32 zeroScore = FHE.asEuint32(0);
-            playerScores[player] = zeroScore;
-            FHE.allowThis(zeroScore);
-            FHE.allow(zeroScore, player);
-            scoreInitialized[player] = true;
-        } else {
-            FHE.allow(playerScores[player], player);
+    /// @notice What `player` bought in a draw, with the encrypted bitmap of their numbers in a bitmask draw
+    function getPlayerDraw(address player, uint256 drawId) external view returns (PlayerDraw memory) {
+        return playerDraws[player][drawId];
+    }
+
+    function _registerPlayer(address player) private {
+        if (!registeredPlayers[player]) {
+            registeredPlayers[player] = true;
+            players.push(player);
+        }
+    }
+
+    function _openForSales() private view returns (Draw storage activeDraw) {
+        _requireNotPaused();
+        activeDraw = draws[currentDrawId];
+        require(!activeDraw.executed, "Draw already executed");
+        require(activeDraw.salesCloseAt == 0 || block.timestamp < activeDraw.salesCloseAt, "Ticket sales closed");
+    }
+
+    /// @dev Also enforces the purchase limits of the draw for the caller
+    function _ticketCount(Draw storage activeDraw, uint256 numberCount) private view returns (uint256 count) {
+        uint256 picks = activeDraw.config.picks;
+        require(numberCount > 0 && numberCount % picks == 0, "Invalid number count");
+        count = numberCount / picks;
+
+        PurchaseLimits storage limits = activeDraw.limits;
+        require(limits.perDraw == 0 || activeDraw.ticketCount + count <= limits.perDraw, "Draw sold out");
+        uint256 bought = playerDraws[_msgSender()][currentDrawId].bought;
+        require(limits.perPlayer == 0 || bought + count <= limits.perPlayer, "Ticket limit reached");
+    }
+
+    function _issueTickets(
+        Draw storage activeDraw,
+        externalEuint8[] calldata encryptedNumbers,
+        bytes calldata inputProof,
+        uint256 count
+    ) private returns (uint256[] memory indices) {
+        uint256 picks = activeDraw.config.picks;
+        indices = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            indices[i] = _issueTicket(activeDraw, encryptedNumbers[i * picks:(i + 1) * picks], inputProof);
+        }
+    }
+
+    function _issueTicket(
+        Draw storage activeDraw,
+        externalEuint8[] calldata encryptedNumbers,
+        bytes calldata inputProof
+    ) private returns (uint256) {
+        address player = _msgSender();
+        _registerPlayer(player);
+
+        return
+            LuckyBallTickets.issue(
+                playerTickets[player],
+                activeDraw,
+                playerDraws[player][currentDrawId],
+                currentDrawId,
+                encryptedNumbers,
+                inputProof,
+                player
+            );
+    }
+
+    /// @param cancelled Refunds a ticket of a cancelled draw rather than through the emergency conditions
+    function _refundTicket(uint256 ticketIndex, bool cancelled) private {
+        address player = _msgSender();
+        Ticket storage ticket = _ticketOf(player, ticketIndex);
+        LuckyBallTickets.refund(
+            ticket,
+            draws[ticket.drawId],
+            playerDraws[player][ticket.drawId],
+            treasury,
+            player,
+            ticketIndex,
+            cancelled,
+            paused()
+        );
+    }
+
+    function _claimTickets(address player, uint256[] calldata ticketIndices) private {
+        require(ticketIndices.length > 0, "No tickets to claim");
+        for (uint256 i = 0; i < ticketIndices.length; i++) {
+            _claimTicket(player, ticketIndices[i]);
         }
     }
 
-    function _generateWinningNumber() private view returns (uint8) {
-        uint256 randomness = uint256(
-            keccak256(
-                abi.encodePacked(block.prevrandao, blockhash(block.number - 1), address(this), currentDrawId, block.timestamp)
-            )
+    function _claimTicket(address player, uint256 ticketIndex) private {
+        Ticket storage ticket = _ticketOf(player, ticketIndex);
+        LuckyBallTickets.claim(
+            ticket,
+            draws[ticket.drawId],
+            playerDraws[player][ticket.drawId],
+            points,
+            player,
+            ticketIndex
         );
-        return uint8((randomness % MAX_NUMBER) + MIN_NUMBER);
+    }
+
+    function _ticketsIn(address player, uint256 drawId) private view returns (uint256[] memory) {
+        return
+            LuckyBallTickets.ticketsIn(playerTickets[player], playerDraws[player][drawId], drawId, firstIndexedDrawId);
+    }
+
+    function _ticketsAt(address player, uint256[] memory indices) private view returns (Ticket[] memory tickets) {
+        tickets = new Ticket[](indices.length);
+        for (uint256 i = 0; i < indices.length; i++) {
+            tickets[i] = playerTickets[player][indices[i]];
+        }
+    }
+
+    function _ticketOf(address player, uint256 ticketIndex) private view returns (Ticket storage) {
+        require(ticketIndex < playerTickets[player].length, "Invalid ticket index");
+        return playerTickets[player][ticketIndex];
+    }
+
+    function _openDraw() private {
+        Draw storage nextDraw = draws[currentDrawId];
+        nextDraw.executedAt = block.timestamp;
+        nextDraw.config = defaultConfig;
+        nextDraw.claimWindow = defaultClaimWindow;
+        nextDraw.paymentToken = defaultPaymentToken;
+        nextDraw.ticketPrice = defaultTicketPrice;
+        nextDraw.limits = defaultLimits;
+
+        uint256 salesCloseAt = defaultSalesDuration == 0 ? 0 : block.timestamp + defaultSalesDuration;
+        _scheduleDraw(currentDrawId, salesCloseAt, defaultMinTickets);
+    }
+
+    function _scheduleDraw(uint256 drawId, uint256 salesCloseAt, uint256 minTickets) private {
+        Draw storage draw = draws[drawId];
+        draw.salesCloseAt = salesCloseAt;
+        draw.minTickets = minTickets;
+
+        emit DrawScheduled(drawId, salesCloseAt, minTickets);
     }
 }
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC2771Forwarder} from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/// @title LuckyBallForwarder
+/// @notice ERC-2771 forwarder that relays signed player requests to LuckyBall, so a relayer can pay their gas
+contract LuckyBallForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("LuckyBallForwarder") {}
+}
@@ -0,0 +1,215 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
+import {Ownable, Ownable2Step} from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/// @title LuckyBallPoints
+/// @notice Confidential ERC-7984 token holding LuckyBall scores; only the lottery mints points, and players reveal
+///         them to the leaderboard or redeem them here
+contract LuckyBallPoints is ZamaEthereumConfig, ERC7984, Ownable2Step {
+    using SafeERC20 for IERC20;
+
+    /// @dev Payout terms are locked when the redemption is requested; a zero token pays out in ETH
+    struct Redemption {
+        euint64 amount;
+        address token;
+        uint256 pointValue;
+    }
+
+    struct LeaderboardEntry {
+        address player;
+        uint64 score;
+    }
+
+    address public minter;
+    mapping(address => euint64) private revealedScores;
+    mapping(address => uint64) public publishedScores;
+    mapping(address => bool) public scorePublished;
+    address[] private rankedPlayers;
+    mapping(address => Redemption) private pendingRedemptions;
+    mapping(address => uint256) public redemptionReserves;
+    address public redemptionToken;
+    uint256 public pointValue;
+
+    event MinterUpdated(address indexed minter);
+    event ScoreRevealed(address indexed player, bytes32 handle);
+    event ScorePublished(address indexed player, uint64 score);
+    event RedemptionTermsUpdated(address indexed token, uint256 pointValue);
+    event RedemptionsFunded(address indexed token, address indexed funder, uint256 amount);
+    event RedemptionRequested(address indexed player, bytes32 handle);
+    event ScoreRedeemed(address indexed player, address indexed token, uint64 points, uint256 payout);
+
+    modifier onlyMinter() {
+        require(msg.sender == minter, "Caller is not the minter");
+        _;
+    }
+
+    constructor() ERC7984("LuckyBall Points", "LBP", "") Ownable(msg.sender) {}
+
+    /// @notice Points are whole numbers
+    function decimals() public pure override returns (uint8) {
+        return 0;
+    }
+
+    function setMinter(address newMinter) external onlyOwner {
+        minter = newMinter;
+        emit MinterUpdated(newMinter);
+    }
+
+    function mint(address to, euint64 amount) external onlyMinter returns (euint64 minted) {
+        minted = _mint(to, amount);
+        FHE.allow(minted, msg.sender);
+    }
+
+    /// @notice Burns `amount` from `from`, or nothing when the balance does not cover it
+    function burn(address from, euint64 amount) external onlyMinter returns (euint64 burned) {
+        burned = _burn(from, amount);
+        FHE.allow(burned, msg.sender);
+    }
+
+    /// @notice Opts in to the leaderboard by making the caller's current score publicly decryptable
+    function revealScore() external {
+        euint64 score = confidentialBalanceOf(msg.sender);
+        require(FHE.isInitialized(score), "No score to reveal");
+
+        revealedScores[msg.sender] = score;
+        FHE.makePubliclyDecryptable(score);
+
+        emit ScoreRevealed(msg.sender, FHE.toBytes32(score));
+    }
+
+    /// @notice Publishes the public decryption of a revealed score so it ranks on the leaderboard
+    function publishScore(
+        address player,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        euint64 score = revealedScores[player];
+        require(FHE.isInitialized(score), "Score not revealed");
+
+        _checkDecryption(FHE.toBytes32(score), abiEncodedCleartexts, decryptionProof);
+
+        uint64 clearScore = abi.decode(abiEncodedCleartexts, (uint64));
+        if (!scorePublished[player]) {
+            scorePublished[player] = true;
+            rankedPlayers.push(player);
+        }
+        publishedScores[player] = clearScore;
+
+        emit ScorePublished(player, clearScore);
+    }
+
+    /// @notice Burns encrypted points; nothing is burned when the balance does not cover the amount
+    function redeem(externalEuint32 encryptedAmount, bytes calldata inputProof) external {
+        require(pointValue > 0, "Redemptions disabled");
+        require(FHE.isInitialized(confidentialBalanceOf(msg.sender)), "No score to redeem");
+        require(!FHE.isInitialized(pendingRedemptions[msg.sender].amount), "Redemption pending");
+
+        euint64 approved = _burn(msg.sender, FHE.asEuint64(FHE.fromExternal(encryptedAmount, inputProof)));
+
+        FHE.makePubliclyDecryptable(approved);
+        pendingRedemptions[msg.sender] = Redemption({amount: approved, token: redemptionToken, pointValue: pointValue});
+
+        emit RedemptionRequested(msg.sender, FHE.toBytes32(approved));
+    }
+
+    /// @notice Pays out a pending redemption from the public decryption of its approved amount
+    function finalizeRedemption(bytes calldata abiEncodedCleartexts, bytes calldata decryptionProof) external {
+        Redemption memory redemption = pendingRedemptions[msg.sender];
+        require(FHE.isInitialized(redemption.amount), "No pending redemption");
+
+        _checkDecryption(FHE.toBytes32(redemption.amount), abiEncodedCleartexts, decryptionProof);
+
+        uint64 redeemed = abi.decode(abiEncodedCleartexts, (uint64));
+        uint256 payout = uint256(redeemed) * redemption.pointValue;
+        require(redemptionReserves[redemption.token] >= payout, "Insufficient redemption reserve");
+
+        delete pendingRedemptions[msg.sender];
+        redemptionReserves[redemption.token] -= payout;
+
+        if (redemption.token == address(0)) {
+            (bool sent, ) = payable(msg.sender).call{value: payout}("");
+            require(sent, "Redemption transfer failed");
+        } else {
+            IERC20(redemption.token).safeTransfer(msg.sender, payout);
+        }
+
+        emit ScoreRedeemed(msg.sender, redemption.token, redeemed, payout);
+    }
+
+    /// @notice Adds ETH (zero token) or ERC-20 tokens to the reserve that backs redemptions
+    function fundRedemptions(address token, uint256 amount) external payable {
+        if (token == address(0)) {
+            require(msg.value == amount, "Invalid funding amount");
+        } else {
+            require(msg.value == 0, "Invalid funding amount");
+            IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        }
+        redemptionReserves[token] += amount;
+
+        emit RedemptionsFunded(token, msg.sender, amount);
+    }
+
+    /// @notice Sets the asset and the amount of it paid per point; a zero value disables new redemptions
+    function setRedemptionTerms(address token, uint256 newPointValue) external onlyOwner {
+        redemptionToken = token;
+        pointValue = newPointValue;
+
+        emit RedemptionTermsUpdated(token, newPointValue);
+    }
+
+    function getPendingRedemption(address player) external view returns (Redemption memory) {
+        return pendingRedemptions[player];
+    }
+
+    function getRevealedScore(address player) external view returns (euint64) {
+        return revealedScores[player];
+    }
+
+    /// @notice Players that published a score, in the order they first did
+    function getRankedPlayers() external view returns (address[] memory) {
+        return rankedPlayers;
+    }
+
+    /// @notice Ranks players with a published score, highest first; ties keep the order of first publication
+    function getLeaderboard(uint256 limit) external view returns (LeaderboardEntry[] memory) {
+        uint256 published = rankedPlayers.length;
+        LeaderboardEntry[] memory entries = new LeaderboardEntry[](published);
+        for (uint256 i = 0; i < published; i++) {
+            entries[i] = LeaderboardEntry({player: rankedPlayers[i], score: publishedScores[rankedPlayers[i]]});
+        }
+
+        uint256 size = limit < published ? limit : published;
+        for (uint256 i = 0; i < size; i++) {
+            uint256 best = i;
+            for (uint256 j = i + 1; j < published; j++) {
+                if (entries[j].score > entries[best].score) {
+                    best = j;
+                }
+            }
+            // Shift rather than swap so equal scores stay in publication order
+            LeaderboardEntry memory top = entries[best];
+            for (uint256 j = best; j > i; j--) {
+                entries[j] = entries[j - 1];
+            }
+            entries[i] = top;
+        }
+
+        LeaderboardEntry[] memory ranking = new LeaderboardEntry[](size);
+        for (uint256 i = 0; i < size; i++) {
+            ranking[i] = entries[i];
+        }
+        return ranking;
+    }
+
+    function _checkDecryption(bytes32 handle, bytes calldata cleartexts, bytes calldata proof) private {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = handle;
+        FHE.checkSignatures(handles, cleartexts, proof);
+    }
+}
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC1967Proxy} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/// @title LuckyBallProxy
+/// @notice ERC-1967 proxy holding the LuckyBall state; upgrades go through `LuckyBall.upgradeToAndCall`
+contract LuckyBallProxy is ERC1967Proxy {
+    constructor(address implementation, bytes memory data) ERC1967Proxy(implementation, data) {}
+}
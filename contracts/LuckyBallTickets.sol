@@ -0,0 +1,533 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint8, euint32, euint64, euint256, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {FheType} from "@fhevm/solidity/lib/FheType.sol";
+import {IFHEVMExecutor, Impl} from "@fhevm/solidity/lib/Impl.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {LuckyBall} from "./LuckyBall.sol";
+import {LuckyBallPoints} from "./LuckyBallPoints.sol";
+import {LuckyBallTreasury} from "./LuckyBallTreasury.sol";
+
+/// @title LuckyBallTickets
+/// @notice Ticket logic of LuckyBall: storing the encrypted numbers players submit, drawing the winning numbers,
+///         scoring tickets on claim, checking signed claim authorizations and the public decryptions of claim
+///         outcomes and winner tallies
+/// @dev Linked library called through delegatecall, so it keeps LuckyBall under the contract size limit while
+///      every FHE permission it grants still belongs to the lottery
+library LuckyBallTickets {
+    uint256 internal constant DEFAULT_TICKET_PRICE = 1e15;
+    uint256 internal constant EMERGENCY_REFUND_DELAY = 7 days;
+    uint256 internal constant SETTLEMENT_PERIOD = 1 days;
+    uint8 internal constant MAX_PICKS = 6;
+    /// @dev Highest number a bitmask draw may use, the last bit of its `euint32` bitmaps
+    uint8 private constant MAX_BITMASK_NUMBER = 31;
+    bytes32 private constant CLAIM_TYPEHASH =
+        keccak256("Claim(address player,uint256[] ticketIndices,uint256 nonce,uint256 deadline)");
+
+    /// @notice Adds a ticket of `player` to `draw` and stores its numbers from an input encrypted for them, flagging
+    ///         numbers outside the range and, when the draw requires unique numbers, numbers `player` already picked
+    ///         in it; in a bitmask draw every purchase adds its number to the player's bitmap and shares their
+    ///         latest ticket unless it was refunded
+    function issue(
+        LuckyBall.Ticket[] storage tickets,
+        LuckyBall.Draw storage draw,
+        LuckyBall.PlayerDraw storage playerDraw,
+        uint256 drawId,
+        externalEuint8[] calldata encryptedNumbers,
+        bytes calldata inputProof,
+        address player
+    ) external returns (uint256 index) {
+        draw.pot += priceOf(draw);
+        draw.ticketCount += 1;
+        playerDraw.bought += 1;
+
+        uint256 count = playerDraw.tickets.length;
+        if (draw.config.bitmask && count > 0 && !tickets[playerDraw.tickets[count - 1]].refunded) {
+            index = playerDraw.tickets[count - 1];
+        } else {
+            index = tickets.length;
+            tickets.push().drawId = drawId;
+            playerDraw.tickets.push(index);
+        }
+
+        if (draw.config.bitmask) {
+            _addToBitmap(tickets[index], draw.config, playerDraw, encryptedNumbers[0], inputProof, player);
+        } else {
+            _storeNumbers(tickets[index], draw, playerDraw, encryptedNumbers, inputProof, player);
+        }
+
+        emit LuckyBall.TicketPurchased(player, drawId, index);
+    }
+
+    /// @notice Claims a ticket of `player` in an executed draw, minting its reward to them and storing whether it
+    ///         matched every drawn number as its outcome
+    function claim(
+        LuckyBall.Ticket storage ticket,
+        LuckyBall.Draw storage draw,
+        LuckyBall.PlayerDraw storage playerDraw,
+        LuckyBallPoints points,
+        address player,
+        uint256 ticketIndex
+    ) external {
+        require(!ticket.claimed && !ticket.refunded, "Already processed");
+        require(draw.executed, "Draw not executed");
+        require(!claimsClosed(draw), "Claim window closed");
+
+        euint8 matches = draw.config.bitmask
+            ? _bitmapMatches(playerDraw.bitmap, draw.winningNumbers)
+            : _countMatches(ticket.numbers, draw.winningNumbers);
+        // A void ticket never wins, so it neither counts in the tally nor confirms a share of the pot
+        ebool isWinner = FHE.and(FHE.eq(matches, draw.config.picks), ticket.valid);
+
+        // Claims after the tally closes no longer count as winners, so the jackpot may already have rolled over
+        bool tallied = block.timestamp <= tallyClosesAt(draw);
+        euint32 reward = _rewardFor(matches, draw.config.rewards);
+        if (draw.jackpot > 0 && tallied) {
+            reward = FHE.select(isWinner, FHE.add(reward, draw.jackpot), reward);
+        }
+        reward = FHE.select(ticket.valid, reward, FHE.asEuint32(0));
+        euint64 minted = FHE.asEuint64(reward);
+        FHE.allowTransient(minted, address(points));
+        points.mint(player, minted);
+
+        // Outcomes are publicly decryptable so winners can confirm their share of the prize pool
+        FHE.allowThis(isWinner);
+        FHE.makePubliclyDecryptable(isWinner);
+
+        // The tally is frozen once it closes so its revealed handle stays current
+        if (tallied) {
+            draw.winnerTally = FHE.add(draw.winnerTally, FHE.select(isWinner, FHE.asEuint32(1), FHE.asEuint32(0)));
+            FHE.allowThis(draw.winnerTally);
+        }
+
+        ticket.outcome = isWinner;
+        ticket.claimed = true;
+        emit LuckyBall.TicketClaimProcessed(player, ticket.drawId, ticketIndex);
+    }
+
+    /// @notice Settles `draw` with winning numbers derived from a random word and sets the operator fee aside from
+    ///         its ticket sales
+    function settle(
+        LuckyBall.Draw storage draw,
+        uint256 drawId,
+        uint256 randomness,
+        LuckyBallTreasury treasury
+    ) external {
+        uint8[] memory result = _drawNumbers(draw.config, randomness);
+        draw.winningNumbers = result;
+        draw.executedAt = block.timestamp;
+        draw.executed = true;
+        // Only ticket sales pay the fee; pots rolled over from earlier draws already did
+        uint256 sales = draw.ticketCount * priceOf(draw);
+        draw.pot -= treasury.takeFee(draw.paymentToken, sales);
+
+        emit LuckyBall.DrawExecuted(drawId, result, jackpotOf(draw));
+    }
+
+    /// @notice Pays back the price of a ticket whose draw never executed and takes it out of the draw; the ticket of
+    ///         a bitmask draw stands for every purchase of its player
+    /// @param cancelled Requires the draw to be cancelled rather than the emergency refund conditions
+    function refund(
+        LuckyBall.Ticket storage ticket,
+        LuckyBall.Draw storage draw,
+        LuckyBall.PlayerDraw storage playerDraw,
+        LuckyBallTreasury treasury,
+        address player,
+        uint256 ticketIndex,
+        bool cancelled,
+        bool paused
+    ) external {
+        require(!draw.executed, "Draw already executed");
+        if (cancelled) {
+            require(draw.cancelled, "Draw not cancelled");
+        } else {
+            // Once requested the randomness may already be public, so pausing cannot refund the losing tickets
+            if (draw.requested) {
+                require(block.timestamp > draw.executedAt + EMERGENCY_REFUND_DELAY, "Refunds not available");
+            } else {
+                require(paused, "Refunds not available");
+            }
+        }
+        require(!ticket.refunded, "Ticket refunded");
+
+        uint256 count = draw.config.bitmask ? playerDraw.bought : 1;
+        uint256 amount = priceOf(draw) * count;
+        ticket.refunded = true;
+        draw.ticketCount -= count;
+        draw.pot -= amount;
+        // Refunded tickets no longer count towards the player's limit
+        playerDraw.bought -= count;
+        if (draw.config.bitmask) {
+            // Later purchases in the draw start a new ticket and bitmap instead of landing on the refunded ones
+            playerDraw.bitmap = euint32.wrap(0);
+        }
+
+        treasury.pay(draw.paymentToken, player, amount);
+
+        emit LuckyBall.TicketRefunded(player, ticket.drawId, ticketIndex, amount);
+    }
+
+    /// @notice Indices of the tickets in `drawId` out of every ticket of a player, scanning all of them only for
+    ///         draws before `firstIndexedDrawId`, which sold before the per-draw index existed
+    function ticketsIn(
+        LuckyBall.Ticket[] storage tickets,
+        LuckyBall.PlayerDraw storage playerDraw,
+        uint256 drawId,
+        uint256 firstIndexedDrawId
+    ) external view returns (uint256[] memory indices) {
+        if (drawId >= firstIndexedDrawId) {
+            return playerDraw.tickets;
+        }
+        uint256 count = 0;
+        for (uint256 i = 0; i < tickets.length; i++) {
+            if (tickets[i].drawId == drawId) {
+                count += 1;
+            }
+        }
+        indices = new uint256[](count);
+        count = 0;
+        for (uint256 i = 0; i < tickets.length; i++) {
+            if (tickets[i].drawId == drawId) {
+                indices[count++] = i;
+            }
+        }
+    }
+
+    /// @notice Marks an unclaimed ticket of `player` as expired once the claim window of its draw has closed
+    function expire(
+        LuckyBall.Ticket storage ticket,
+        LuckyBall.Draw storage draw,
+        address player,
+        uint256 ticketIndex
+    ) external {
+        require(!ticket.claimed && !ticket.expired, "Already processed");
+        require(claimsClosed(draw), "Claim window open");
+
+        ticket.expired = true;
+        emit LuckyBall.TicketExpired(player, ticket.drawId, ticketIndex);
+    }
+
+    /// @notice Moves the pot of `expiredDraw` into `activeDraw` when nobody confirmed a win before its claims closed;
+    ///         of a cancelled draw, only what is not owed back to its tickets moves
+    function rollOverPot(
+        LuckyBall.Draw storage expiredDraw,
+        LuckyBall.Draw storage activeDraw,
+        uint256 drawId,
+        uint256 activeDrawId
+    ) external {
+        require(claimsClosed(expiredDraw) || expiredDraw.cancelled, "Claim window open");
+
+        uint256 refundable = expiredDraw.cancelled ? expiredDraw.ticketCount * priceOf(expiredDraw) : 0;
+        require(expiredDraw.winners == 0 && expiredDraw.pot > refundable, "Nothing to roll over");
+        require(expiredDraw.paymentToken == activeDraw.paymentToken, "Payment token changed");
+
+        uint256 amount = expiredDraw.pot - refundable;
+        expiredDraw.pot = refundable;
+        activeDraw.pot += amount;
+
+        emit LuckyBall.PotRolledOver(drawId, activeDrawId, amount);
+    }
+
+    /// @notice Makes a draw configuration the default of new draws, and the configuration of the active draw while it
+    ///         has no tickets
+    function configure(
+        LuckyBall.DrawConfig storage defaultConfig,
+        LuckyBall.Draw storage activeDraw,
+        uint8 minNumber,
+        uint8 maxNumber,
+        uint8 picks,
+        uint32[] memory rewards,
+        bool bitmask
+    ) external {
+        // Zero is reserved so that it can never be drawn
+        require(minNumber > 0 && minNumber <= maxNumber, "Invalid number range");
+        require(picks > 0 && picks <= MAX_PICKS && picks <= maxNumber - minNumber + 1, "Invalid pick count");
+        require(rewards.length == picks + 1, "Invalid reward tiers");
+        require(!bitmask || (picks == 1 && maxNumber <= MAX_BITMASK_NUMBER), "Invalid bitmask config");
+
+        defaultConfig.minNumber = minNumber;
+        defaultConfig.maxNumber = maxNumber;
+        defaultConfig.picks = picks;
+        defaultConfig.bitmask = bitmask;
+        defaultConfig.rewards = rewards;
+
+        if (activeDraw.ticketCount == 0) {
+            activeDraw.config = defaultConfig;
+        }
+
+        emit LuckyBall.DrawConfigUpdated(minNumber, maxNumber, picks, rewards);
+    }
+
+    /// @dev Zero stands for `TICKET_PRICE`, as draws opened before payment tokens did
+    function priceOf(LuckyBall.Draw storage draw) internal view returns (uint256) {
+        return draw.ticketPrice == 0 ? DEFAULT_TICKET_PRICE : draw.ticketPrice;
+    }
+
+    /// @dev Everything a full match earns: the top reward tier plus whatever carried over
+    function jackpotOf(LuckyBall.Draw storage draw) internal view returns (uint32) {
+        return draw.config.rewards[draw.config.picks] + draw.jackpot;
+    }
+
+    function claimsClosed(LuckyBall.Draw storage draw) internal view returns (bool) {
+        return draw.executed && draw.claimWindow != 0 && block.timestamp > draw.executedAt + draw.claimWindow;
+    }
+
+    /// @dev Draws without a claim window stop counting winners when their settlement period ends
+    function tallyClosesAt(LuckyBall.Draw storage draw) internal view returns (uint256) {
+        return draw.executedAt + (draw.claimWindow == 0 ? SETTLEMENT_PERIOD : draw.claimWindow);
+    }
+
+    /// @dev Derives distinct winning numbers from a random word; the first one is taken from the word itself
+    function _drawNumbers(
+        LuckyBall.DrawConfig storage config,
+        uint256 randomness
+    ) private view returns (uint8[] memory) {
+        uint256 range = uint256(config.maxNumber) - config.minNumber + 1;
+        uint8[] memory numbers = new uint8[](config.picks);
+        uint256 seed = randomness;
+        uint256 count = 0;
+
+        while (count < numbers.length) {
+            uint8 candidate = uint8((seed % range) + config.minNumber);
+            seed = uint256(keccak256(abi.encode(seed)));
+
+            bool duplicate = false;
+            for (uint256 i = 0; i < count; i++) {
+                duplicate = duplicate || numbers[i] == candidate;
+            }
+            if (!duplicate) {
+                numbers[count] = candidate;
+                count += 1;
+            }
+        }
+        return numbers;
+    }
+
+    /// @notice Checks that `player` signed an EIP-712 `Claim` for exactly `ticketIndices` under the lottery's domain
+    function checkClaimSignature(
+        bytes32 domainSeparator,
+        address player,
+        uint256[] calldata ticketIndices,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external pure {
+        bytes32 structHash = keccak256(
+            abi.encode(CLAIM_TYPEHASH, player, keccak256(abi.encodePacked(ticketIndices)), nonce, deadline)
+        );
+        bytes32 digest = MessageHashUtils.toTypedDataHash(domainSeparator, structHash);
+        require(ECDSA.recover(digest, signature) == player, "Invalid signature");
+    }
+
+    /// @notice Records a claimed ticket of `player` as a winner of `draw` from the public decryption of its outcome,
+    ///         within the settlement period of the draw
+    function confirmWin(
+        LuckyBall.Ticket storage ticket,
+        LuckyBall.Draw storage draw,
+        address player,
+        uint256 ticketIndex,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        require(ticket.claimed, "Ticket not claimed");
+        require(!ticket.won, "Win already confirmed");
+        require(block.timestamp <= draw.executedAt + SETTLEMENT_PERIOD, "Settlement period over");
+
+        _checkDecryption(FHE.toBytes32(ticket.outcome), abiEncodedCleartexts, decryptionProof);
+        require(abi.decode(abiEncodedCleartexts, (bool)), "Ticket did not win");
+
+        ticket.won = true;
+        draw.winners += 1;
+        emit LuckyBall.WinConfirmed(player, ticket.drawId, ticketIndex);
+    }
+
+    /// @notice Pays `player` their share of the pot of `draw` for a confirmed winning ticket once the settlement
+    ///         period of the draw is over
+    function payPrize(
+        LuckyBall.Ticket storage ticket,
+        LuckyBall.Draw storage draw,
+        LuckyBallTreasury treasury,
+        address player,
+        uint256 ticketIndex
+    ) external {
+        require(ticket.won, "Win not confirmed");
+        require(!ticket.paid, "Prize already paid");
+        require(block.timestamp > draw.executedAt + SETTLEMENT_PERIOD, "Settlement period active");
+
+        uint256 amount = draw.pot / draw.winners;
+        ticket.paid = true;
+
+        treasury.pay(draw.paymentToken, player, amount);
+
+        emit LuckyBall.PrizePaid(player, ticket.drawId, ticketIndex, amount);
+    }
+
+    /// @notice Makes the winner tally of `draw` publicly decryptable once it stops counting claims and returns its
+    ///         handle
+    function revealTally(LuckyBall.Draw storage draw) external returns (bytes32) {
+        require(draw.executed, "Draw not executed");
+        require(block.timestamp > tallyClosesAt(draw), "Claim window open");
+
+        // A draw without claims never touched its tally
+        if (!FHE.isInitialized(draw.winnerTally)) {
+            draw.winnerTally = FHE.asEuint32(0);
+            FHE.allowThis(draw.winnerTally);
+        }
+        FHE.makePubliclyDecryptable(draw.winnerTally);
+        return FHE.toBytes32(draw.winnerTally);
+    }
+
+    /// @notice Checks the public decryption of the revealed winner tally of `draw` and records it; without a winner,
+    ///         the jackpot of `draw` carries over to `activeDraw`
+    function publishTally(
+        LuckyBall.Draw storage draw,
+        LuckyBall.Draw storage activeDraw,
+        uint256 drawId,
+        uint256 activeDrawId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        require(FHE.isInitialized(draw.winnerTally), "Tally not revealed");
+        require(!draw.tallyPublished, "Tally already published");
+        require(block.timestamp > tallyClosesAt(draw), "Claim window open");
+
+        _checkDecryption(FHE.toBytes32(draw.winnerTally), abiEncodedCleartexts, decryptionProof);
+
+        uint32 winningTickets = abi.decode(abiEncodedCleartexts, (uint32));
+        draw.winningTickets = winningTickets;
+        draw.tallyPublished = true;
+        emit LuckyBall.WinnerTallyPublished(drawId, winningTickets);
+
+        if (winningTickets == 0) {
+            uint32 jackpot = jackpotOf(draw);
+            activeDraw.jackpot += jackpot;
+            emit LuckyBall.JackpotRolledOver(drawId, activeDrawId, jackpot);
+        }
+    }
+
+    function _checkDecryption(bytes32 handle, bytes calldata cleartexts, bytes calldata proof) private {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = handle;
+        FHE.checkSignatures(handles, cleartexts, proof);
+    }
+
+    /// @dev `FHE.fromExternal` checks the proof against `msg.sender`, which is the forwarder on relayed purchases;
+    /// verifying against the player keeps inputs encrypted for someone else unusable
+    function _fromExternal(externalEuint8 input, bytes calldata inputProof, address player) private returns (euint8) {
+        IFHEVMExecutor executor = IFHEVMExecutor(Impl.getCoprocessorConfig().CoprocessorAddress);
+        return euint8.wrap(executor.verifyInput(externalEuint8.unwrap(input), player, inputProof, FheType.Uint8));
+    }
+
+    /// @dev Checks every number against the draw range without revealing it; invalid tickets never earn a reward
+    function _validateNumbers(euint8[] storage numbers, LuckyBall.DrawConfig storage config) private returns (ebool) {
+        ebool valid = FHE.asEbool(true);
+        for (uint256 i = 0; i < numbers.length; i++) {
+            ebool inRange = FHE.and(FHE.ge(numbers[i], config.minNumber), FHE.le(numbers[i], config.maxNumber));
+            valid = FHE.and(valid, inRange);
+        }
+        return valid;
+    }
+
+    /// @dev Voids the ticket if any number is already in the player's bitmap, repeats included, and otherwise adds
+    /// its numbers; void tickets leave the bitmap as it was so their numbers stay available
+    function _pickNumbers(
+        LuckyBall.PlayerDraw storage playerDraw,
+        euint8[] storage numbers,
+        ebool valid
+    ) private returns (ebool) {
+        euint256 previous = FHE.isInitialized(playerDraw.picked) ? playerDraw.picked : FHE.asEuint256(0);
+        euint256 picked = previous;
+        euint256 one = FHE.asEuint256(1);
+        for (uint256 i = 0; i < numbers.length; i++) {
+            euint256 bit = FHE.shl(one, numbers[i]);
+            valid = FHE.and(valid, FHE.eq(FHE.and(picked, bit), 0));
+            picked = FHE.or(picked, bit);
+        }
+
+        playerDraw.picked = FHE.select(valid, picked, previous);
+        FHE.allowThis(playerDraw.picked);
+        return valid;
+    }
+
+    function _storeNumbers(
+        LuckyBall.Ticket storage ticket,
+        LuckyBall.Draw storage draw,
+        LuckyBall.PlayerDraw storage playerDraw,
+        externalEuint8[] calldata encryptedNumbers,
+        bytes calldata inputProof,
+        address player
+    ) private {
+        for (uint256 i = 0; i < encryptedNumbers.length; i++) {
+            euint8 number = _fromExternal(encryptedNumbers[i], inputProof, player);
+            ticket.numbers.push(number);
+
+            FHE.allowThis(number);
+            FHE.allow(number, player);
+        }
+
+        ebool valid = _validateNumbers(ticket.numbers, draw.config);
+        if (draw.limits.uniqueNumbers) {
+            valid = _pickNumbers(playerDraw, ticket.numbers, valid);
+        }
+        ticket.valid = valid;
+        FHE.allowThis(ticket.valid);
+        FHE.allow(ticket.valid, player);
+    }
+
+    /// @dev Sets the bit of the number in the player's bitmap; numbers below the range set bits that are never drawn,
+    /// numbers above it set none. The shared ticket only tracks the claim, so it is always valid
+    function _addToBitmap(
+        LuckyBall.Ticket storage ticket,
+        LuckyBall.DrawConfig storage config,
+        LuckyBall.PlayerDraw storage playerDraw,
+        externalEuint8 encryptedNumber,
+        bytes calldata inputProof,
+        address player
+    ) private {
+        euint8 number = _fromExternal(encryptedNumber, inputProof, player);
+        euint32 bit = FHE.shl(FHE.asEuint32(FHE.le(number, config.maxNumber)), number);
+        playerDraw.bitmap = FHE.or(playerDraw.bitmap, bit);
+        FHE.allowThis(playerDraw.bitmap);
+        FHE.allow(playerDraw.bitmap, player);
+
+        if (!FHE.isInitialized(ticket.valid)) {
+            ticket.valid = FHE.asEbool(true);
+            FHE.allowThis(ticket.valid);
+            FHE.allow(ticket.valid, player);
+        }
+    }
+
+    /// @dev Counts the drawn numbers whose bit is set, `(bitmap >> winning) & 1` for each of them
+    function _bitmapMatches(euint32 bitmap, uint8[] storage winningNumbers) private returns (euint8) {
+        euint8 matches = FHE.asEuint8(0);
+        for (uint256 w = 0; w < winningNumbers.length; w++) {
+            matches = FHE.add(matches, FHE.asEuint8(FHE.and(FHE.shr(bitmap, winningNumbers[w]), 1)));
+        }
+        return matches;
+    }
+
+    /// @dev Counts every drawn number the ticket holds at least once, so repeated picks cannot inflate the count
+    function _countMatches(euint8[] storage numbers, uint8[] storage winningNumbers) private returns (euint8) {
+        euint8 matches = FHE.asEuint8(0);
+        for (uint256 w = 0; w < winningNumbers.length; w++) {
+            ebool hit = FHE.eq(numbers[0], winningNumbers[w]);
+            for (uint256 i = 1; i < numbers.length; i++) {
+                hit = FHE.or(hit, FHE.eq(numbers[i], winningNumbers[w]));
+            }
+            matches = FHE.add(matches, FHE.asEuint8(hit));
+        }
+        return matches;
+    }
+
+    function _rewardFor(euint8 matches, uint32[] storage rewards) private returns (euint32) {
+        euint32 reward = FHE.asEuint32(rewards[0]);
+        for (uint256 k = 1; k < rewards.length; k++) {
+            if (rewards[k] != rewards[0]) {
+                reward = FHE.select(FHE.eq(matches, uint8(k)), FHE.asEuint32(rewards[k]), reward);
+            }
+        }
+        return reward;
+    }
+}
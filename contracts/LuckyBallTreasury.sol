@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Ownable, Ownable2Step} from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/// @title LuckyBallTreasury
+/// @notice Holds LuckyBall ticket payments in ETH or ERC-20 tokens and pays prizes out of them; only the lottery
+///         moves funds, players approve this contract to spend their tokens
+/// @dev The operator fee is set aside from each draw's ticket sales when the draw executes and stays here until the
+///      fee recipient withdraws it. Confidential ERC-7984 tokens are not supported: their transfers move an encrypted
+///      amount, nothing when the balance falls short, while pots, fees and prizes are plaintext amounts
+contract LuckyBallTreasury is Ownable2Step {
+    using SafeERC20 for IERC20;
+
+    uint16 public constant MAX_FEE_BPS = 2_000;
+
+    address public game;
+    uint16 public feeBps;
+    address public feeRecipient;
+    /// @dev Keyed by token, the zero address for ETH
+    mapping(IERC20 => uint256) public accruedFees;
+
+    event GameUpdated(address indexed game);
+    event FeeUpdated(uint16 feeBps, address indexed recipient);
+    event FeeTaken(address indexed token, uint256 amount);
+    event FeesWithdrawn(address indexed token, address indexed recipient, uint256 amount);
+
+    modifier onlyGame() {
+        require(msg.sender == game, "Caller is not the game");
+        _;
+    }
+
+    constructor() Ownable(msg.sender) {}
+
+    /// @notice Takes funds the lottery held before it had a treasury
+    receive() external payable onlyGame {}
+
+    function setGame(address newGame) external onlyOwner {
+        game = newGame;
+        emit GameUpdated(newGame);
+    }
+
+    /// @notice Sets the fee taken from ticket sales of draws executed from now on, in basis points
+    function setFee(uint16 newFeeBps, address recipient) external onlyOwner {
+        require(newFeeBps <= MAX_FEE_BPS, "Fee too high");
+        require(recipient != address(0) || newFeeBps == 0, "Invalid fee recipient");
+        feeBps = newFeeBps;
+        feeRecipient = recipient;
+        emit FeeUpdated(newFeeBps, recipient);
+    }
+
+    /// @notice Sends the fees accrued in `token` (zero for ETH) to the fee recipient
+    function withdrawFees(IERC20 token) external {
+        require(msg.sender == feeRecipient || msg.sender == owner(), "Caller cannot withdraw fees");
+        uint256 amount = accruedFees[token];
+        require(amount > 0, "No fees to withdraw");
+
+        accruedFees[token] = 0;
+        _send(token, feeRecipient, amount);
+        emit FeesWithdrawn(address(token), feeRecipient, amount);
+    }
+
+    /// @notice Takes a payment of `amount` from `payer`, in ETH sent along when `token` is zero
+    function collect(address payer, IERC20 token, uint256 amount) external payable onlyGame {
+        if (address(token) == address(0)) {
+            require(msg.value == amount, "Invalid ticket price");
+        } else {
+            require(msg.value == 0, "Invalid ticket price");
+            token.safeTransferFrom(payer, address(this), amount);
+        }
+    }
+
+    /// @notice Like `collect`, after using an EIP-2612 permit of `payer` for this contract
+    /// @dev A permit that was already used, e.g. by someone front-running it, is skipped and the allowance decides
+    function collectWithPermit(
+        address payer,
+        IERC20 token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external onlyGame {
+        require(address(token) != address(0), "Draw is paid in ETH");
+        try IERC20Permit(address(token)).permit(payer, address(this), amount, deadline, v, r, s) {} catch {}
+        token.safeTransferFrom(payer, address(this), amount);
+    }
+
+    /// @notice Sets the fee on `sales` aside for the fee recipient and returns it, so the lottery takes it off the pot
+    function takeFee(IERC20 token, uint256 sales) external onlyGame returns (uint256 fee) {
+        fee = (sales * feeBps) / 10_000;
+        if (fee > 0) {
+            accruedFees[token] += fee;
+            emit FeeTaken(address(token), fee);
+        }
+    }
+
+    /// @notice Pays `amount` of `token`, or ETH when `token` is zero, to `to`
+    function pay(IERC20 token, address to, uint256 amount) external onlyGame {
+        _send(token, to, amount);
+    }
+
+    function _send(IERC20 token, address to, uint256 amount) private {
+        if (address(token) == address(0)) {
+            (bool sent, ) = payable(to).call{value: amount}("");
+            require(sent, "Transfer failed");
+        } else {
+            token.safeTransfer(to, amount);
+        }
+    }
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {LuckyBall} from "../LuckyBall.sol";
+
+/// @title MockLuckyBallV2
+/// @notice Next LuckyBall implementation used to check that state survives an upgrade
+contract MockLuckyBallV2 is LuckyBall {
+    uint256 public upgradeMarker;
+
+    constructor(address trustedForwarder) LuckyBall(trustedForwarder) {}
+
+    function setUpgradeMarker(uint256 marker) external onlyOwner {
+        upgradeMarker = marker;
+    }
+
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
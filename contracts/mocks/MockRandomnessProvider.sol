@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {RandomnessProvider} from "../randomness/RandomnessProvider.sol";
+
+/// @title MockRandomnessProvider
+/// @notice Test provider that lets anyone fulfil a request with an arbitrary value
+contract MockRandomnessProvider is RandomnessProvider {
+    function fulfillRandomness(uint256 requestId, uint256 randomness) external {
+        _fulfill(requestId, randomness);
+    }
+
+    function _onRequest(uint256) internal override {}
+}
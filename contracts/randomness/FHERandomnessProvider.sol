@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RandomnessProvider} from "./RandomnessProvider.sol";
+
+/// @title FHERandomnessProvider
+/// @notice Generates encrypted on-chain randomness that is revealed through public decryption
+/// @dev Nobody can read the value before the request is mined, so the requester cannot steer the result
+contract FHERandomnessProvider is RandomnessProvider, ZamaEthereumConfig {
+    mapping(uint256 => euint64) private encryptedRandomness;
+
+    function getEncryptedRandomness(uint256 requestId) external view returns (euint64) {
+        return encryptedRandomness[requestId];
+    }
+
+    /// @notice Forwards the decrypted random value once the KMS signatures are verified; callable by anyone
+    function revealRandomness(
+        uint256 requestId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(encryptedRandomness[requestId]);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+
+        _fulfill(requestId, abi.decode(abiEncodedCleartexts, (uint64)));
+    }
+
+    function _onRequest(uint256 requestId) internal override {
+        euint64 randomness = FHE.randEuint64();
+        encryptedRandomness[requestId] = randomness;
+
+        FHE.allowThis(randomness);
+        FHE.makePubliclyDecryptable(randomness);
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title IRandomnessProvider
+/// @notice Source of randomness used to settle LuckyBall draws through a request/fulfil flow
+interface IRandomnessProvider {
+    event RandomnessRequested(uint256 indexed requestId, address indexed consumer, uint256 indexed drawId);
+    event RandomnessFulfilled(uint256 indexed requestId, uint256 randomness);
+
+    /// @notice Requests randomness for a draw; the provider later calls back `rawFulfillRandomness` on the caller
+    function requestRandomness(uint256 drawId) external returns (uint256 requestId);
+}
+
+/// @title IRandomnessConsumer
+/// @notice Callback implemented by contracts that request randomness from an `IRandomnessProvider`
+interface IRandomnessConsumer {
+    function rawFulfillRandomness(uint256 requestId, uint256 randomness) external;
+}
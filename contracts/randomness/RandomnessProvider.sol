@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IRandomnessConsumer, IRandomnessProvider} from "./IRandomnessProvider.sol";
+
+/// @title RandomnessProvider
+/// @notice Request bookkeeping shared by the randomness provider implementations
+abstract contract RandomnessProvider is IRandomnessProvider {
+    struct Request {
+        address consumer;
+        uint256 drawId;
+        bool fulfilled;
+    }
+
+    mapping(uint256 => Request) private requests;
+
+    uint256 public nextRequestId = 1;
+
+    function requestRandomness(uint256 drawId) external virtual returns (uint256) {
+        uint256 requestId = nextRequestId;
+        nextRequestId += 1;
+
+        requests[requestId] = Request({consumer: msg.sender, drawId: drawId, fulfilled: false});
+        _onRequest(requestId);
+
+        emit RandomnessRequested(requestId, msg.sender, drawId);
+        return requestId;
+    }
+
+    function getRequest(uint256 requestId) external view returns (Request memory) {
+        return requests[requestId];
+    }
+
+    function _onRequest(uint256 requestId) internal virtual;
+
+    function _fulfill(uint256 requestId, uint256 randomness) internal {
+        Request storage request = requests[requestId];
+        require(request.consumer != address(0), "Unknown request");
+        require(!request.fulfilled, "Request already fulfilled");
+
+        request.fulfilled = true;
+
+        emit RandomnessFulfilled(requestId, randomness);
+        IRandomnessConsumer(request.consumer).rawFulfillRandomness(requestId, randomness);
+    }
+}
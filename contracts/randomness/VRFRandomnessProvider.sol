@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {RandomnessProvider} from "./RandomnessProvider.sol";
+
+/// @title VRFRandomnessProvider
+/// @notice Request/fulfil provider where an off-chain VRF oracle answers each request with its random word
+/// @dev No VRF proof is checked on-chain: the oracle account is trusted to answer honestly, and whoever holds its key
+///      can choose the winning numbers of every draw
+contract VRFRandomnessProvider is RandomnessProvider {
+    address public immutable oracle;
+
+    constructor(address oracle_) {
+        require(oracle_ != address(0), "Invalid oracle");
+        oracle = oracle_;
+    }
+
+    function fulfillRandomness(uint256 requestId, uint256 randomness) external {
+        require(msg.sender == oracle, "Only oracle");
+        _fulfill(requestId, randomness);
+    }
+
+    function _onRequest(uint256) internal override {}
+}
@@ -1,19 +1,149 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import * as dotenv from "dotenv";
+import { ZeroAddress } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+import { abiHash, type DeploymentEntry, type DeploymentManifest } from "../sdk/src";
 
 dotenv.config();
 
+// The mock lets anyone pick the winning numbers, so it is only deployed to local development networks
+const LOCAL_NETWORKS = ["hardhat", "localhost", "anvil"];
+
+// The UI resolves the LuckyBall address for the connected chain from this manifest
+const MANIFEST_PATH = path.join(__dirname, "..", "ui", "src", "config", "deployments.json");
+
+// Select the randomness source with RANDOMNESS_PROVIDER=fhe|vrf|mock (defaults to on-chain FHE randomness); vrf takes
+// its oracle account from VRF_ORACLE
+const RANDOMNESS_PROVIDERS: Record<string, string> = {
+  fhe: "FHERandomnessProvider",
+  vrf: "VRFRandomnessProvider",
+  mock: "MockRandomnessProvider",
+};
+
+function recordDeployment(chainId: string, entry: DeploymentEntry) {
+  const manifest: DeploymentManifest = fs.existsSync(MANIFEST_PATH)
+    ? JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8"))
+    : {};
+  manifest[chainId] = entry;
+  fs.writeFileSync(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  const providerKind = (process.env.RANDOMNESS_PROVIDER ?? "fhe").toLowerCase();
+  const providerName = RANDOMNESS_PROVIDERS[providerKind];
+  if (!providerName) {
+    throw new Error(`Unknown RANDOMNESS_PROVIDER "${providerKind}", expected one of fhe, vrf, mock`);
+  }
+  if (providerKind === "mock" && !LOCAL_NETWORKS.includes(hre.network.name)) {
+    throw new Error(`RANDOMNESS_PROVIDER=mock is only allowed on ${LOCAL_NETWORKS.join(", ")}`);
+  }
+  // The oracle alone decides each draw, so it is never defaulted to the deployer
+  const oracle = process.env.VRF_ORACLE;
+  if (providerKind === "vrf" && !oracle) {
+    throw new Error("RANDOMNESS_PROVIDER=vrf requires VRF_ORACLE");
+  }
+
+  const deployedProvider = await deploy(providerName, {
+    from: deployer,
+    args: providerKind === "vrf" ? [oracle] : [],
+    log: true,
+  });
+
+  console.log(`${providerName} contract: `, deployedProvider.address);
+
+  const deployedPoints = await deploy("LuckyBallPoints", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`LuckyBallPoints contract: `, deployedPoints.address);
+
+  const deployedForwarder = await deploy("LuckyBallForwarder", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`LuckyBallForwarder contract: `, deployedForwarder.address);
+
+  const deployedTreasury = await deploy("LuckyBallTreasury", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`LuckyBallTreasury contract: `, deployedTreasury.address);
+
+  // The encrypted ticket logic is linked in to keep LuckyBall under the contract size limit
+  const deployedTickets = await deploy("LuckyBallTickets", {
+    from: deployer,
+    log: true,
+  });
+
+  // Re-running with a changed LuckyBall upgrades the proxy in place, which only the owner can do. The trusted
+  // forwarder is an implementation constructor argument, so moving to another one also takes an upgrade
   const deployedLuckyBall = await deploy("LuckyBall", {
     from: deployer,
+    args: [deployedForwarder.address],
+    libraries: { LuckyBallTickets: deployedTickets.address },
     log: true,
+    proxy: {
+      proxyContract: "LuckyBallProxy",
+      proxyArgs: ["{implementation}", "{data}"],
+      checkABIConflict: false,
+      checkProxyAdmin: false,
+      execute: {
+        init: { methodName: "initialize", args: [deployedProvider.address, deployedPoints.address] },
+      },
+      upgradeFunction: { methodName: "upgradeToAndCall", upgradeArgs: ["{implementation}", "{data}"] },
+    },
   });
 
   console.log(`LuckyBall contract: `, deployedLuckyBall.address);
+
+  const minter = await hre.deployments.read("LuckyBallPoints", "minter");
+  if (minter !== deployedLuckyBall.address) {
+    await hre.deployments.execute(
+      "LuckyBallPoints",
+      { from: deployer, log: true },
+      "setMinter",
+      deployedLuckyBall.address,
+    );
+  }
+
+  const game = await hre.deployments.read("LuckyBallTreasury", "game");
+  if (game !== deployedLuckyBall.address) {
+    await hre.deployments.execute(
+      "LuckyBallTreasury",
+      { from: deployer, log: true },
+      "setGame",
+      deployedLuckyBall.address,
+    );
+  }
+
+  // The lottery keeps its first treasury, which holds the pots and fees, so a redeployed one is left unused
+  const treasury = await hre.deployments.read("LuckyBall", "treasury");
+  if (treasury === ZeroAddress) {
+    await hre.deployments.execute("LuckyBall", { from: deployer, log: true }, "setTreasury", deployedTreasury.address);
+  } else if (treasury !== deployedTreasury.address) {
+    console.warn(`LuckyBall keeps its treasury ${treasury}; LuckyBallTreasury ${deployedTreasury.address} is unused`);
+  }
+
+  // The in-process hardhat network disappears with the command, so there is nothing for the UI to reach
+  if (hre.network.name !== "hardhat") {
+    const chainId = await hre.getChainId();
+    recordDeployment(chainId, {
+      address: deployedLuckyBall.address as `0x${string}`,
+      // The deployment ABI also carries the proxy's own entries
+      abiHash: abiHash((await hre.deployments.getArtifact("LuckyBall")).abi),
+      deployBlock: deployedLuckyBall.receipt?.blockNumber ?? 0,
+    });
+    console.log(`Recorded LuckyBall for chain ${chainId} in ${path.relative(process.cwd(), MANIFEST_PATH)}`);
+  }
 };
 export default func;
 func.id = "deploy_luckyball"; // id required to prevent reexecution
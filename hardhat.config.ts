@@ -6,12 +6,14 @@ import "@typechain/hardhat";
 import "hardhat-deploy";
 import "hardhat-gas-reporter";
 import type { HardhatUserConfig } from "hardhat/config";
+import type { SolcUserConfig } from "hardhat/types";
 import { vars } from "hardhat/config";
 import "solidity-coverage";
 import * as dotenv from "dotenv";
 
 import "./tasks/accounts";
 import "./tasks/LuckyBall";
+import "./tasks/sdk";
 
 dotenv.config();
 
@@ -20,6 +22,28 @@ dotenv.config();
 const INFURA_API_KEY: string = process.env.INFURA_API_KEY ?? vars.get("INFURA_API_KEY", "zzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzz");
 const PRIVATE_KEY: string | undefined = process.env.PRIVATE_KEY;
 
+function compiler(runs: number): SolcUserConfig {
+  return {
+    version: "0.8.27",
+    settings: {
+      metadata: {
+        // Not including the metadata hash
+        // https://github.com/paulrberg/hardhat-template/issues/31
+        bytecodeHash: "none",
+      },
+      // Disable the optimizer when debugging
+      // https://hardhat.org/hardhat-network/#solidity-optimizer-support
+      optimizer: {
+        enabled: true,
+        runs,
+      },
+      evmVersion: "cancun",
+      // Read by the storage layout test in test/LuckyBallUpgrade.ts
+      outputSelection: { "*": { "*": ["storageLayout"] } },
+    },
+  };
+}
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   namedAccounts: {
@@ -65,20 +89,11 @@ const config: HardhatUserConfig = {
     tests: "./test",
   },
   solidity: {
-    version: "0.8.27",
-    settings: {
-      metadata: {
-        // Not including the metadata hash
-        // https://github.com/paulrberg/hardhat-template/issues/31
-        bytecodeHash: "none",
-      },
-      // Disable the optimizer when debugging
-      // https://hardhat.org/hardhat-network/#solidity-optimizer-support
-      optimizer: {
-        enabled: true,
-        runs: 800,
-      },
-      evmVersion: "cancun",
+    compilers: [compiler(800)],
+    // LuckyBall trades some runtime gas for bytecode size to stay under the 24 KiB contract size limit
+    overrides: {
+      "contracts/LuckyBall.sol": compiler(1),
+      "contracts/mocks/MockLuckyBallV2.sol": compiler(1),
     },
   },
   typechain: {
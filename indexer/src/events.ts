@@ -0,0 +1,63 @@
+import { Interface, type Log } from "ethers";
+
+// Only the events the indexer stores; the full ABI lives in the hardhat artifacts
+export const LUCKYBALL_EVENTS = new Interface([
+  "event TicketPurchased(address indexed player, uint256 indexed drawId, uint256 indexed ticketIndex)",
+  "event DrawExecuted(uint256 indexed drawId, uint8[] winningNumbers, uint32 jackpot)",
+  "event TicketClaimProcessed(address indexed player, uint256 indexed drawId, uint256 indexed ticketIndex)",
+]);
+
+export const INDEXED_TOPICS = ["TicketPurchased", "DrawExecuted", "TicketClaimProcessed"].map(
+  (name) => LUCKYBALL_EVENTS.getEvent(name)!.topicHash,
+);
+
+type LogPosition = {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+};
+
+export type TicketEvent = LogPosition & {
+  kind: "TicketPurchased" | "TicketClaimProcessed";
+  player: string;
+  drawId: number;
+  ticketIndex: number;
+};
+
+export type DrawExecutedEvent = LogPosition & {
+  kind: "DrawExecuted";
+  drawId: number;
+  winningNumbers: number[];
+  jackpot: number;
+  timestamp: number;
+};
+
+export type LuckyBallEvent = TicketEvent | DrawExecutedEvent;
+
+/// Decodes a raw log, returning null for events the indexer does not track
+export function decodeLog(log: Log, timestamp: number): LuckyBallEvent | null {
+  const parsed = LUCKYBALL_EVENTS.parseLog(log);
+  if (!parsed) {
+    return null;
+  }
+
+  const position = { blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.index };
+  if (parsed.name === "DrawExecuted") {
+    return {
+      ...position,
+      kind: "DrawExecuted",
+      drawId: Number(parsed.args.drawId),
+      winningNumbers: Array.from(parsed.args.winningNumbers as bigint[], (value) => Number(value)),
+      jackpot: Number(parsed.args.jackpot),
+      timestamp,
+    };
+  }
+
+  return {
+    ...position,
+    kind: parsed.name as TicketEvent["kind"],
+    player: (parsed.args.player as string).toLowerCase(),
+    drawId: Number(parsed.args.drawId),
+    ticketIndex: Number(parsed.args.ticketIndex),
+  };
+}
@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import { getAddress, JsonRpcProvider } from "ethers";
+
+import { createApiServer } from "./server";
+import { IndexerStore } from "./store";
+import { syncOnce } from "./sync";
+
+const RPC_URL = process.env.INDEXER_RPC_URL ?? "http://127.0.0.1:8545";
+const PORT = Number(process.env.INDEXER_PORT ?? 4000);
+const POLL_INTERVAL_MS = Number(process.env.INDEXER_POLL_INTERVAL_MS ?? 2_000);
+const DATABASE_FILE = process.env.INDEXER_DB ?? path.resolve(__dirname, "../luckyball.sqlite");
+const DEPLOYMENT_FILE =
+  process.env.INDEXER_DEPLOYMENT ?? path.resolve(__dirname, "../../deployments/localhost/LuckyBall.json");
+
+// LUCKYBALL_ADDRESS overrides the hardhat-deploy record, INDEXER_START_BLOCK defaults to the deployment block
+function resolveContract(): { contract: string; startBlock: number } {
+  const deployment = fs.existsSync(DEPLOYMENT_FILE)
+    ? (JSON.parse(fs.readFileSync(DEPLOYMENT_FILE, "utf8")) as { address: string; receipt?: { blockNumber: number } })
+    : undefined;
+  const address = process.env.LUCKYBALL_ADDRESS ?? deployment?.address;
+  if (!address) {
+    throw new Error(`No LuckyBall deployment at ${DEPLOYMENT_FILE}, set LUCKYBALL_ADDRESS`);
+  }
+  const deployBlock = process.env.LUCKYBALL_ADDRESS ? 0 : (deployment?.receipt?.blockNumber ?? 0);
+  const startBlock = Number(process.env.INDEXER_START_BLOCK ?? deployBlock);
+  return { contract: getAddress(address), startBlock };
+}
+
+async function main() {
+  const { contract, startBlock } = resolveContract();
+  const provider = new JsonRpcProvider(RPC_URL);
+  const store = await IndexerStore.open(DATABASE_FILE);
+
+  const poll = async () => {
+    try {
+      const indexed = await syncOnce(provider, store, { contract, startBlock });
+      if (indexed > 0) {
+        console.log(`Indexed ${indexed} event(s) up to block ${store.lastBlock}`);
+      }
+    } catch (error) {
+      console.error(`Sync failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setTimeout(poll, POLL_INTERVAL_MS);
+  };
+  await poll();
+
+  createApiServer(store).listen(PORT, () => {
+    console.log(`LuckyBall indexer for ${contract} on ${RPC_URL}, serving http://localhost:${PORT}`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
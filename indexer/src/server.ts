@@ -0,0 +1,72 @@
+import http from "http";
+import { isAddress } from "ethers";
+
+import type { IndexerStore } from "./store";
+
+type Route = {
+  pattern: RegExp;
+  handle: (store: IndexerStore, params: string[]) => [number, unknown];
+};
+
+const ROUTES: Route[] = [
+  {
+    pattern: /^\/status$/,
+    handle: (store) => [200, { contract: store.contract, lastBlock: store.lastBlock }],
+  },
+  {
+    pattern: /^\/draws$/,
+    handle: (store) => [200, store.listDraws()],
+  },
+  {
+    pattern: /^\/draws\/(\d+)$/,
+    handle: (store, [drawId]) => {
+      const draw = store.getDraw(Number(drawId));
+      if (!draw) {
+        return [404, { error: "Unknown draw" }];
+      }
+      return [200, { ...draw, tickets: store.getDrawTickets(draw.drawId) }];
+    },
+  },
+  {
+    pattern: /^\/players\/([^/]+)$/,
+    handle: (store, [player]) => {
+      if (!isAddress(player)) {
+        return [400, { error: "Invalid player address" }];
+      }
+      return [200, store.getPlayer(player)];
+    },
+  },
+];
+
+/// Serves the indexed data as read-only JSON; CORS is open so the UI can query it from the dev server
+export function createApiServer(store: IndexerStore): http.Server {
+  return http.createServer((request, response) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+
+    let status = 404;
+    let body: unknown = { error: "Not found" };
+    if (request.method !== "GET") {
+      status = 405;
+      body = { error: "Method not allowed" };
+    } else {
+      for (const route of ROUTES) {
+        const match = route.pattern.exec(pathname);
+        if (match) {
+          try {
+            [status, body] = route.handle(store, match.slice(1));
+          } catch (error) {
+            status = 500;
+            body = { error: error instanceof Error ? error.message : String(error) };
+          }
+          break;
+        }
+      }
+    }
+
+    response.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    });
+    response.end(JSON.stringify(body));
+  });
+}
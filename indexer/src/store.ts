@@ -0,0 +1,242 @@
+import fs from "fs";
+import initSqlJs, { type Database, type SqlValue } from "sql.js";
+
+import type { LuckyBallEvent } from "./events";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS tickets (
+  player TEXT NOT NULL,
+  ticket_index INTEGER NOT NULL,
+  draw_id INTEGER NOT NULL,
+  purchase_block INTEGER,
+  purchase_tx TEXT,
+  claimed INTEGER NOT NULL DEFAULT 0,
+  claim_block INTEGER,
+  claim_tx TEXT,
+  PRIMARY KEY (player, ticket_index)
+);
+CREATE INDEX IF NOT EXISTS tickets_by_draw ON tickets (draw_id);
+CREATE TABLE IF NOT EXISTS draws (
+  draw_id INTEGER PRIMARY KEY,
+  winning_numbers TEXT NOT NULL,
+  jackpot INTEGER NOT NULL DEFAULT 0,
+  executed_block INTEGER NOT NULL,
+  executed_at INTEGER NOT NULL,
+  executed_tx TEXT NOT NULL
+);
+`;
+
+export type DrawSummary = {
+  drawId: number;
+  executed: boolean;
+  winningNumbers: number[];
+  jackpot: number | null;
+  executedAt: number | null;
+  executedBlock: number | null;
+  ticketCount: number;
+  claimedCount: number;
+};
+
+export type TicketRecord = {
+  player: string;
+  ticketIndex: number;
+  drawId: number;
+  purchaseBlock: number | null;
+  purchaseTx: string | null;
+  claimed: boolean;
+  claimBlock: number | null;
+  claimTx: string | null;
+};
+
+export type PlayerSummary = {
+  player: string;
+  ticketCount: number;
+  claimedCount: number;
+  unclaimed: number[];
+  tickets: TicketRecord[];
+};
+
+type Row = Record<string, SqlValue>;
+
+const DRAW_SUMMARY_SQL = `
+SELECT ids.draw_id AS draw_id, d.winning_numbers, d.jackpot, d.executed_at, d.executed_block,
+       COUNT(t.ticket_index) AS ticket_count, COALESCE(SUM(t.claimed), 0) AS claimed_count
+FROM (SELECT draw_id FROM draws UNION SELECT draw_id FROM tickets) ids
+LEFT JOIN draws d ON d.draw_id = ids.draw_id
+LEFT JOIN tickets t ON t.draw_id = ids.draw_id
+`;
+
+function toDrawSummary(row: Row): DrawSummary {
+  const executed = row.winning_numbers !== null;
+  return {
+    drawId: Number(row.draw_id),
+    executed,
+    winningNumbers: executed ? (JSON.parse(String(row.winning_numbers)) as number[]) : [],
+    jackpot: executed ? Number(row.jackpot) : null,
+    executedAt: executed ? Number(row.executed_at) : null,
+    executedBlock: executed ? Number(row.executed_block) : null,
+    ticketCount: Number(row.ticket_count),
+    claimedCount: Number(row.claimed_count),
+  };
+}
+
+function toTicketRecord(row: Row): TicketRecord {
+  return {
+    player: String(row.player),
+    ticketIndex: Number(row.ticket_index),
+    drawId: Number(row.draw_id),
+    purchaseBlock: row.purchase_block === null ? null : Number(row.purchase_block),
+    purchaseTx: row.purchase_tx === null ? null : String(row.purchase_tx),
+    claimed: Number(row.claimed) === 1,
+    claimBlock: row.claim_block === null ? null : Number(row.claim_block),
+    claimTx: row.claim_tx === null ? null : String(row.claim_tx),
+  };
+}
+
+/// SQLite-backed view of the LuckyBall event history, optionally persisted to a file
+export class IndexerStore {
+  private constructor(
+    private readonly db: Database,
+    private readonly file?: string,
+  ) {
+    this.db.run(SCHEMA);
+  }
+
+  static async open(file?: string): Promise<IndexerStore> {
+    const SQL = await initSqlJs();
+    const contents = file && fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+    return new IndexerStore(new SQL.Database(contents), file);
+  }
+
+  get lastBlock(): number | null {
+    const value = this.getMeta("lastBlock");
+    return value === null ? null : Number(value);
+  }
+
+  get contract(): string | null {
+    return this.getMeta("contract");
+  }
+
+  /// Drops everything indexed so far and starts over for the given contract
+  reset(contract: string) {
+    this.db.run("DELETE FROM tickets; DELETE FROM draws; DELETE FROM meta;");
+    this.setMeta("contract", contract.toLowerCase());
+    this.persist();
+  }
+
+  /// Stores a batch of events in log order and records the last block they cover
+  apply(events: LuckyBallEvent[], toBlock: number) {
+    this.db.run("BEGIN");
+    try {
+      for (const event of events) {
+        this.applyEvent(event);
+      }
+      this.setMeta("lastBlock", String(toBlock));
+      this.db.run("COMMIT");
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+    this.persist();
+  }
+
+  listDraws(): DrawSummary[] {
+    return this.select(`${DRAW_SUMMARY_SQL} GROUP BY ids.draw_id ORDER BY ids.draw_id DESC`).map(toDrawSummary);
+  }
+
+  getDraw(drawId: number): DrawSummary | null {
+    const [row] = this.select(`${DRAW_SUMMARY_SQL} WHERE ids.draw_id = ? GROUP BY ids.draw_id`, [drawId]);
+    return row ? toDrawSummary(row) : null;
+  }
+
+  getDrawTickets(drawId: number): TicketRecord[] {
+    return this.select("SELECT * FROM tickets WHERE draw_id = ? ORDER BY player, ticket_index", [drawId]).map(
+      toTicketRecord,
+    );
+  }
+
+  getPlayer(player: string): PlayerSummary {
+    const tickets = this.select("SELECT * FROM tickets WHERE player = ? ORDER BY ticket_index", [
+      player.toLowerCase(),
+    ]).map(toTicketRecord);
+    return {
+      player: player.toLowerCase(),
+      ticketCount: tickets.length,
+      claimedCount: tickets.filter((ticket) => ticket.claimed).length,
+      unclaimed: tickets.filter((ticket) => !ticket.claimed).map((ticket) => ticket.ticketIndex),
+      tickets,
+    };
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private applyEvent(event: LuckyBallEvent) {
+    switch (event.kind) {
+      case "TicketPurchased":
+        this.db.run(
+          `INSERT INTO tickets (player, ticket_index, draw_id, purchase_block, purchase_tx) VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT (player, ticket_index) DO UPDATE SET
+             draw_id = excluded.draw_id, purchase_block = excluded.purchase_block, purchase_tx = excluded.purchase_tx`,
+          [event.player, event.ticketIndex, event.drawId, event.blockNumber, event.transactionHash],
+        );
+        break;
+      case "TicketClaimProcessed":
+        this.db.run(
+          `INSERT INTO tickets (player, ticket_index, draw_id, claimed, claim_block, claim_tx) VALUES (?, ?, ?, 1, ?, ?)
+           ON CONFLICT (player, ticket_index) DO UPDATE SET
+             claimed = 1, claim_block = excluded.claim_block, claim_tx = excluded.claim_tx`,
+          [event.player, event.ticketIndex, event.drawId, event.blockNumber, event.transactionHash],
+        );
+        break;
+      case "DrawExecuted":
+        this.db.run(
+          `INSERT OR REPLACE INTO draws (draw_id, winning_numbers, jackpot, executed_block, executed_at, executed_tx)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            event.drawId,
+            JSON.stringify(event.winningNumbers),
+            event.jackpot,
+            event.blockNumber,
+            event.timestamp,
+            event.transactionHash,
+          ],
+        );
+        break;
+    }
+  }
+
+  private select(sql: string, params: SqlValue[] = []): Row[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Row[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private getMeta(key: string): string | null {
+    const [row] = this.select("SELECT value FROM meta WHERE key = ?", [key]);
+    return row ? String(row.value) : null;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.db.run("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)", [key, value]);
+  }
+
+  private persist() {
+    if (this.file) {
+      fs.writeFileSync(this.file, Buffer.from(this.db.export()));
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import type { Provider } from "ethers";
+
+import { decodeLog, INDEXED_TOPICS, type LuckyBallEvent } from "./events";
+import type { IndexerStore } from "./store";
+
+export type ChainSource = Pick<Provider, "getBlockNumber" | "getLogs" | "getBlock">;
+
+export type SyncOptions = {
+  contract: string;
+  startBlock: number;
+  batchSize?: number;
+};
+
+const DEFAULT_BATCH_SIZE = 2_000;
+
+/// Pulls every tracked event up to the chain head into the store, returning how many were indexed
+export async function syncOnce(source: ChainSource, store: IndexerStore, options: SyncOptions): Promise<number> {
+  const head = await source.getBlockNumber();
+
+  // A restarted hardhat node or a new deployment invalidates everything indexed so far
+  const lastBlock = store.lastBlock;
+  if (store.contract !== options.contract.toLowerCase() || (lastBlock !== null && lastBlock > head)) {
+    store.reset(options.contract);
+  }
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  let fromBlock = Math.max(options.startBlock, (store.lastBlock ?? options.startBlock - 1) + 1);
+  let indexed = 0;
+
+  while (fromBlock <= head) {
+    const toBlock = Math.min(fromBlock + batchSize - 1, head);
+    const logs = await source.getLogs({
+      address: options.contract,
+      topics: [INDEXED_TOPICS],
+      fromBlock,
+      toBlock,
+    });
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const timestamps = new Map<number, number>();
+    const events: LuckyBallEvent[] = [];
+    for (const log of logs) {
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await source.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+      const event = decodeLog(log, timestamps.get(log.blockNumber)!);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    store.apply(events, toBlock);
+    indexed += events.length;
+    fromBlock = toBlock + 1;
+  }
+
+  return indexed;
+}
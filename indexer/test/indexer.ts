@@ -0,0 +1,150 @@
+import type { AddressInfo } from "net";
+import { expect } from "chai";
+import { Log, Wallet, ZeroHash, type Filter } from "ethers";
+
+import { LUCKYBALL_EVENTS } from "../src/events";
+import { createApiServer } from "../src/server";
+import { IndexerStore, type DrawSummary, type TicketRecord } from "../src/store";
+import { syncOnce, type ChainSource } from "../src/sync";
+
+const CONTRACT = Wallet.createRandom().address;
+const ALICE = Wallet.createRandom().address;
+const BOB = Wallet.createRandom().address;
+
+type FakeLog = { blockNumber: number; event: string; args: unknown[] };
+
+// Serves encoded LuckyBall logs the way a JSON-RPC provider would
+function fakeChain(entries: FakeLog[], head: number): ChainSource & { head: number } {
+  const logs = entries.map(({ blockNumber, event, args }, index) => {
+    const { data, topics } = LUCKYBALL_EVENTS.encodeEventLog(event, args);
+    return new Log(
+      {
+        blockNumber,
+        blockHash: ZeroHash,
+        transactionHash: `0x${(index + 1).toString(16).padStart(64, "0")}`,
+        transactionIndex: 0,
+        index,
+        address: CONTRACT,
+        data,
+        topics,
+        removed: false,
+      },
+      undefined as never,
+    );
+  });
+
+  const chain = {
+    head,
+    getBlockNumber: async () => chain.head,
+    getLogs: async (filter: Filter) =>
+      logs.filter((log) => log.blockNumber >= Number(filter.fromBlock) && log.blockNumber <= Number(filter.toBlock)),
+    getBlock: async (blockNumber: number) => ({ timestamp: 1_000 + blockNumber }),
+  };
+  return chain as unknown as ChainSource & { head: number };
+}
+
+describe("LuckyBall indexer", function () {
+  let store: IndexerStore;
+
+  beforeEach(async function () {
+    store = await IndexerStore.open();
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  it("tracks draws, ticket counts and claim status across batches", async function () {
+    const chain = fakeChain(
+      [
+        { blockNumber: 3, event: "TicketPurchased", args: [ALICE, 1, 0] },
+        { blockNumber: 4, event: "TicketPurchased", args: [ALICE, 1, 1] },
+        { blockNumber: 4, event: "TicketPurchased", args: [BOB, 1, 0] },
+        { blockNumber: 6, event: "DrawExecuted", args: [1, [5, 2], 25] },
+        { blockNumber: 7, event: "TicketPurchased", args: [BOB, 2, 1] },
+        { blockNumber: 8, event: "TicketClaimProcessed", args: [ALICE, 1, 1] },
+      ],
+      8,
+    );
+
+    expect(await syncOnce(chain, store, { contract: CONTRACT, startBlock: 2, batchSize: 3 })).to.equal(6);
+    expect(store.lastBlock).to.equal(8);
+
+    const draws = store.listDraws();
+    expect(draws.map((draw) => draw.drawId)).to.deep.equal([2, 1]);
+    expect(draws[1]).to.deep.include({
+      executed: true,
+      winningNumbers: [5, 2],
+      jackpot: 25,
+      executedAt: 1_006,
+      ticketCount: 3,
+      claimedCount: 1,
+    });
+    expect(draws[0]).to.deep.include({
+      executed: false,
+      winningNumbers: [],
+      jackpot: null,
+      ticketCount: 1,
+      claimedCount: 0,
+    });
+
+    const alice = store.getPlayer(ALICE);
+    expect(alice.ticketCount).to.equal(2);
+    expect(alice.claimedCount).to.equal(1);
+    expect(alice.unclaimed).to.deep.equal([0]);
+
+    // Nothing new past the head
+    expect(await syncOnce(chain, store, { contract: CONTRACT, startBlock: 2 })).to.equal(0);
+  });
+
+  it("starts over when the chain is reset or the contract changes", async function () {
+    const chain = fakeChain([{ blockNumber: 5, event: "TicketPurchased", args: [ALICE, 1, 0] }], 5);
+    await syncOnce(chain, store, { contract: CONTRACT, startBlock: 0 });
+    expect(store.getPlayer(ALICE).ticketCount).to.equal(1);
+
+    chain.head = 2;
+    await syncOnce(chain, store, { contract: CONTRACT, startBlock: 0 });
+    expect(store.getPlayer(ALICE).ticketCount).to.equal(0);
+    expect(store.lastBlock).to.equal(2);
+
+    const other = Wallet.createRandom().address;
+    await syncOnce(chain, store, { contract: other, startBlock: 0 });
+    expect(store.contract).to.equal(other.toLowerCase());
+  });
+
+  it("serves draw history and player claim status over HTTP", async function () {
+    const chain = fakeChain(
+      [
+        { blockNumber: 1, event: "TicketPurchased", args: [ALICE, 1, 0] },
+        { blockNumber: 2, event: "DrawExecuted", args: [1, [7], 10] },
+        { blockNumber: 3, event: "TicketClaimProcessed", args: [ALICE, 1, 0] },
+      ],
+      3,
+    );
+    await syncOnce(chain, store, { contract: CONTRACT, startBlock: 0 });
+
+    const server = createApiServer(store).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const draws = await fetch(`${baseUrl}/draws`);
+      expect(draws.headers.get("access-control-allow-origin")).to.equal("*");
+      expect(await draws.json()).to.have.length(1);
+
+      const draw = (await (await fetch(`${baseUrl}/draws/1`)).json()) as DrawSummary & { tickets: TicketRecord[] };
+      expect(draw.winningNumbers).to.deep.equal([7]);
+      expect(draw.tickets).to.have.length(1);
+      expect(draw.tickets[0].claimed).to.equal(true);
+
+      const player = await (await fetch(`${baseUrl}/players/${ALICE}`)).json();
+      expect(player).to.deep.include({ ticketCount: 1, claimedCount: 1, unclaimed: [] });
+
+      expect((await fetch(`${baseUrl}/draws/9`)).status).to.equal(404);
+      expect((await fetch(`${baseUrl}/players/nobody`)).status).to.equal(400);
+      expect((await fetch(`${baseUrl}/status`, { method: "POST" })).status).to.equal(405);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,244 @@
+import { isError, type Signer, type TransactionReceipt } from "ethers";
+
+import { decodeDrawRequested, normalizeDraw, type DrawInfo, type LuckyBall } from "../sdk/src";
+
+export type KeeperOptions = {
+  /// Seconds a draw stays open before the keeper executes it; 0 leaves timing to the draw schedule
+  cadence: number;
+  /// Tickets sold after which the keeper executes the draw right away; 0 disables the threshold
+  ticketThreshold: number;
+  /// Milliseconds between checks of the active draw
+  pollInterval: number;
+  /// Replacement transactions sent after the first attempt stalls or fails
+  maxRetries: number;
+  /// Percentage added to both fee caps on every retry
+  gasBumpPercent: number;
+  /// Milliseconds to wait for a transaction to be mined before replacing it
+  confirmTimeout: number;
+};
+
+export const DEFAULT_KEEPER_OPTIONS: KeeperOptions = {
+  cadence: 0,
+  ticketThreshold: 0,
+  pollInterval: 15_000,
+  maxRetries: 3,
+  gasBumpPercent: 20,
+  confirmTimeout: 60_000,
+};
+
+export type KeeperMetrics = {
+  startedAt: number;
+  lastCheckAt: number | null;
+  lastExecutionAt: number | null;
+  activeDrawId: number | null;
+  lastExecutedDrawId: number | null;
+  checks: number;
+  drawsExecuted: number;
+  retries: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+};
+
+export type KeeperCheck =
+  | { action: "skipped"; drawId: number; reason: string }
+  | { action: "executed"; drawId: number; requestId: bigint; receipt: TransactionReceipt; attempts: number };
+
+type Fees = { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+function errorMessage(error: unknown): string {
+  if (isError(error, "CALL_EXCEPTION")) {
+    return error.reason ?? error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/// Executes the active LuckyBall draw once it is due, replacing stalled transactions with higher fees
+export class DrawKeeper {
+  readonly options: KeeperOptions;
+  readonly metrics: KeeperMetrics;
+  private readonly signer: Signer;
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  constructor(
+    private readonly contract: LuckyBall,
+    options: Partial<KeeperOptions> = {},
+  ) {
+    const runner = contract.runner as Signer | null;
+    if (!runner?.provider || typeof runner.getAddress !== "function") {
+      throw new Error("LuckyBall contract must be connected to a signer");
+    }
+    this.signer = runner;
+    this.options = { ...DEFAULT_KEEPER_OPTIONS, ...options };
+    this.metrics = {
+      startedAt: Date.now(),
+      lastCheckAt: null,
+      lastExecutionAt: null,
+      activeDrawId: null,
+      lastExecutedDrawId: null,
+      checks: 0,
+      drawsExecuted: 0,
+      retries: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+    };
+  }
+
+  /// Healthy while checks keep succeeding and none is overdue
+  get healthy(): boolean {
+    const { lastCheckAt, consecutiveFailures } = this.metrics;
+    const overdue = lastCheckAt !== null && Date.now() - lastCheckAt > this.options.pollInterval * 5;
+    return consecutiveFailures < 3 && !overdue;
+  }
+
+  /// Why the draw is not due yet, or null when the keeper should execute it at `now`
+  dueReason(draw: DrawInfo, now: bigint, paused = false): string | null {
+    // Execution reverts while paused, so the keeper waits rather than counting failures
+    if (paused) {
+      return "paused";
+    }
+    if (draw.requested) {
+      return "draw already requested";
+    }
+    if (now < draw.salesCloseAt) {
+      return "ticket sales still open";
+    }
+    if (draw.ticketCount === 0n || draw.ticketCount < draw.minTickets) {
+      return "not enough tickets";
+    }
+
+    const { cadence, ticketThreshold } = this.options;
+    const scheduled = draw.salesCloseAt !== 0n;
+    // An open draw stores the time it opened in `executedAt`
+    const cadenceDue = cadence > 0 && now >= draw.executedAt + BigInt(cadence);
+    const thresholdDue = ticketThreshold > 0 && draw.ticketCount >= BigInt(ticketThreshold);
+    return scheduled || cadenceDue || thresholdDue ? null : "waiting for cadence or ticket threshold";
+  }
+
+  /// Checks the active draw once and executes it when due
+  async check(): Promise<KeeperCheck> {
+    const provider = this.signer.provider!;
+    try {
+      const drawId = await this.contract.currentDrawId();
+      const draw = normalizeDraw(await this.contract.getDraw(drawId));
+      const latest = await provider.getBlock("latest");
+      this.metrics.activeDrawId = Number(drawId);
+
+      const reason = this.dueReason(draw, BigInt(latest!.timestamp), await this.contract.paused());
+      const result: KeeperCheck = reason
+        ? { action: "skipped", drawId: Number(drawId), reason }
+        : await this.execute(drawId);
+
+      this.metrics.checks += 1;
+      this.metrics.lastCheckAt = Date.now();
+      this.metrics.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      this.metrics.failures += 1;
+      this.metrics.consecutiveFailures += 1;
+      this.metrics.lastError = errorMessage(error);
+      throw error;
+    }
+  }
+
+  /// Polls every `pollInterval` until stopped; failed checks are logged and retried on the next poll
+  start(log: (message: string) => void = console.log) {
+    this.running = true;
+    const poll = async () => {
+      try {
+        const result = await this.check();
+        if (result.action === "executed") {
+          log(`Executed draw #${result.drawId} (request #${result.requestId}) after ${result.attempts} attempt(s)`);
+        }
+      } catch (error) {
+        log(`Keeper check failed: ${errorMessage(error)}`);
+      }
+      if (this.running) {
+        this.timer = setTimeout(poll, this.options.pollInterval);
+      }
+    };
+    void poll();
+  }
+
+  stop() {
+    this.running = false;
+    clearTimeout(this.timer);
+  }
+
+  private async execute(drawId: bigint): Promise<KeeperCheck> {
+    // Every attempt reuses the nonce so a bumped transaction replaces the stalled one instead of queueing behind it
+    const nonce = await this.signer.getNonce("pending");
+    let fees = await this.initialFees();
+    const sent: string[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      // Simulating each attempt keeps reverts out of the retry loop: the draw changed under us or the keeper is
+      // not an operator, and no fee bump fixes that. A revert after an attempt was mined is that attempt's doing
+      try {
+        await this.contract.executeDraw.staticCall();
+      } catch (error) {
+        const receipt = await this.mined(sent);
+        if (receipt) {
+          return this.executed(drawId, receipt, attempt - 1);
+        }
+        throw error;
+      }
+      try {
+        const tx = await this.contract.executeDraw({ nonce, ...fees });
+        sent.push(tx.hash);
+        const receipt = await tx.wait(1, this.options.confirmTimeout);
+        if (!receipt) {
+          throw new Error("Transaction receipt not available");
+        }
+        return this.executed(drawId, receipt, attempt);
+      } catch (error) {
+        const receipt = await this.mined(sent);
+        if (receipt) {
+          return this.executed(drawId, receipt, attempt);
+        }
+        if (attempt > this.options.maxRetries) {
+          throw error;
+        }
+        this.metrics.retries += 1;
+        fees = this.bump(fees);
+      }
+    }
+  }
+
+  /// The first successfully mined of the attempts sent so far; an earlier attempt may have been mined while its
+  /// replacement was on the way
+  private async mined(sent: string[]): Promise<TransactionReceipt | null> {
+    for (const hash of sent) {
+      const receipt = await this.signer.provider!.getTransactionReceipt(hash);
+      if (receipt?.status === 1) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  private executed(drawId: bigint, receipt: TransactionReceipt, attempts: number): KeeperCheck {
+    const [request] = decodeDrawRequested(receipt);
+    this.metrics.drawsExecuted += 1;
+    this.metrics.lastExecutionAt = Date.now();
+    this.metrics.lastExecutedDrawId = Number(drawId);
+    return { action: "executed", drawId: Number(drawId), requestId: request.requestId, receipt, attempts };
+  }
+
+  private async initialFees(): Promise<Fees> {
+    const feeData = await this.signer.provider!.getFeeData();
+    const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? 1_000_000_000n;
+    const maxFeePerGas = feeData.maxFeePerGas ?? (feeData.gasPrice ?? 0n) + maxPriorityFeePerGas;
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  private bump(fees: Fees): Fees {
+    const factor = BigInt(100 + this.options.gasBumpPercent);
+    return {
+      maxFeePerGas: (fees.maxFeePerGas * factor) / 100n,
+      maxPriorityFeePerGas: (fees.maxPriorityFeePerGas * factor) / 100n,
+    };
+  }
+}
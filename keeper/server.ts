@@ -0,0 +1,46 @@
+import http from "http";
+
+import type { DrawKeeper, KeeperMetrics } from "./keeper";
+
+const COUNTERS: (keyof KeeperMetrics)[] = ["checks", "drawsExecuted", "retries", "failures"];
+const GAUGES: (keyof KeeperMetrics)[] = ["consecutiveFailures", "activeDrawId", "lastExecutedDrawId"];
+
+function snakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+/// Renders the keeper metrics in the Prometheus text format
+export function formatMetrics(keeper: DrawKeeper): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: "counter" | "gauge", value: number) => {
+    lines.push(`# TYPE luckyball_keeper_${name} ${type}`, `luckyball_keeper_${name} ${value}`);
+  };
+
+  for (const key of COUNTERS) {
+    metric(`${snakeCase(key)}_total`, "counter", Number(keeper.metrics[key]));
+  }
+  for (const key of GAUGES) {
+    metric(snakeCase(key), "gauge", Number(keeper.metrics[key] ?? 0));
+  }
+  metric("healthy", "gauge", keeper.healthy ? 1 : 0);
+  metric("last_check_timestamp_seconds", "gauge", Math.floor((keeper.metrics.lastCheckAt ?? 0) / 1000));
+  return `${lines.join("\n")}\n`;
+}
+
+/// Serves `/health` as JSON (503 while unhealthy) and `/metrics` for Prometheus scrapes
+export function createHealthServer(keeper: DrawKeeper): http.Server {
+  return http.createServer((request, response) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+
+    if (request.method === "GET" && pathname === "/health") {
+      response.writeHead(keeper.healthy ? 200 : 503, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ healthy: keeper.healthy, ...keeper.metrics }));
+    } else if (request.method === "GET" && pathname === "/metrics") {
+      response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+      response.end(formatMetrics(keeper));
+    } else {
+      response.writeHead(404, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ error: "Not found" }));
+    }
+  });
+}
@@ -0,0 +1,113 @@
+import { normalizeDraw, type DrawInfo, type LuckyBall } from "../sdk/src";
+
+export type ClaimRelayerOptions = {
+  /// Most tickets claimed in a single `claimFor` transaction
+  batchSize: number;
+};
+
+export const DEFAULT_CLAIM_RELAYER_OPTIONS: ClaimRelayerOptions = {
+  batchSize: 20,
+};
+
+export type RelayedClaim = {
+  player: string;
+  ticketIndices: bigint[];
+  transactionHash: string;
+};
+
+/// Claims every open ticket of players who enabled auto-claims, paying the gas on their behalf
+export class ClaimRelayer {
+  readonly options: ClaimRelayerOptions;
+  private queue: Promise<unknown> = Promise.resolve();
+  private listener: ((drawId: bigint) => void) | undefined;
+
+  constructor(
+    private readonly contract: LuckyBall,
+    options: Partial<ClaimRelayerOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_CLAIM_RELAYER_OPTIONS, ...options };
+  }
+
+  /// Unclaimed tickets of opted-in players whose draw executed and still accepts claims, by player
+  async openTickets(): Promise<Map<string, bigint[]>> {
+    const latest = await this.contract.runner!.provider!.getBlock("latest");
+    const now = BigInt(latest!.timestamp);
+    const draws = new Map<bigint, DrawInfo>();
+    const open = new Map<string, bigint[]>();
+
+    for (const player of await this.contract.getPlayers()) {
+      if (!(await this.contract.autoClaim(player))) {
+        continue;
+      }
+
+      const indices: bigint[] = [];
+      const tickets = await this.contract.getTickets(player);
+      for (let index = 0; index < tickets.length; index++) {
+        const { drawId, claimed, expired, refunded } = tickets[index];
+        if (claimed || expired || refunded) {
+          continue;
+        }
+        if (!draws.has(drawId)) {
+          draws.set(drawId, normalizeDraw(await this.contract.getDraw(drawId)));
+        }
+        const draw = draws.get(drawId)!;
+        if (draw.executed && (draw.claimWindow === 0n || now <= draw.executedAt + draw.claimWindow)) {
+          indices.push(BigInt(index));
+        }
+      }
+      if (indices.length > 0) {
+        open.set(player, indices);
+      }
+    }
+    return open;
+  }
+
+  /// Claims all open tickets of opted-in players in batches of `batchSize`
+  async claimOpenTickets(): Promise<RelayedClaim[]> {
+    const claims: RelayedClaim[] = [];
+    for (const [player, indices] of await this.openTickets()) {
+      for (let start = 0; start < indices.length; start += this.options.batchSize) {
+        const ticketIndices = indices.slice(start, start + this.options.batchSize);
+        const tx = await this.contract.claimFor(player, ticketIndices);
+        await tx.wait();
+        claims.push({ player, ticketIndices, transactionHash: tx.hash });
+      }
+    }
+    return claims;
+  }
+
+  /// Sweeps once, then again after every `DrawExecuted`; sweeps never overlap
+  async start(log: (message: string) => void = console.log) {
+    const sweep = () => {
+      this.queue = this.queue
+        .then(() => this.claimOpenTickets())
+        .then((claims) => {
+          for (const claim of claims) {
+            log(`Claimed ticket(s) ${claim.ticketIndices.join(", ")} of ${claim.player} tx: ${claim.transactionHash}`);
+          }
+        })
+        .catch((error) => log(`Claim sweep failed: ${error instanceof Error ? error.message : String(error)}`));
+      return this.queue;
+    };
+
+    this.listener = (drawId: bigint) => {
+      log(`Draw #${drawId} executed`);
+      void sweep();
+    };
+    await this.contract.on(this.contract.filters.DrawExecuted, this.listener);
+    await sweep();
+  }
+
+  async stop() {
+    if (this.listener) {
+      await this.contract.off(this.contract.filters.DrawExecuted, this.listener);
+      this.listener = undefined;
+    }
+    await this.queue;
+  }
+
+  /// Resolves once every sweep started so far has finished
+  idle(): Promise<unknown> {
+    return this.queue;
+  }
+}
@@ -0,0 +1,87 @@
+import { ZeroAddress, concat } from "ethers";
+
+import {
+  getTicketPayment,
+  relayPurchase,
+  type ForwardRequest,
+  type LuckyBall,
+  type LuckyBallForwarder,
+} from "../sdk/src";
+
+export type PurchaseRelayerOptions = {
+  /// Most tickets sponsored in a single request
+  maxTicketsPerRequest: number;
+};
+
+export const DEFAULT_PURCHASE_RELAYER_OPTIONS: PurchaseRelayerOptions = {
+  maxTicketsPerRequest: 5,
+};
+
+export type RelayedPurchase = {
+  player: string;
+  ticketIndices: bigint[];
+  transactionHash: string;
+};
+
+/// Submits signed ticket purchases through the trusted forwarder, paying the gas for players
+export class PurchaseRelayer {
+  readonly options: PurchaseRelayerOptions;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly contract: LuckyBall,
+    private readonly forwarder: LuckyBallForwarder,
+    options: Partial<PurchaseRelayerOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_PURCHASE_RELAYER_OPTIONS, ...options };
+  }
+
+  /// Rejects anything but a LuckyBall ticket purchase in a token-priced draw, then simulates it as the forwarder would
+  /// call it
+  async validate(request: ForwardRequest): Promise<void> {
+    if (request.to.toLowerCase() !== (await this.contract.getAddress()).toLowerCase()) {
+      throw new Error("Request does not target LuckyBall");
+    }
+    const call = this.contract.interface.parseTransaction({ data: request.data });
+    if (call?.name !== "buyTicket" && call?.name !== "buyTickets") {
+      throw new Error("Only ticket purchases are sponsored");
+    }
+
+    const draw = await this.contract.getDraw(await this.contract.currentDrawId());
+    const tickets = call.name === "buyTicket" ? 1n : BigInt(call.args[0].length) / draw.config.picks;
+    if (tickets === 0n || tickets > BigInt(this.options.maxTicketsPerRequest)) {
+      throw new Error(`Sponsored purchases are limited to ${this.options.maxTicketsPerRequest} ticket(s)`);
+    }
+    // Only the gas is sponsored: an ETH price fronted by the relayer would be refunded to the player if the draw is
+    // cancelled, so only token-priced draws, which charge the player's allowance, are relayed
+    if (request.value !== 0n) {
+      throw new Error("Sponsored purchases only cover gas");
+    }
+    const { token } = await getTicketPayment(this.contract);
+    if (token === ZeroAddress) {
+      throw new Error("Only token-priced draws are sponsored");
+    }
+    if (!(await this.forwarder.verify(request))) {
+      throw new Error("Invalid or expired request signature");
+    }
+
+    // The forwarder only reports that the call failed, so the call it would make is simulated for the revert reason
+    await this.contract.runner!.provider!.call({
+      from: await this.forwarder.getAddress(),
+      to: request.to,
+      data: concat([request.data, request.from]),
+      value: request.value,
+    });
+  }
+
+  /// Validates and submits one request; submissions are serialized so the relayer's nonces never collide
+  relay(request: ForwardRequest): Promise<RelayedPurchase> {
+    const relayed = this.queue.then(async () => {
+      await this.validate(request);
+      const { receipt, ticketIndices } = await relayPurchase(this.forwarder, request);
+      return { player: request.from, ticketIndices, transactionHash: receipt.hash };
+    });
+    this.queue = relayed.catch(() => undefined);
+    return relayed;
+  }
+}
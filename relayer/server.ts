@@ -0,0 +1,77 @@
+import http from "http";
+
+import type { ForwardRequest } from "../sdk/src";
+import type { PurchaseRelayer } from "./purchases";
+
+// Requests are a few kilobytes of handles and proof; anything far larger is not a ticket purchase
+const MAX_BODY_BYTES = 64 * 1024;
+
+/// Reads a forward request posted as JSON, with its numeric fields as decimal strings
+export function parseForwardRequest(body: unknown): ForwardRequest {
+  const fields = body as Record<string, unknown> | null;
+  const text = (name: string) => {
+    if (typeof fields?.[name] !== "string") {
+      throw new Error(`Missing request field "${name}"`);
+    }
+    return fields[name];
+  };
+  return {
+    from: text("from"),
+    to: text("to"),
+    value: BigInt(text("value")),
+    gas: BigInt(text("gas")),
+    deadline: BigInt(text("deadline")),
+    data: text("data"),
+    signature: text("signature"),
+  };
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+/// Serves `POST /purchases` for the UI's sponsored purchases; browsers on any origin may call it
+export function createRelayServer(relayer: PurchaseRelayer, log: (message: string) => void = console.log) {
+  return http.createServer(async (request, response) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    const send = (status: number, body?: unknown) => {
+      response.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "Content-Type",
+      });
+      response.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    if (request.method === "OPTIONS") {
+      send(204);
+    } else if (request.method === "POST" && pathname === "/purchases") {
+      try {
+        const forwardRequest = parseForwardRequest(JSON.parse(await readBody(request)));
+        const purchase = await relayer.relay(forwardRequest);
+        log(
+          `Sponsored ticket(s) ${purchase.ticketIndices.join(", ")} of ${purchase.player} tx: ${purchase.transactionHash}`,
+        );
+        send(200, { ...purchase, ticketIndices: purchase.ticketIndices.map(String) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`Rejected sponsored purchase: ${message}`);
+        send(400, { error: message });
+      }
+    } else {
+      send(404, { error: "Not found" });
+    }
+  });
+}
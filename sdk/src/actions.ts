@@ -0,0 +1,361 @@
+import { Contract, Signature, ZeroAddress, ZeroHash, type ContractTransactionReceipt, type Signer } from "ethers";
+
+import {
+  decodeDrawRequested,
+  decodeTicketClaimProcessed,
+  decodeTicketPurchased,
+  type TicketClaimProcessed,
+} from "./events";
+import { userDecrypt, type FhevmBackend } from "./fhevm";
+import type { LuckyBall, LuckyBallForwarder } from "./generated";
+import { numbersOfBitmap } from "./normalize";
+
+export type PurchaseResult = {
+  receipt: ContractTransactionReceipt;
+  ticketIndices: bigint[];
+};
+
+export type DrawRequest = {
+  receipt: ContractTransactionReceipt;
+  drawId: bigint;
+  requestId: bigint;
+};
+
+export type ClaimResult = {
+  receipt: ContractTransactionReceipt;
+  claims: TicketClaimProcessed[];
+};
+
+/// A player's EIP-712 consent for anyone to claim exactly `ticketIndices` through `claimForBySig`
+export type ClaimAuthorization = {
+  player: string;
+  ticketIndices: bigint[];
+  deadline: bigint;
+  signature: string;
+};
+
+/// A player's signed ERC-2771 request; any relayer can submit it to the trusted forwarder and pay its gas
+export type ForwardRequest = {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  deadline: bigint;
+  data: string;
+  signature: string;
+};
+
+/// What a ticket of a draw costs; `token` is the zero address for draws paid in ETH
+export type TicketPayment = {
+  token: string;
+  price: bigint;
+};
+
+/// Gas a relayed purchase may spend per ticket, enough for a full six-number ticket
+export const SPONSORED_GAS_PER_TICKET = 2_000_000n;
+
+const CLAIM_TYPES = {
+  Claim: [
+    { name: "player", type: "address" },
+    { name: "ticketIndices", type: "uint256[]" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// Payment tokens are plain ERC-20s; permits additionally need EIP-2612 with an ERC-5267 domain
+const PAYMENT_TOKEN_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function nonces(address owner) view returns (uint256)",
+  "function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])",
+];
+
+function signerOf(contract: LuckyBall): Signer {
+  const runner = contract.runner as Signer | null;
+  if (!runner || typeof runner.getAddress !== "function") {
+    throw new Error("LuckyBall contract must be connected to a signer");
+  }
+  return runner;
+}
+
+async function confirm(tx: Promise<{ wait(): Promise<ContractTransactionReceipt | null> }>) {
+  const receipt = await (await tx).wait();
+  if (!receipt) {
+    throw new Error("Transaction receipt not available");
+  }
+  return receipt;
+}
+
+/// Reads the payment token and ticket price of a draw, the active one by default
+export async function getTicketPayment(contract: LuckyBall, drawId?: bigint): Promise<TicketPayment> {
+  const draw = await contract.getDraw(drawId ?? (await contract.currentDrawId()));
+  // Draws priced before payment tokens existed store no price and charge TICKET_PRICE
+  const price = draw.ticketPrice === 0n ? await contract.TICKET_PRICE() : draw.ticketPrice;
+  return { token: draw.paymentToken, price };
+}
+
+/// Encrypts one group of numbers per ticket as a single input bound to the connected player; `value` is the ETH to
+/// send along, zero for token-priced draws which charge `amount` of `token` instead
+async function encryptTickets(contract: LuckyBall, fhevm: FhevmBackend, tickets: number[][]) {
+  const player = await signerOf(contract).getAddress();
+  const input = fhevm.createEncryptedInput(await contract.getAddress(), player);
+  for (const number of tickets.flat()) {
+    input.add8(number);
+  }
+  const { handles, inputProof } = await input.encrypt();
+  const { token, price } = await getTicketPayment(contract);
+  const amount = price * BigInt(tickets.length);
+  return { player, handles, inputProof, token, amount, value: token === ZeroAddress ? amount : 0n };
+}
+
+/// Pays the ticket price for each ticket, in ETH or from the allowance given with `approveTicketPayment`
+async function purchase(contract: LuckyBall, fhevm: FhevmBackend, tickets: number[][]): Promise<PurchaseResult> {
+  const { handles, inputProof, value } = await encryptTickets(contract, fhevm, tickets);
+  const receipt = await confirm(
+    tickets.length === 1
+      ? contract.buyTicket(handles, inputProof, { value })
+      : contract.buyTickets(handles, inputProof, { value }),
+  );
+  return { receipt, ticketIndices: decodeTicketPurchased(receipt).map((event) => event.ticketIndex) };
+}
+
+export function buyTicket(contract: LuckyBall, fhevm: FhevmBackend, numbers: number[]): Promise<PurchaseResult> {
+  return purchase(contract, fhevm, [numbers]);
+}
+
+export function buyTickets(contract: LuckyBall, fhevm: FhevmBackend, tickets: number[][]): Promise<PurchaseResult> {
+  if (tickets.length === 0) {
+    throw new Error("No tickets to buy");
+  }
+  return purchase(contract, fhevm, tickets);
+}
+
+/// Lets the treasury take the price of `tickets` tickets of the active draw from the connected player; returns
+/// `null` when the draw is paid in ETH or the allowance already covers them
+export async function approveTicketPayment(
+  contract: LuckyBall,
+  tickets = 1,
+): Promise<ContractTransactionReceipt | null> {
+  const { token, price } = await getTicketPayment(contract);
+  if (token === ZeroAddress) {
+    return null;
+  }
+  const signer = signerOf(contract);
+  const paymentToken = new Contract(token, PAYMENT_TOKEN_ABI, signer);
+  const treasury = await contract.treasury();
+  const amount = price * BigInt(tickets);
+  if ((await paymentToken.allowance(await signer.getAddress(), treasury)) >= amount) {
+    return null;
+  }
+  return confirm(paymentToken.approve(treasury, amount));
+}
+
+/// Buys tickets of a token-priced draw in one transaction, signing an EIP-2612 permit valid until `deadline`
+/// (unix seconds) for the treasury instead of approving it first
+export async function buyTicketsWithPermit(
+  contract: LuckyBall,
+  fhevm: FhevmBackend,
+  tickets: number[][],
+  deadline: bigint,
+): Promise<PurchaseResult> {
+  if (tickets.length === 0) {
+    throw new Error("No tickets to buy");
+  }
+  const { player, handles, inputProof, token, amount } = await encryptTickets(contract, fhevm, tickets);
+  if (token === ZeroAddress) {
+    throw new Error("Draw is paid in ETH");
+  }
+  const signer = signerOf(contract);
+  const paymentToken = new Contract(token, PAYMENT_TOKEN_ABI, signer);
+  const [, name, version, chainId, verifyingContract] = await paymentToken.eip712Domain();
+  const signature = await signer.signTypedData({ name, version, chainId, verifyingContract }, PERMIT_TYPES, {
+    owner: player,
+    spender: await contract.treasury(),
+    value: amount,
+    nonce: await paymentToken.nonces(player),
+    deadline,
+  });
+  const { v, r, s } = Signature.from(signature);
+  const receipt = await confirm(contract.buyTicketsWithPermit(handles, inputProof, deadline, v, r, s));
+  return { receipt, ticketIndices: decodeTicketPurchased(receipt).map((event) => event.ticketIndex) };
+}
+
+/// Signs a purchase of `tickets` for the connected player that a relayer submits through `forwarder` before
+/// `deadline` (unix seconds), paying the gas; only token-priced draws can be sponsored, and they still charge the
+/// player's allowance. The encrypted input stays bound to the player, so a relayer cannot reuse it under another
+/// address
+export async function signSponsoredPurchase(
+  contract: LuckyBall,
+  forwarder: LuckyBallForwarder,
+  fhevm: FhevmBackend,
+  tickets: number[][],
+  deadline: bigint,
+): Promise<ForwardRequest> {
+  if (tickets.length === 0) {
+    throw new Error("No tickets to buy");
+  }
+  const { handles, inputProof, token } = await encryptTickets(contract, fhevm, tickets);
+  if (token === ZeroAddress) {
+    throw new Error("Only token-priced draws can be sponsored");
+  }
+  const { data } = await (tickets.length === 1 ? contract.buyTicket : contract.buyTickets).populateTransaction(
+    handles,
+    inputProof,
+  );
+  return signForwardRequest(forwarder, signerOf(contract), {
+    to: await contract.getAddress(),
+    value: 0n,
+    gas: SPONSORED_GAS_PER_TICKET * BigInt(tickets.length),
+    deadline,
+    data,
+  });
+}
+
+/// Signs a call for the trusted forwarder to make on behalf of `signer`, with the signer's next forwarder nonce
+export async function signForwardRequest(
+  forwarder: LuckyBallForwarder,
+  signer: Signer,
+  call: Omit<ForwardRequest, "from" | "signature">,
+): Promise<ForwardRequest> {
+  const from = await signer.getAddress();
+  const { name, version, chainId, verifyingContract } = await forwarder.eip712Domain();
+  const signature = await signer.signTypedData({ name, version, chainId, verifyingContract }, FORWARD_REQUEST_TYPES, {
+    ...call,
+    from,
+    nonce: await forwarder.nonces(from),
+  });
+  return { ...call, from, signature };
+}
+
+/// Submits a signed purchase, with the connected account of `forwarder` paying the gas
+export async function relayPurchase(forwarder: LuckyBallForwarder, request: ForwardRequest): Promise<PurchaseResult> {
+  const receipt = await confirm(forwarder.execute(request, { value: request.value }));
+  return { receipt, ticketIndices: decodeTicketPurchased(receipt).map((event) => event.ticketIndex) };
+}
+
+/// Closes the active draw; its winning numbers follow once the randomness provider answers `requestId`
+export async function executeDraw(contract: LuckyBall): Promise<DrawRequest> {
+  const receipt = await confirm(contract.executeDraw());
+  const [request] = decodeDrawRequested(receipt);
+  return { receipt, drawId: request.drawId, requestId: request.requestId };
+}
+
+export async function claimTicket(contract: LuckyBall, index: number | bigint): Promise<ClaimResult> {
+  const receipt = await confirm(contract.claimTicket(index));
+  return { receipt, claims: decodeTicketClaimProcessed(receipt) };
+}
+
+export async function claimTickets(contract: LuckyBall, indices: (number | bigint)[]): Promise<ClaimResult> {
+  const receipt = await confirm(contract.claimTickets(indices));
+  return { receipt, claims: decodeTicketClaimProcessed(receipt) };
+}
+
+/// Claims tickets of a player who enabled `setAutoClaim`; the caller pays the gas, the player gets the points
+export async function claimFor(
+  contract: LuckyBall,
+  player: string,
+  indices: (number | bigint)[],
+): Promise<ClaimResult> {
+  const receipt = await confirm(contract.claimFor(player, indices));
+  return { receipt, claims: decodeTicketClaimProcessed(receipt) };
+}
+
+/// Signs a claim authorization for tickets of the connected player, valid until `deadline` (unix seconds)
+export async function signClaim(
+  contract: LuckyBall,
+  indices: (number | bigint)[],
+  deadline: bigint,
+): Promise<ClaimAuthorization> {
+  const signer = signerOf(contract);
+  const player = await signer.getAddress();
+  const { name, version, chainId, verifyingContract } = await contract.eip712Domain();
+  const ticketIndices = indices.map((index) => BigInt(index));
+  const signature = await signer.signTypedData({ name, version, chainId, verifyingContract }, CLAIM_TYPES, {
+    player,
+    ticketIndices,
+    nonce: await contract.claimNonces(player),
+    deadline,
+  });
+  return { player, ticketIndices, deadline, signature };
+}
+
+export async function claimForBySig(contract: LuckyBall, authorization: ClaimAuthorization): Promise<ClaimResult> {
+  const { player, ticketIndices, deadline, signature } = authorization;
+  const receipt = await confirm(contract.claimForBySig(player, ticketIndices, deadline, signature));
+  return { receipt, claims: decodeTicketClaimProcessed(receipt) };
+}
+
+/// Reveals the winner tally of a settled draw if needed and publishes its public decryption on-chain
+export async function publishWinnerTally(
+  contract: LuckyBall,
+  fhevm: FhevmBackend,
+  drawId: number | bigint,
+): Promise<number> {
+  let draw = await contract.getDraw(drawId);
+  if (draw.tallyPublished) {
+    return Number(draw.winningTickets);
+  }
+  await confirm(contract.revealWinnerTally(drawId));
+  draw = await contract.getDraw(drawId);
+
+  const decrypted = await fhevm.publicDecrypt([draw.winnerTally]);
+  await confirm(contract.publishWinnerTally(drawId, decrypted.abiEncodedClearValues, decrypted.decryptionProof));
+  return Number(decrypted.clearValues[draw.winnerTally]);
+}
+
+/// Decrypts the points balance of the connected player, 0 before their first claim
+export async function decryptScore(contract: LuckyBall, fhevm: FhevmBackend): Promise<bigint> {
+  const signer = signerOf(contract);
+  const handle = await contract.getScore(await signer.getAddress());
+  if (handle === ZeroHash) {
+    return 0n;
+  }
+  // Only the points token holds access to the balance, so the decryption request names it rather than the lottery
+  const [score] = await userDecrypt(fhevm, signer, await contract.points(), [handle]);
+  return BigInt(score);
+}
+
+/// Decrypts the numbers the connected player picked on one of their tickets; the ticket of a bitmask draw holds
+/// every number they picked in the draw, in ascending order
+export async function decryptTicket(
+  contract: LuckyBall,
+  fhevm: FhevmBackend,
+  index: number | bigint,
+): Promise<number[]> {
+  const signer = signerOf(contract);
+  const player = await signer.getAddress();
+  const [ticket] = await contract.getTicketsPage(player, index, 1);
+  if (!ticket) {
+    throw new Error(`Ticket #${index} not found`);
+  }
+  if (ticket.numbers.length === 0) {
+    const { bitmap } = await contract.getPlayerDraw(player, ticket.drawId);
+    const [value] = await userDecrypt(fhevm, signer, await contract.getAddress(), [bitmap]);
+    return numbersOfBitmap(BigInt(value));
+  }
+  const values = await userDecrypt(fhevm, signer, await contract.getAddress(), [...ticket.numbers]);
+  return values.map((value) => Number(value));
+}
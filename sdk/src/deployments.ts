@@ -0,0 +1,20 @@
+import { Interface, id, type InterfaceAbi } from "ethers";
+
+/// A LuckyBall deployment as recorded by `deploy/deploy.ts`
+export type DeploymentEntry = {
+  address: `0x${string}`;
+  abiHash: `0x${string}`;
+  deployBlock: number;
+};
+
+/// Deployments keyed by chain id
+export type DeploymentManifest = Record<string, DeploymentEntry>;
+
+/// Hash of the sorted human-readable signatures, so it ignores artifact formatting and member order
+export function abiHash(abi: InterfaceAbi): `0x${string}` {
+  return id(Interface.from(abi).format().sort().join("\n")) as `0x${string}`;
+}
+
+export function getDeployment(manifest: DeploymentManifest, chainId: number | bigint): DeploymentEntry | undefined {
+  return manifest[chainId.toString()];
+}
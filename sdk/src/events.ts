@@ -0,0 +1,59 @@
+import { Result, type Log } from "ethers";
+
+import { LuckyBall__factory } from "./generated";
+import type {
+  DrawExecutedEvent,
+  DrawRequestedEvent,
+  TicketClaimProcessedEvent,
+  TicketPurchasedEvent,
+  TicketRefundedEvent,
+} from "./generated/LuckyBall";
+
+export type TicketPurchased = TicketPurchasedEvent.OutputObject;
+export type DrawRequested = DrawRequestedEvent.OutputObject;
+export type DrawExecuted = DrawExecutedEvent.OutputObject;
+export type TicketClaimProcessed = TicketClaimProcessedEvent.OutputObject;
+export type TicketRefunded = TicketRefundedEvent.OutputObject;
+
+/// Anything carrying logs: a transaction receipt or a `getLogs` result
+export type LogSource = { logs: readonly Log[] } | readonly Log[] | null | undefined;
+
+const luckyBallInterface = LuckyBall__factory.createInterface();
+
+type LuckyBallEventName = Parameters<typeof luckyBallInterface.getEvent>[0];
+
+// Logs of other contracts in the same receipt (randomness provider, points token) are skipped by topic
+function decodeEvents<T>(source: LogSource, eventName: LuckyBallEventName): T[] {
+  const fragment = luckyBallInterface.getEvent(eventName)!;
+  const logs = !source ? [] : "logs" in source ? source.logs : source;
+  return logs
+    .filter((log) => log.topics[0] === fragment.topicHash)
+    .map((log) => {
+      const args = luckyBallInterface.decodeEventLog(fragment, log.data, log.topics);
+      const entries = fragment.inputs.map((input, index) => {
+        const value = args[index];
+        return [input.name, value instanceof Result ? value.toArray() : value];
+      });
+      return Object.fromEntries(entries) as T;
+    });
+}
+
+export function decodeTicketPurchased(source: LogSource): TicketPurchased[] {
+  return decodeEvents(source, "TicketPurchased");
+}
+
+export function decodeDrawRequested(source: LogSource): DrawRequested[] {
+  return decodeEvents(source, "DrawRequested");
+}
+
+export function decodeDrawExecuted(source: LogSource): DrawExecuted[] {
+  return decodeEvents(source, "DrawExecuted");
+}
+
+export function decodeTicketClaimProcessed(source: LogSource): TicketClaimProcessed[] {
+  return decodeEvents(source, "TicketClaimProcessed");
+}
+
+export function decodeTicketRefunded(source: LogSource): TicketRefunded[] {
+  return decodeEvents(source, "TicketRefunded");
+}
@@ -0,0 +1,94 @@
+import type { Signer } from "ethers";
+
+export type ClearValue = bigint | boolean | string;
+
+export type EncryptedInput = {
+  handles: (string | Uint8Array)[];
+  inputProof: string | Uint8Array;
+};
+
+export interface EncryptedInputBuilder {
+  add8(value: number | bigint): EncryptedInputBuilder;
+  add32(value: number | bigint): EncryptedInputBuilder;
+  add64(value: number | bigint): EncryptedInputBuilder;
+  encrypt(): Promise<EncryptedInput>;
+}
+
+export type Eip712Request = {
+  domain: { chainId: number; name: string; verifyingContract: string; version: string };
+  types: Record<string, { name: string; type: string }[]>;
+  message: Record<string, unknown>;
+};
+
+export type PublicDecryption = {
+  clearValues: Record<string, ClearValue>;
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+};
+
+/// The relayer-style FHE client the SDK talks to
+export interface FhevmBackend {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Eip712Request;
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<Record<string, ClearValue>>;
+  publicDecrypt(handles: string[]): Promise<PublicDecryption>;
+}
+
+/// Backend for hardhat: the plugin's `hre.fhevm` serves both the in-process mock and live networks
+export async function hardhatBackend(
+  fhevm: FhevmBackend & { initializeCLIApi(): Promise<void> },
+): Promise<FhevmBackend> {
+  await fhevm.initializeCLIApi();
+  return fhevm;
+}
+
+/// Backend for browsers and scripts: an instance from the relayer SDK's `createInstance`
+export function relayerBackend(instance: FhevmBackend): FhevmBackend {
+  return instance;
+}
+
+const DECRYPT_DURATION_DAYS = 7;
+
+/// Decrypts handles the signer may read, signing a fresh EIP-712 user decryption request
+export async function userDecrypt(
+  fhevm: FhevmBackend,
+  signer: Signer,
+  contractAddress: string,
+  handles: string[],
+): Promise<ClearValue[]> {
+  const keypair = fhevm.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = fhevm.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message,
+  );
+
+  const results = await fhevm.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    DECRYPT_DURATION_DAYS,
+  );
+  return handles.map((handle) => results[handle]);
+}
@@ -0,0 +1,326 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace RandomnessProvider {
+  export type RequestStruct = {
+    consumer: AddressLike;
+    drawId: BigNumberish;
+    fulfilled: boolean;
+  };
+
+  export type RequestStructOutput = [
+    consumer: string,
+    drawId: bigint,
+    fulfilled: boolean
+  ] & { consumer: string; drawId: bigint; fulfilled: boolean };
+}
+
+export interface FHERandomnessProviderInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "confidentialProtocolId"
+      | "getEncryptedRandomness"
+      | "getRequest"
+      | "nextRequestId"
+      | "requestRandomness"
+      | "revealRandomness"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "PublicDecryptionVerified"
+      | "RandomnessFulfilled"
+      | "RandomnessRequested"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedRandomness",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextRequestId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestRandomness",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealRandomness",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedRandomness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRequest", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "nextRequestId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRandomness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealRandomness",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RandomnessFulfilledEvent {
+  export type InputTuple = [requestId: BigNumberish, randomness: BigNumberish];
+  export type OutputTuple = [requestId: bigint, randomness: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    randomness: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RandomnessRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    consumer: AddressLike,
+    drawId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    consumer: string,
+    drawId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    consumer: string;
+    drawId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FHERandomnessProvider extends BaseContract {
+  connect(runner?: ContractRunner | null): FHERandomnessProvider;
+  waitForDeployment(): Promise<this>;
+
+  interface: FHERandomnessProviderInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  getEncryptedRandomness: TypedContractMethod<
+    [requestId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getRequest: TypedContractMethod<
+    [requestId: BigNumberish],
+    [RandomnessProvider.RequestStructOutput],
+    "view"
+  >;
+
+  nextRequestId: TypedContractMethod<[], [bigint], "view">;
+
+  requestRandomness: TypedContractMethod<
+    [drawId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  revealRandomness: TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      abiEncodedCleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedRandomness"
+  ): TypedContractMethod<[requestId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRequest"
+  ): TypedContractMethod<
+    [requestId: BigNumberish],
+    [RandomnessProvider.RequestStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "nextRequestId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestRandomness"
+  ): TypedContractMethod<[drawId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealRandomness"
+  ): TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      abiEncodedCleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RandomnessFulfilled"
+  ): TypedContractEvent<
+    RandomnessFulfilledEvent.InputTuple,
+    RandomnessFulfilledEvent.OutputTuple,
+    RandomnessFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "RandomnessRequested"
+  ): TypedContractEvent<
+    RandomnessRequestedEvent.InputTuple,
+    RandomnessRequestedEvent.OutputTuple,
+    RandomnessRequestedEvent.OutputObject
+  >;
+
+  filters: {
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "RandomnessFulfilled(uint256,uint256)": TypedContractEvent<
+      RandomnessFulfilledEvent.InputTuple,
+      RandomnessFulfilledEvent.OutputTuple,
+      RandomnessFulfilledEvent.OutputObject
+    >;
+    RandomnessFulfilled: TypedContractEvent<
+      RandomnessFulfilledEvent.InputTuple,
+      RandomnessFulfilledEvent.OutputTuple,
+      RandomnessFulfilledEvent.OutputObject
+    >;
+
+    "RandomnessRequested(uint256,address,uint256)": TypedContractEvent<
+      RandomnessRequestedEvent.InputTuple,
+      RandomnessRequestedEvent.OutputTuple,
+      RandomnessRequestedEvent.OutputObject
+    >;
+    RandomnessRequested: TypedContractEvent<
+      RandomnessRequestedEvent.InputTuple,
+      RandomnessRequestedEvent.OutputTuple,
+      RandomnessRequestedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2576 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace LuckyBall {
+  export type DrawConfigStruct = {
+    minNumber: BigNumberish;
+    maxNumber: BigNumberish;
+    picks: BigNumberish;
+    bitmask: boolean;
+    rewards: BigNumberish[];
+  };
+
+  export type DrawConfigStructOutput = [
+    minNumber: bigint,
+    maxNumber: bigint,
+    picks: bigint,
+    bitmask: boolean,
+    rewards: bigint[]
+  ] & {
+    minNumber: bigint;
+    maxNumber: bigint;
+    picks: bigint;
+    bitmask: boolean;
+    rewards: bigint[];
+  };
+
+  export type PurchaseLimitsStruct = {
+    perPlayer: BigNumberish;
+    perDraw: BigNumberish;
+    uniqueNumbers: boolean;
+  };
+
+  export type PurchaseLimitsStructOutput = [
+    perPlayer: bigint,
+    perDraw: bigint,
+    uniqueNumbers: boolean
+  ] & { perPlayer: bigint; perDraw: bigint; uniqueNumbers: boolean };
+
+  export type DrawStruct = {
+    winningNumbers: BigNumberish[];
+    executedAt: BigNumberish;
+    executed: boolean;
+    cancelled: boolean;
+    pot: BigNumberish;
+    winners: BigNumberish;
+    requested: boolean;
+    requestId: BigNumberish;
+    salesCloseAt: BigNumberish;
+    minTickets: BigNumberish;
+    ticketCount: BigNumberish;
+    config: LuckyBall.DrawConfigStruct;
+    winnerTally: BytesLike;
+    tallyPublished: boolean;
+    winningTickets: BigNumberish;
+    claimWindow: BigNumberish;
+    jackpot: BigNumberish;
+    paymentToken: AddressLike;
+    ticketPrice: BigNumberish;
+    limits: LuckyBall.PurchaseLimitsStruct;
+  };
+
+  export type DrawStructOutput = [
+    winningNumbers: bigint[],
+    executedAt: bigint,
+    executed: boolean,
+    cancelled: boolean,
+    pot: bigint,
+    winners: bigint,
+    requested: boolean,
+    requestId: bigint,
+    salesCloseAt: bigint,
+    minTickets: bigint,
+    ticketCount: bigint,
+    config: LuckyBall.DrawConfigStructOutput,
+    winnerTally: string,
+    tallyPublished: boolean,
+    winningTickets: bigint,
+    claimWindow: bigint,
+    jackpot: bigint,
+    paymentToken: string,
+    ticketPrice: bigint,
+    limits: LuckyBall.PurchaseLimitsStructOutput
+  ] & {
+    winningNumbers: bigint[];
+    executedAt: bigint;
+    executed: boolean;
+    cancelled: boolean;
+    pot: bigint;
+    winners: bigint;
+    requested: boolean;
+    requestId: bigint;
+    salesCloseAt: bigint;
+    minTickets: bigint;
+    ticketCount: bigint;
+    config: LuckyBall.DrawConfigStructOutput;
+    winnerTally: string;
+    tallyPublished: boolean;
+    winningTickets: bigint;
+    claimWindow: bigint;
+    jackpot: bigint;
+    paymentToken: string;
+    ticketPrice: bigint;
+    limits: LuckyBall.PurchaseLimitsStructOutput;
+  };
+
+  export type PlayerDrawStruct = {
+    tickets: BigNumberish[];
+    picked: BytesLike;
+    bought: BigNumberish;
+    bitmap: BytesLike;
+  };
+
+  export type PlayerDrawStructOutput = [
+    tickets: bigint[],
+    picked: string,
+    bought: bigint,
+    bitmap: string
+  ] & { tickets: bigint[]; picked: string; bought: bigint; bitmap: string };
+
+  export type TicketStruct = {
+    numbers: BytesLike[];
+    drawId: BigNumberish;
+    claimed: boolean;
+    refunded: boolean;
+    outcome: BytesLike;
+    won: boolean;
+    paid: boolean;
+    expired: boolean;
+    valid: BytesLike;
+  };
+
+  export type TicketStructOutput = [
+    numbers: string[],
+    drawId: bigint,
+    claimed: boolean,
+    refunded: boolean,
+    outcome: string,
+    won: boolean,
+    paid: boolean,
+    expired: boolean,
+    valid: string
+  ] & {
+    numbers: string[];
+    drawId: bigint;
+    claimed: boolean;
+    refunded: boolean;
+    outcome: string;
+    won: boolean;
+    paid: boolean;
+    expired: boolean;
+    valid: string;
+  };
+}
+
+export interface LuckyBallInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "EMERGENCY_REFUND_DELAY"
+      | "MAX_PICKS"
+      | "SETTLEMENT_PERIOD"
+      | "TICKET_PRICE"
+      | "UPGRADE_INTERFACE_VERSION"
+      | "acceptOwnership"
+      | "autoClaim"
+      | "buyTicket"
+      | "buyTickets"
+      | "buyTicketsWithPermit"
+      | "cancelDraw"
+      | "claimAllForDraw"
+      | "claimFor"
+      | "claimForBySig"
+      | "claimNonces"
+      | "claimTicket"
+      | "claimTickets"
+      | "collectPrize"
+      | "confidentialProtocolId"
+      | "confirmWin"
+      | "currentDrawId"
+      | "defaultClaimWindow"
+      | "defaultLimits"
+      | "defaultMinTickets"
+      | "defaultPaymentToken"
+      | "defaultSalesDuration"
+      | "defaultTicketPrice"
+      | "eip712Domain"
+      | "emergencyRefund"
+      | "executeDraw"
+      | "expireTickets"
+      | "getDefaultConfig"
+      | "getDraw"
+      | "getDraws"
+      | "getPlayerDraw"
+      | "getPlayers"
+      | "getScore"
+      | "getTickets"
+      | "getTicketsByDraw"
+      | "getTicketsPage"
+      | "initialize"
+      | "initializeTicketIndex"
+      | "isOperator"
+      | "isTrustedForwarder"
+      | "operators"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pendingOwner"
+      | "points"
+      | "proxiableUUID"
+      | "publishWinnerTally"
+      | "randomnessProvider"
+      | "rawFulfillRandomness"
+      | "refundTicket"
+      | "renounceOwnership"
+      | "revealWinnerTally"
+      | "rollOverPot"
+      | "scheduleDraw"
+      | "setAutoClaim"
+      | "setClaimWindow"
+      | "setDefaultSchedule"
+      | "setDrawConfig"
+      | "setOperator"
+      | "setPaymentToken"
+      | "setPurchaseLimits"
+      | "setTicketMode"
+      | "setTreasury"
+      | "totalTickets"
+      | "transferOwnership"
+      | "treasury"
+      | "trustedForwarder"
+      | "unpause"
+      | "upgradeToAndCall"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AutoClaimUpdated"
+      | "ClaimWindowUpdated"
+      | "DrawCancelled"
+      | "DrawConfigUpdated"
+      | "DrawExecuted"
+      | "DrawRequested"
+      | "DrawScheduled"
+      | "EIP712DomainChanged"
+      | "Initialized"
+      | "JackpotRolledOver"
+      | "OperatorUpdated"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PaymentTokenUpdated"
+      | "PotRolledOver"
+      | "PrizePaid"
+      | "PurchaseLimitsUpdated"
+      | "TicketClaimProcessed"
+      | "TicketExpired"
+      | "TicketModeUpdated"
+      | "TicketPurchased"
+      | "TicketRefunded"
+      | "TreasuryUpdated"
+      | "Unpaused"
+      | "Upgraded"
+      | "WinConfirmed"
+      | "WinnerTallyPublished"
+      | "WinnerTallyRevealed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "EMERGENCY_REFUND_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_PICKS", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "SETTLEMENT_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TICKET_PRICE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "autoClaim",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buyTicket",
+    values: [BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buyTickets",
+    values: [BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buyTicketsWithPermit",
+    values: [
+      BytesLike[],
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelDraw",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimAllForDraw",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimFor",
+    values: [AddressLike, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimForBySig",
+    values: [AddressLike, BigNumberish[], BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimNonces",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimTicket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimTickets",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collectPrize",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confirmWin",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentDrawId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultClaimWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultLimits",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultMinTickets",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultPaymentToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultSalesDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "defaultTicketPrice",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "eip712Domain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "emergencyRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeDraw",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expireTickets",
+    values: [AddressLike, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDefaultConfig",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDraw",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDraws",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerDraw",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayers",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getScore",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTickets",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTicketsByDraw",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTicketsPage",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initializeTicketIndex",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isOperator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTrustedForwarder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operators",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "points", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "proxiableUUID",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishWinnerTally",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "randomnessProvider",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rawFulfillRandomness",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundTicket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealWinnerTally",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rollOverPot",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scheduleDraw",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAutoClaim",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setClaimWindow",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDefaultSchedule",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDrawConfig",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setOperator",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPaymentToken",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPurchaseLimits",
+    values: [BigNumberish, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTicketMode",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTreasury",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalTickets",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "treasury", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "trustedForwarder",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToAndCall",
+    values: [AddressLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "EMERGENCY_REFUND_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_PICKS", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "SETTLEMENT_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TICKET_PRICE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "autoClaim", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "buyTicket", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "buyTickets", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "buyTicketsWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "cancelDraw", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimAllForDraw",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claimFor", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimForBySig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimNonces",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimTicket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimTickets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collectPrize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "confirmWin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentDrawId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultClaimWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultLimits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultMinTickets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultPaymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultSalesDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "defaultTicketPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "eip712Domain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "emergencyRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeDraw",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "expireTickets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDefaultConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getDraw", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getDraws", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerDraw",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getPlayers", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getScore", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getTickets", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getTicketsByDraw",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTicketsPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "initializeTicketIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isOperator", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isTrustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "operators", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "points", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proxiableUUID",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishWinnerTally",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "randomnessProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rawFulfillRandomness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundTicket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealWinnerTally",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rollOverPot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scheduleDraw",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAutoClaim",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setClaimWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDefaultSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDrawConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPaymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPurchaseLimits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTicketMode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTreasury",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalTickets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "treasury", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "trustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToAndCall",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AutoClaimUpdatedEvent {
+  export type InputTuple = [player: AddressLike, enabled: boolean];
+  export type OutputTuple = [player: string, enabled: boolean];
+  export interface OutputObject {
+    player: string;
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClaimWindowUpdatedEvent {
+  export type InputTuple = [claimWindow: BigNumberish];
+  export type OutputTuple = [claimWindow: bigint];
+  export interface OutputObject {
+    claimWindow: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrawCancelledEvent {
+  export type InputTuple = [drawId: BigNumberish];
+  export type OutputTuple = [drawId: bigint];
+  export interface OutputObject {
+    drawId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrawConfigUpdatedEvent {
+  export type InputTuple = [
+    minNumber: BigNumberish,
+    maxNumber: BigNumberish,
+    picks: BigNumberish,
+    rewards: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    minNumber: bigint,
+    maxNumber: bigint,
+    picks: bigint,
+    rewards: bigint[]
+  ];
+  export interface OutputObject {
+    minNumber: bigint;
+    maxNumber: bigint;
+    picks: bigint;
+    rewards: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrawExecutedEvent {
+  export type InputTuple = [
+    drawId: BigNumberish,
+    winningNumbers: BigNumberish[],
+    jackpot: BigNumberish
+  ];
+  export type OutputTuple = [
+    drawId: bigint,
+    winningNumbers: bigint[],
+    jackpot: bigint
+  ];
+  export interface OutputObject {
+    drawId: bigint;
+    winningNumbers: bigint[];
+    jackpot: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrawRequestedEvent {
+  export type InputTuple = [drawId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [drawId: bigint, requestId: bigint];
+  export interface OutputObject {
+    drawId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DrawScheduledEvent {
+  export type InputTuple = [
+    drawId: BigNumberish,
+    salesCloseAt: BigNumberish,
+    minTickets: BigNumberish
+  ];
+  export type OutputTuple = [
+    drawId: bigint,
+    salesCloseAt: bigint,
+    minTickets: bigint
+  ];
+  export interface OutputObject {
+    drawId: bigint;
+    salesCloseAt: bigint;
+    minTickets: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EIP712DomainChangedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JackpotRolledOverEvent {
+  export type InputTuple = [
+    fromDrawId: BigNumberish,
+    toDrawId: BigNumberish,
+    jackpot: BigNumberish
+  ];
+  export type OutputTuple = [
+    fromDrawId: bigint,
+    toDrawId: bigint,
+    jackpot: bigint
+  ];
+  export interface OutputObject {
+    fromDrawId: bigint;
+    toDrawId: bigint;
+    jackpot: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperatorUpdatedEvent {
+  export type InputTuple = [operator: AddressLike, enabled: boolean];
+  export type OutputTuple = [operator: string, enabled: boolean];
+  export interface OutputObject {
+    operator: string;
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentTokenUpdatedEvent {
+  export type InputTuple = [token: AddressLike, ticketPrice: BigNumberish];
+  export type OutputTuple = [token: string, ticketPrice: bigint];
+  export interface OutputObject {
+    token: string;
+    ticketPrice: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PotRolledOverEvent {
+  export type InputTuple = [
+    fromDrawId: BigNumberish,
+    toDrawId: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    fromDrawId: bigint,
+    toDrawId: bigint,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    fromDrawId: bigint;
+    toDrawId: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PrizePaidEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    drawId: BigNumberish,
+    ticketIndex: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    drawId: bigint,
+    ticketIndex: bigint,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    drawId: bigint;
+    ticketIndex: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PurchaseLimitsUpdatedEvent {
+  export type InputTuple = [
+    perPlayer: BigNumberish,
+    perDraw: BigNumberish,
+    uniqueNumbers: boolean
+  ];
+  export type OutputTuple = [
+    perPlayer: bigint,
+    perDraw: bigint,
+    uniqueNumbers: boolean
+  ];
+  export interface OutputObject {
+    perPlayer: bigint;
+    perDraw: bigint;
+    uniqueNumbers: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketClaimProcessedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    drawId: BigNumberish,
+    ticketIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    drawId: bigint,
+    ticketIndex: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    drawId: bigint;
+    ticketIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketExpiredEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    drawId: BigNumberish,
+    ticketIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    drawId: bigint,
+    ticketIndex: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    drawId: bigint;
+    ticketIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketModeUpdatedEvent {
+  export type InputTuple = [bitmask: boolean];
+  export type OutputTuple = [bitmask: boolean];
+  export interface OutputObject {
+    bitmask: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketPurchasedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    drawId: BigNumberish,
+    ticketIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    drawId: bigint,
+    ticketIndex: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    drawId: bigint;
+    ticketIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TicketRefundedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    drawId: BigNumberish,
+    ticketIndex: BigNumberish,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    drawId: bigint,
+    ticketIndex: bigint,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    drawId: bigint;
+    ticketIndex: bigint;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TreasuryUpdatedEvent {
+  export type InputTuple = [treasury: AddressLike];
+  export type OutputTuple = [treasury: string];
+  export interface OutputObject {
+    treasury: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradedEvent {
+  export type InputTuple = [implementation: AddressLike];
+  export type OutputTuple = [implementation: string];
+  export interface OutputObject {
+    implementation: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinConfirmedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    drawId: BigNumberish,
+    ticketIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    drawId: bigint,
+    ticketIndex: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    drawId: bigint;
+    ticketIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinnerTallyPublishedEvent {
+  export type InputTuple = [drawId: BigNumberish, winningTickets: BigNumberish];
+  export type OutputTuple = [drawId: bigint, winningTickets: bigint];
+  export interface OutputObject {
+    drawId: bigint;
+    winningTickets: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinnerTallyRevealedEvent {
+  export type InputTuple = [drawId: BigNumberish, handle: BytesLike];
+  export type OutputTuple = [drawId: bigint, handle: string];
+  export interface OutputObject {
+    drawId: bigint;
+    handle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface LuckyBall extends BaseContract {
+  connect(runner?: ContractRunner | null): LuckyBall;
+  waitForDeployment(): Promise<this>;
+
+  interface: LuckyBallInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  EMERGENCY_REFUND_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PICKS: TypedContractMethod<[], [bigint], "view">;
+
+  SETTLEMENT_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  TICKET_PRICE: TypedContractMethod<[], [bigint], "view">;
+
+  UPGRADE_INTERFACE_VERSION: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  autoClaim: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  buyTicket: TypedContractMethod<
+    [encryptedNumbers: BytesLike[], inputProof: BytesLike],
+    [bigint],
+    "payable"
+  >;
+
+  buyTickets: TypedContractMethod<
+    [encryptedNumbers: BytesLike[], inputProof: BytesLike],
+    [bigint[]],
+    "payable"
+  >;
+
+  buyTicketsWithPermit: TypedContractMethod<
+    [
+      encryptedNumbers: BytesLike[],
+      inputProof: BytesLike,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+
+  cancelDraw: TypedContractMethod<[drawId: BigNumberish], [void], "nonpayable">;
+
+  claimAllForDraw: TypedContractMethod<
+    [drawId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimFor: TypedContractMethod<
+    [player: AddressLike, ticketIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  claimForBySig: TypedContractMethod<
+    [
+      player: AddressLike,
+      ticketIndices: BigNumberish[],
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  claimNonces: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  claimTicket: TypedContractMethod<
+    [ticketIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimTickets: TypedContractMethod<
+    [ticketIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  collectPrize: TypedContractMethod<
+    [ticketIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  confirmWin: TypedContractMethod<
+    [
+      ticketIndex: BigNumberish,
+      abiEncodedCleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  currentDrawId: TypedContractMethod<[], [bigint], "view">;
+
+  defaultClaimWindow: TypedContractMethod<[], [bigint], "view">;
+
+  defaultLimits: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, boolean] & {
+        perPlayer: bigint;
+        perDraw: bigint;
+        uniqueNumbers: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  defaultMinTickets: TypedContractMethod<[], [bigint], "view">;
+
+  defaultPaymentToken: TypedContractMethod<[], [string], "view">;
+
+  defaultSalesDuration: TypedContractMethod<[], [bigint], "view">;
+
+  defaultTicketPrice: TypedContractMethod<[], [bigint], "view">;
+
+  eip712Domain: TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  emergencyRefund: TypedContractMethod<
+    [ticketIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  executeDraw: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  expireTickets: TypedContractMethod<
+    [player: AddressLike, ticketIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  getDefaultConfig: TypedContractMethod<
+    [],
+    [LuckyBall.DrawConfigStructOutput],
+    "view"
+  >;
+
+  getDraw: TypedContractMethod<
+    [drawId: BigNumberish],
+    [LuckyBall.DrawStructOutput],
+    "view"
+  >;
+
+  getDraws: TypedContractMethod<
+    [fromId: BigNumberish, toId: BigNumberish],
+    [LuckyBall.DrawStructOutput[]],
+    "view"
+  >;
+
+  getPlayerDraw: TypedContractMethod<
+    [player: AddressLike, drawId: BigNumberish],
+    [LuckyBall.PlayerDrawStructOutput],
+    "view"
+  >;
+
+  getPlayers: TypedContractMethod<[], [string[]], "view">;
+
+  getScore: TypedContractMethod<[player: AddressLike], [string], "view">;
+
+  getTickets: TypedContractMethod<
+    [player: AddressLike],
+    [LuckyBall.TicketStructOutput[]],
+    "view"
+  >;
+
+  getTicketsByDraw: TypedContractMethod<
+    [player: AddressLike, drawId: BigNumberish],
+    [
+      [bigint[], LuckyBall.TicketStructOutput[]] & {
+        indices: bigint[];
+        tickets: LuckyBall.TicketStructOutput[];
+      }
+    ],
+    "view"
+  >;
+
+  getTicketsPage: TypedContractMethod<
+    [player: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [LuckyBall.TicketStructOutput[]],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<
+    [provider: AddressLike, pointsToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  initializeTicketIndex: TypedContractMethod<[], [void], "nonpayable">;
+
+  isOperator: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  isTrustedForwarder: TypedContractMethod<
+    [forwarder: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  operators: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  points: TypedContractMethod<[], [string], "view">;
+
+  proxiableUUID: TypedContractMethod<[], [string], "view">;
+
+  publishWinnerTally: TypedContractMethod<
+    [
+      drawId: BigNumberish,
+      abiEncodedCleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  randomnessProvider: TypedContractMethod<[], [string], "view">;
+
+  rawFulfillRandomness: TypedContractMethod<
+    [requestId: BigNumberish, randomness: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  refundTicket: TypedContractMethod<
+    [ticketIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  revealWinnerTally: TypedContractMethod<
+    [drawId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  rollOverPot: TypedContractMethod<
+    [drawId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  scheduleDraw: TypedContractMethod<
+    [salesCloseAt: BigNumberish, minTickets: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setAutoClaim: TypedContractMethod<[enabled: boolean], [void], "nonpayable">;
+
+  setClaimWindow: TypedContractMethod<
+    [claimWindow: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDefaultSchedule: TypedContractMethod<
+    [salesDuration: BigNumberish, minTickets: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDrawConfig: TypedContractMethod<
+    [
+      minNumber: BigNumberish,
+      maxNumber: BigNumberish,
+      picks: BigNumberish,
+      rewards: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setOperator: TypedContractMethod<
+    [operator: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaymentToken: TypedContractMethod<
+    [token: AddressLike, ticketPrice: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPurchaseLimits: TypedContractMethod<
+    [perPlayer: BigNumberish, perDraw: BigNumberish, uniqueNumbers: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setTicketMode: TypedContractMethod<[bitmask: boolean], [void], "nonpayable">;
+
+  setTreasury: TypedContractMethod<
+    [newTreasury: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  totalTickets: TypedContractMethod<[player: AddressLike], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  treasury: TypedContractMethod<[], [string], "view">;
+
+  trustedForwarder: TypedContractMethod<[], [string], "view">;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  upgradeToAndCall: TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "EMERGENCY_REFUND_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PICKS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SETTLEMENT_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "TICKET_PRICE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "UPGRADE_INTERFACE_VERSION"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "autoClaim"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "buyTicket"
+  ): TypedContractMethod<
+    [encryptedNumbers: BytesLike[], inputProof: BytesLike],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "buyTickets"
+  ): TypedContractMethod<
+    [encryptedNumbers: BytesLike[], inputProof: BytesLike],
+    [bigint[]],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "buyTicketsWithPermit"
+  ): TypedContractMethod<
+    [
+      encryptedNumbers: BytesLike[],
+      inputProof: BytesLike,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [bigint[]],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelDraw"
+  ): TypedContractMethod<[drawId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimAllForDraw"
+  ): TypedContractMethod<[drawId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimFor"
+  ): TypedContractMethod<
+    [player: AddressLike, ticketIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimForBySig"
+  ): TypedContractMethod<
+    [
+      player: AddressLike,
+      ticketIndices: BigNumberish[],
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimNonces"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimTicket"
+  ): TypedContractMethod<[ticketIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimTickets"
+  ): TypedContractMethod<[ticketIndices: BigNumberish[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "collectPrize"
+  ): TypedContractMethod<[ticketIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "confirmWin"
+  ): TypedContractMethod<
+    [
+      ticketIndex: BigNumberish,
+      abiEncodedCleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentDrawId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "defaultClaimWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "defaultLimits"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, boolean] & {
+        perPlayer: bigint;
+        perDraw: bigint;
+        uniqueNumbers: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "defaultMinTickets"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "defaultPaymentToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "defaultSalesDuration"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "defaultTicketPrice"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "eip712Domain"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "emergencyRefund"
+  ): TypedContractMethod<[ticketIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executeDraw"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "expireTickets"
+  ): TypedContractMethod<
+    [player: AddressLike, ticketIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getDefaultConfig"
+  ): TypedContractMethod<[], [LuckyBall.DrawConfigStructOutput], "view">;
+  getFunction(
+    nameOrSignature: "getDraw"
+  ): TypedContractMethod<
+    [drawId: BigNumberish],
+    [LuckyBall.DrawStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDraws"
+  ): TypedContractMethod<
+    [fromId: BigNumberish, toId: BigNumberish],
+    [LuckyBall.DrawStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPlayerDraw"
+  ): TypedContractMethod<
+    [player: AddressLike, drawId: BigNumberish],
+    [LuckyBall.PlayerDrawStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPlayers"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getScore"
+  ): TypedContractMethod<[player: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getTickets"
+  ): TypedContractMethod<
+    [player: AddressLike],
+    [LuckyBall.TicketStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTicketsByDraw"
+  ): TypedContractMethod<
+    [player: AddressLike, drawId: BigNumberish],
+    [
+      [bigint[], LuckyBall.TicketStructOutput[]] & {
+        indices: bigint[];
+        tickets: LuckyBall.TicketStructOutput[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTicketsPage"
+  ): TypedContractMethod<
+    [player: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [LuckyBall.TicketStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [provider: AddressLike, pointsToken: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "initializeTicketIndex"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "isOperator"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isTrustedForwarder"
+  ): TypedContractMethod<[forwarder: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "operators"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "points"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proxiableUUID"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "publishWinnerTally"
+  ): TypedContractMethod<
+    [
+      drawId: BigNumberish,
+      abiEncodedCleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "randomnessProvider"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "rawFulfillRandomness"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, randomness: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "refundTicket"
+  ): TypedContractMethod<[ticketIndex: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealWinnerTally"
+  ): TypedContractMethod<[drawId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "rollOverPot"
+  ): TypedContractMethod<[drawId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "scheduleDraw"
+  ): TypedContractMethod<
+    [salesCloseAt: BigNumberish, minTickets: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setAutoClaim"
+  ): TypedContractMethod<[enabled: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setClaimWindow"
+  ): TypedContractMethod<[claimWindow: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDefaultSchedule"
+  ): TypedContractMethod<
+    [salesDuration: BigNumberish, minTickets: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDrawConfig"
+  ): TypedContractMethod<
+    [
+      minNumber: BigNumberish,
+      maxNumber: BigNumberish,
+      picks: BigNumberish,
+      rewards: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setOperator"
+  ): TypedContractMethod<
+    [operator: AddressLike, enabled: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaymentToken"
+  ): TypedContractMethod<
+    [token: AddressLike, ticketPrice: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPurchaseLimits"
+  ): TypedContractMethod<
+    [perPlayer: BigNumberish, perDraw: BigNumberish, uniqueNumbers: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTicketMode"
+  ): TypedContractMethod<[bitmask: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTreasury"
+  ): TypedContractMethod<[newTreasury: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "totalTickets"
+  ): TypedContractMethod<[player: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "treasury"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "trustedForwarder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "upgradeToAndCall"
+  ): TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  getEvent(
+    key: "AutoClaimUpdated"
+  ): TypedContractEvent<
+    AutoClaimUpdatedEvent.InputTuple,
+    AutoClaimUpdatedEvent.OutputTuple,
+    AutoClaimUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClaimWindowUpdated"
+  ): TypedContractEvent<
+    ClaimWindowUpdatedEvent.InputTuple,
+    ClaimWindowUpdatedEvent.OutputTuple,
+    ClaimWindowUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrawCancelled"
+  ): TypedContractEvent<
+    DrawCancelledEvent.InputTuple,
+    DrawCancelledEvent.OutputTuple,
+    DrawCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrawConfigUpdated"
+  ): TypedContractEvent<
+    DrawConfigUpdatedEvent.InputTuple,
+    DrawConfigUpdatedEvent.OutputTuple,
+    DrawConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrawExecuted"
+  ): TypedContractEvent<
+    DrawExecutedEvent.InputTuple,
+    DrawExecutedEvent.OutputTuple,
+    DrawExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrawRequested"
+  ): TypedContractEvent<
+    DrawRequestedEvent.InputTuple,
+    DrawRequestedEvent.OutputTuple,
+    DrawRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DrawScheduled"
+  ): TypedContractEvent<
+    DrawScheduledEvent.InputTuple,
+    DrawScheduledEvent.OutputTuple,
+    DrawScheduledEvent.OutputObject
+  >;
+  getEvent(
+    key: "EIP712DomainChanged"
+  ): TypedContractEvent<
+    EIP712DomainChangedEvent.InputTuple,
+    EIP712DomainChangedEvent.OutputTuple,
+    EIP712DomainChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "JackpotRolledOver"
+  ): TypedContractEvent<
+    JackpotRolledOverEvent.InputTuple,
+    JackpotRolledOverEvent.OutputTuple,
+    JackpotRolledOverEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorUpdated"
+  ): TypedContractEvent<
+    OperatorUpdatedEvent.InputTuple,
+    OperatorUpdatedEvent.OutputTuple,
+    OperatorUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentTokenUpdated"
+  ): TypedContractEvent<
+    PaymentTokenUpdatedEvent.InputTuple,
+    PaymentTokenUpdatedEvent.OutputTuple,
+    PaymentTokenUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PotRolledOver"
+  ): TypedContractEvent<
+    PotRolledOverEvent.InputTuple,
+    PotRolledOverEvent.OutputTuple,
+    PotRolledOverEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrizePaid"
+  ): TypedContractEvent<
+    PrizePaidEvent.InputTuple,
+    PrizePaidEvent.OutputTuple,
+    PrizePaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "PurchaseLimitsUpdated"
+  ): TypedContractEvent<
+    PurchaseLimitsUpdatedEvent.InputTuple,
+    PurchaseLimitsUpdatedEvent.OutputTuple,
+    PurchaseLimitsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketClaimProcessed"
+  ): TypedContractEvent<
+    TicketClaimProcessedEvent.InputTuple,
+    TicketClaimProcessedEvent.OutputTuple,
+    TicketClaimProcessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketExpired"
+  ): TypedContractEvent<
+    TicketExpiredEvent.InputTuple,
+    TicketExpiredEvent.OutputTuple,
+    TicketExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketModeUpdated"
+  ): TypedContractEvent<
+    TicketModeUpdatedEvent.InputTuple,
+    TicketModeUpdatedEvent.OutputTuple,
+    TicketModeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketPurchased"
+  ): TypedContractEvent<
+    TicketPurchasedEvent.InputTuple,
+    TicketPurchasedEvent.OutputTuple,
+    TicketPurchasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TicketRefunded"
+  ): TypedContractEvent<
+    TicketRefundedEvent.InputTuple,
+    TicketRefundedEvent.OutputTuple,
+    TicketRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TreasuryUpdated"
+  ): TypedContractEvent<
+    TreasuryUpdatedEvent.InputTuple,
+    TreasuryUpdatedEvent.OutputTuple,
+    TreasuryUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Upgraded"
+  ): TypedContractEvent<
+    UpgradedEvent.InputTuple,
+    UpgradedEvent.OutputTuple,
+    UpgradedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinConfirmed"
+  ): TypedContractEvent<
+    WinConfirmedEvent.InputTuple,
+    WinConfirmedEvent.OutputTuple,
+    WinConfirmedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinnerTallyPublished"
+  ): TypedContractEvent<
+    WinnerTallyPublishedEvent.InputTuple,
+    WinnerTallyPublishedEvent.OutputTuple,
+    WinnerTallyPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinnerTallyRevealed"
+  ): TypedContractEvent<
+    WinnerTallyRevealedEvent.InputTuple,
+    WinnerTallyRevealedEvent.OutputTuple,
+    WinnerTallyRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "AutoClaimUpdated(address,bool)": TypedContractEvent<
+      AutoClaimUpdatedEvent.InputTuple,
+      AutoClaimUpdatedEvent.OutputTuple,
+      AutoClaimUpdatedEvent.OutputObject
+    >;
+    AutoClaimUpdated: TypedContractEvent<
+      AutoClaimUpdatedEvent.InputTuple,
+      AutoClaimUpdatedEvent.OutputTuple,
+      AutoClaimUpdatedEvent.OutputObject
+    >;
+
+    "ClaimWindowUpdated(uint256)": TypedContractEvent<
+      ClaimWindowUpdatedEvent.InputTuple,
+      ClaimWindowUpdatedEvent.OutputTuple,
+      ClaimWindowUpdatedEvent.OutputObject
+    >;
+    ClaimWindowUpdated: TypedContractEvent<
+      ClaimWindowUpdatedEvent.InputTuple,
+      ClaimWindowUpdatedEvent.OutputTuple,
+      ClaimWindowUpdatedEvent.OutputObject
+    >;
+
+    "DrawCancelled(uint256)": TypedContractEvent<
+      DrawCancelledEvent.InputTuple,
+      DrawCancelledEvent.OutputTuple,
+      DrawCancelledEvent.OutputObject
+    >;
+    DrawCancelled: TypedContractEvent<
+      DrawCancelledEvent.InputTuple,
+      DrawCancelledEvent.OutputTuple,
+      DrawCancelledEvent.OutputObject
+    >;
+
+    "DrawConfigUpdated(uint8,uint8,uint8,uint32[])": TypedContractEvent<
+      DrawConfigUpdatedEvent.InputTuple,
+      DrawConfigUpdatedEvent.OutputTuple,
+      DrawConfigUpdatedEvent.OutputObject
+    >;
+    DrawConfigUpdated: TypedContractEvent<
+      DrawConfigUpdatedEvent.InputTuple,
+      DrawConfigUpdatedEvent.OutputTuple,
+      DrawConfigUpdatedEvent.OutputObject
+    >;
+
+    "DrawExecuted(uint256,uint8[],uint32)": TypedContractEvent<
+      DrawExecutedEvent.InputTuple,
+      DrawExecutedEvent.OutputTuple,
+      DrawExecutedEvent.OutputObject
+    >;
+    DrawExecuted: TypedContractEvent<
+      DrawExecutedEvent.InputTuple,
+      DrawExecutedEvent.OutputTuple,
+      DrawExecutedEvent.OutputObject
+    >;
+
+    "DrawRequested(uint256,uint256)": TypedContractEvent<
+      DrawRequestedEvent.InputTuple,
+      DrawRequestedEvent.OutputTuple,
+      DrawRequestedEvent.OutputObject
+    >;
+    DrawRequested: TypedContractEvent<
+      DrawRequestedEvent.InputTuple,
+      DrawRequestedEvent.OutputTuple,
+      DrawRequestedEvent.OutputObject
+    >;
+
+    "DrawScheduled(uint256,uint256,uint256)": TypedContractEvent<
+      DrawScheduledEvent.InputTuple,
+      DrawScheduledEvent.OutputTuple,
+      DrawScheduledEvent.OutputObject
+    >;
+    DrawScheduled: TypedContractEvent<
+      DrawScheduledEvent.InputTuple,
+      DrawScheduledEvent.OutputTuple,
+      DrawScheduledEvent.OutputObject
+    >;
+
+    "EIP712DomainChanged()": TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+    EIP712DomainChanged: TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "JackpotRolledOver(uint256,uint256,uint32)": TypedContractEvent<
+      JackpotRolledOverEvent.InputTuple,
+      JackpotRolledOverEvent.OutputTuple,
+      JackpotRolledOverEvent.OutputObject
+    >;
+    JackpotRolledOver: TypedContractEvent<
+      JackpotRolledOverEvent.InputTuple,
+      JackpotRolledOverEvent.OutputTuple,
+      JackpotRolledOverEvent.OutputObject
+    >;
+
+    "OperatorUpdated(address,bool)": TypedContractEvent<
+      OperatorUpdatedEvent.InputTuple,
+      OperatorUpdatedEvent.OutputTuple,
+      OperatorUpdatedEvent.OutputObject
+    >;
+    OperatorUpdated: TypedContractEvent<
+      OperatorUpdatedEvent.InputTuple,
+      OperatorUpdatedEvent.OutputTuple,
+      OperatorUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PaymentTokenUpdated(address,uint256)": TypedContractEvent<
+      PaymentTokenUpdatedEvent.InputTuple,
+      PaymentTokenUpdatedEvent.OutputTuple,
+      PaymentTokenUpdatedEvent.OutputObject
+    >;
+    PaymentTokenUpdated: TypedContractEvent<
+      PaymentTokenUpdatedEvent.InputTuple,
+      PaymentTokenUpdatedEvent.OutputTuple,
+      PaymentTokenUpdatedEvent.OutputObject
+    >;
+
+    "PotRolledOver(uint256,uint256,uint256)": TypedContractEvent<
+      PotRolledOverEvent.InputTuple,
+      PotRolledOverEvent.OutputTuple,
+      PotRolledOverEvent.OutputObject
+    >;
+    PotRolledOver: TypedContractEvent<
+      PotRolledOverEvent.InputTuple,
+      PotRolledOverEvent.OutputTuple,
+      PotRolledOverEvent.OutputObject
+    >;
+
+    "PrizePaid(address,uint256,uint256,uint256)": TypedContractEvent<
+      PrizePaidEvent.InputTuple,
+      PrizePaidEvent.OutputTuple,
+      PrizePaidEvent.OutputObject
+    >;
+    PrizePaid: TypedContractEvent<
+      PrizePaidEvent.InputTuple,
+      PrizePaidEvent.OutputTuple,
+      PrizePaidEvent.OutputObject
+    >;
+
+    "PurchaseLimitsUpdated(uint32,uint32,bool)": TypedContractEvent<
+      PurchaseLimitsUpdatedEvent.InputTuple,
+      PurchaseLimitsUpdatedEvent.OutputTuple,
+      PurchaseLimitsUpdatedEvent.OutputObject
+    >;
+    PurchaseLimitsUpdated: TypedContractEvent<
+      PurchaseLimitsUpdatedEvent.InputTuple,
+      PurchaseLimitsUpdatedEvent.OutputTuple,
+      PurchaseLimitsUpdatedEvent.OutputObject
+    >;
+
+    "TicketClaimProcessed(address,uint256,uint256)": TypedContractEvent<
+      TicketClaimProcessedEvent.InputTuple,
+      TicketClaimProcessedEvent.OutputTuple,
+      TicketClaimProcessedEvent.OutputObject
+    >;
+    TicketClaimProcessed: TypedContractEvent<
+      TicketClaimProcessedEvent.InputTuple,
+      TicketClaimProcessedEvent.OutputTuple,
+      TicketClaimProcessedEvent.OutputObject
+    >;
+
+    "TicketExpired(address,uint256,uint256)": TypedContractEvent<
+      TicketExpiredEvent.InputTuple,
+      TicketExpiredEvent.OutputTuple,
+      TicketExpiredEvent.OutputObject
+    >;
+    TicketExpired: TypedContractEvent<
+      TicketExpiredEvent.InputTuple,
+      TicketExpiredEvent.OutputTuple,
+      TicketExpiredEvent.OutputObject
+    >;
+
+    "TicketModeUpdated(bool)": TypedContractEvent<
+      TicketModeUpdatedEvent.InputTuple,
+      TicketModeUpdatedEvent.OutputTuple,
+      TicketModeUpdatedEvent.OutputObject
+    >;
+    TicketModeUpdated: TypedContractEvent<
+      TicketModeUpdatedEvent.InputTuple,
+      TicketModeUpdatedEvent.OutputTuple,
+      TicketModeUpdatedEvent.OutputObject
+    >;
+
+    "TicketPurchased(address,uint256,uint256)": TypedContractEvent<
+      TicketPurchasedEvent.InputTuple,
+      TicketPurchasedEvent.OutputTuple,
+      TicketPurchasedEvent.OutputObject
+    >;
+    TicketPurchased: TypedContractEvent<
+      TicketPurchasedEvent.InputTuple,
+      TicketPurchasedEvent.OutputTuple,
+      TicketPurchasedEvent.OutputObject
+    >;
+
+    "TicketRefunded(address,uint256,uint256,uint256)": TypedContractEvent<
+      TicketRefundedEvent.InputTuple,
+      TicketRefundedEvent.OutputTuple,
+      TicketRefundedEvent.OutputObject
+    >;
+    TicketRefunded: TypedContractEvent<
+      TicketRefundedEvent.InputTuple,
+      TicketRefundedEvent.OutputTuple,
+      TicketRefundedEvent.OutputObject
+    >;
+
+    "TreasuryUpdated(address)": TypedContractEvent<
+      TreasuryUpdatedEvent.InputTuple,
+      TreasuryUpdatedEvent.OutputTuple,
+      TreasuryUpdatedEvent.OutputObject
+    >;
+    TreasuryUpdated: TypedContractEvent<
+      TreasuryUpdatedEvent.InputTuple,
+      TreasuryUpdatedEvent.OutputTuple,
+      TreasuryUpdatedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "Upgraded(address)": TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+    Upgraded: TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+
+    "WinConfirmed(address,uint256,uint256)": TypedContractEvent<
+      WinConfirmedEvent.InputTuple,
+      WinConfirmedEvent.OutputTuple,
+      WinConfirmedEvent.OutputObject
+    >;
+    WinConfirmed: TypedContractEvent<
+      WinConfirmedEvent.InputTuple,
+      WinConfirmedEvent.OutputTuple,
+      WinConfirmedEvent.OutputObject
+    >;
+
+    "WinnerTallyPublished(uint256,uint32)": TypedContractEvent<
+      WinnerTallyPublishedEvent.InputTuple,
+      WinnerTallyPublishedEvent.OutputTuple,
+      WinnerTallyPublishedEvent.OutputObject
+    >;
+    WinnerTallyPublished: TypedContractEvent<
+      WinnerTallyPublishedEvent.InputTuple,
+      WinnerTallyPublishedEvent.OutputTuple,
+      WinnerTallyPublishedEvent.OutputObject
+    >;
+
+    "WinnerTallyRevealed(uint256,bytes32)": TypedContractEvent<
+      WinnerTallyRevealedEvent.InputTuple,
+      WinnerTallyRevealedEvent.OutputTuple,
+      WinnerTallyRevealedEvent.OutputObject
+    >;
+    WinnerTallyRevealed: TypedContractEvent<
+      WinnerTallyRevealedEvent.InputTuple,
+      WinnerTallyRevealedEvent.OutputTuple,
+      WinnerTallyRevealedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1396 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace LuckyBallPoints {
+  export type LeaderboardEntryStruct = {
+    player: AddressLike;
+    score: BigNumberish;
+  };
+
+  export type LeaderboardEntryStructOutput = [player: string, score: bigint] & {
+    player: string;
+    score: bigint;
+  };
+
+  export type RedemptionStruct = {
+    amount: BytesLike;
+    token: AddressLike;
+    pointValue: BigNumberish;
+  };
+
+  export type RedemptionStructOutput = [
+    amount: string,
+    token: string,
+    pointValue: bigint
+  ] & { amount: string; token: string; pointValue: bigint };
+}
+
+export interface LuckyBallPointsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "acceptOwnership"
+      | "burn"
+      | "confidentialBalanceOf"
+      | "confidentialProtocolId"
+      | "confidentialTotalSupply"
+      | "confidentialTransfer(address,bytes32,bytes)"
+      | "confidentialTransfer(address,bytes32)"
+      | "confidentialTransferAndCall(address,bytes32,bytes)"
+      | "confidentialTransferAndCall(address,bytes32,bytes,bytes)"
+      | "confidentialTransferFrom(address,address,bytes32,bytes)"
+      | "confidentialTransferFrom(address,address,bytes32)"
+      | "confidentialTransferFromAndCall(address,address,bytes32,bytes,bytes)"
+      | "confidentialTransferFromAndCall(address,address,bytes32,bytes)"
+      | "contractURI"
+      | "decimals"
+      | "discloseEncryptedAmount"
+      | "finalizeRedemption"
+      | "fundRedemptions"
+      | "getLeaderboard"
+      | "getPendingRedemption"
+      | "getRankedPlayers"
+      | "getRevealedScore"
+      | "isOperator"
+      | "mint"
+      | "minter"
+      | "name"
+      | "owner"
+      | "pendingOwner"
+      | "pointValue"
+      | "publishScore"
+      | "publishedScores"
+      | "redeem"
+      | "redemptionReserves"
+      | "redemptionToken"
+      | "renounceOwnership"
+      | "requestDiscloseEncryptedAmount"
+      | "revealScore"
+      | "scorePublished"
+      | "setMinter"
+      | "setOperator"
+      | "setRedemptionTerms"
+      | "supportsInterface"
+      | "symbol"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AmountDiscloseRequested"
+      | "AmountDisclosed"
+      | "ConfidentialTransfer"
+      | "MinterUpdated"
+      | "OperatorSet"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "PublicDecryptionVerified"
+      | "RedemptionRequested"
+      | "RedemptionTermsUpdated"
+      | "RedemptionsFunded"
+      | "ScorePublished"
+      | "ScoreRedeemed"
+      | "ScoreRevealed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "burn",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialBalanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTotalSupply",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransfer(address,bytes32,bytes)",
+    values: [AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransfer(address,bytes32)",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransferAndCall(address,bytes32,bytes)",
+    values: [AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransferAndCall(address,bytes32,bytes,bytes)",
+    values: [AddressLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransferFrom(address,address,bytes32,bytes)",
+    values: [AddressLike, AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransferFrom(address,address,bytes32)",
+    values: [AddressLike, AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransferFromAndCall(address,address,bytes32,bytes,bytes)",
+    values: [AddressLike, AddressLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialTransferFromAndCall(address,address,bytes32,bytes)",
+    values: [AddressLike, AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "contractURI",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "decimals", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "discloseEncryptedAmount",
+    values: [BytesLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeRedemption",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundRedemptions",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLeaderboard",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingRedemption",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRankedPlayers",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevealedScore",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isOperator",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mint",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "minter", values?: undefined): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pointValue",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishScore",
+    values: [AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishedScores",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redeem",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redemptionReserves",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redemptionToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestDiscloseEncryptedAmount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealScore",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scorePublished",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinter",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setOperator",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRedemptionTerms",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "burn", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialBalanceOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTotalSupply",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransfer(address,bytes32,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransfer(address,bytes32)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransferAndCall(address,bytes32,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransferAndCall(address,bytes32,bytes,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransferFrom(address,address,bytes32,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransferFrom(address,address,bytes32)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransferFromAndCall(address,address,bytes32,bytes,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialTransferFromAndCall(address,address,bytes32,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "contractURI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "decimals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "discloseEncryptedAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeRedemption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundRedemptions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLeaderboard",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingRedemption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRankedPlayers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevealedScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isOperator", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "mint", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "minter", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pointValue", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "publishScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishedScores",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "redeem", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "redemptionReserves",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "redemptionToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestDiscloseEncryptedAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scorePublished",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setMinter", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRedemptionTerms",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AmountDiscloseRequestedEvent {
+  export type InputTuple = [encryptedAmount: BytesLike, requester: AddressLike];
+  export type OutputTuple = [encryptedAmount: string, requester: string];
+  export interface OutputObject {
+    encryptedAmount: string;
+    requester: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AmountDisclosedEvent {
+  export type InputTuple = [encryptedAmount: BytesLike, amount: BigNumberish];
+  export type OutputTuple = [encryptedAmount: string, amount: bigint];
+  export interface OutputObject {
+    encryptedAmount: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialTransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    amount: BytesLike
+  ];
+  export type OutputTuple = [from: string, to: string, amount: string];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    amount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MinterUpdatedEvent {
+  export type InputTuple = [minter: AddressLike];
+  export type OutputTuple = [minter: string];
+  export interface OutputObject {
+    minter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperatorSetEvent {
+  export type InputTuple = [
+    holder: AddressLike,
+    operator: AddressLike,
+    until: BigNumberish
+  ];
+  export type OutputTuple = [holder: string, operator: string, until: bigint];
+  export interface OutputObject {
+    holder: string;
+    operator: string;
+    until: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RedemptionRequestedEvent {
+  export type InputTuple = [player: AddressLike, handle: BytesLike];
+  export type OutputTuple = [player: string, handle: string];
+  export interface OutputObject {
+    player: string;
+    handle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RedemptionTermsUpdatedEvent {
+  export type InputTuple = [token: AddressLike, pointValue: BigNumberish];
+  export type OutputTuple = [token: string, pointValue: bigint];
+  export interface OutputObject {
+    token: string;
+    pointValue: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RedemptionsFundedEvent {
+  export type InputTuple = [
+    token: AddressLike,
+    funder: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [token: string, funder: string, amount: bigint];
+  export interface OutputObject {
+    token: string;
+    funder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScorePublishedEvent {
+  export type InputTuple = [player: AddressLike, score: BigNumberish];
+  export type OutputTuple = [player: string, score: bigint];
+  export interface OutputObject {
+    player: string;
+    score: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreRedeemedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    token: AddressLike,
+    points: BigNumberish,
+    payout: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    token: string,
+    points: bigint,
+    payout: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    token: string;
+    points: bigint;
+    payout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreRevealedEvent {
+  export type InputTuple = [player: AddressLike, handle: BytesLike];
+  export type OutputTuple = [player: string, handle: string];
+  export interface OutputObject {
+    player: string;
+    handle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface LuckyBallPoints extends BaseContract {
+  connect(runner?: ContractRunner | null): LuckyBallPoints;
+  waitForDeployment(): Promise<this>;
+
+  interface: LuckyBallPointsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  burn: TypedContractMethod<
+    [from: AddressLike, amount: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  confidentialBalanceOf: TypedContractMethod<
+    [account: AddressLike],
+    [string],
+    "view"
+  >;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  confidentialTotalSupply: TypedContractMethod<[], [string], "view">;
+
+  "confidentialTransfer(address,bytes32,bytes)": TypedContractMethod<
+    [to: AddressLike, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  "confidentialTransfer(address,bytes32)": TypedContractMethod<
+    [to: AddressLike, amount: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  "confidentialTransferAndCall(address,bytes32,bytes)": TypedContractMethod<
+    [to: AddressLike, amount: BytesLike, data: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  "confidentialTransferAndCall(address,bytes32,bytes,bytes)": TypedContractMethod<
+    [
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      data: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  "confidentialTransferFrom(address,address,bytes32,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  "confidentialTransferFrom(address,address,bytes32)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, amount: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  "confidentialTransferFromAndCall(address,address,bytes32,bytes,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      data: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  "confidentialTransferFromAndCall(address,address,bytes32,bytes)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, amount: BytesLike, data: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  contractURI: TypedContractMethod<[], [string], "view">;
+
+  decimals: TypedContractMethod<[], [bigint], "view">;
+
+  discloseEncryptedAmount: TypedContractMethod<
+    [
+      encryptedAmount: BytesLike,
+      cleartextAmount: BigNumberish,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  finalizeRedemption: TypedContractMethod<
+    [abiEncodedCleartexts: BytesLike, decryptionProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  fundRedemptions: TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  getLeaderboard: TypedContractMethod<
+    [limit: BigNumberish],
+    [LuckyBallPoints.LeaderboardEntryStructOutput[]],
+    "view"
+  >;
+
+  getPendingRedemption: TypedContractMethod<
+    [player: AddressLike],
+    [LuckyBallPoints.RedemptionStructOutput],
+    "view"
+  >;
+
+  getRankedPlayers: TypedContractMethod<[], [string[]], "view">;
+
+  getRevealedScore: TypedContractMethod<
+    [player: AddressLike],
+    [string],
+    "view"
+  >;
+
+  isOperator: TypedContractMethod<
+    [holder: AddressLike, spender: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  mint: TypedContractMethod<
+    [to: AddressLike, amount: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  minter: TypedContractMethod<[], [string], "view">;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  pointValue: TypedContractMethod<[], [bigint], "view">;
+
+  publishScore: TypedContractMethod<
+    [
+      player: AddressLike,
+      abiEncodedCleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  publishedScores: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  redeem: TypedContractMethod<
+    [encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  redemptionReserves: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  redemptionToken: TypedContractMethod<[], [string], "view">;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  requestDiscloseEncryptedAmount: TypedContractMethod<
+    [encryptedAmount: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revealScore: TypedContractMethod<[], [void], "nonpayable">;
+
+  scorePublished: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  setMinter: TypedContractMethod<
+    [newMinter: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setOperator: TypedContractMethod<
+    [operator: AddressLike, until: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setRedemptionTerms: TypedContractMethod<
+    [token: AddressLike, newPointValue: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  symbol: TypedContractMethod<[], [string], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "burn"
+  ): TypedContractMethod<
+    [from: AddressLike, amount: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialBalanceOf"
+  ): TypedContractMethod<[account: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "confidentialTotalSupply"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "confidentialTransfer(address,bytes32,bytes)"
+  ): TypedContractMethod<
+    [to: AddressLike, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialTransfer(address,bytes32)"
+  ): TypedContractMethod<
+    [to: AddressLike, amount: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialTransferAndCall(address,bytes32,bytes)"
+  ): TypedContractMethod<
+    [to: AddressLike, amount: BytesLike, data: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialTransferAndCall(address,bytes32,bytes,bytes)"
+  ): TypedContractMethod<
+    [
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      data: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialTransferFrom(address,address,bytes32,bytes)"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialTransferFrom(address,address,bytes32)"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, amount: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialTransferFromAndCall(address,address,bytes32,bytes,bytes)"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      data: BytesLike
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "confidentialTransferFromAndCall(address,address,bytes32,bytes)"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, amount: BytesLike, data: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "contractURI"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "decimals"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "discloseEncryptedAmount"
+  ): TypedContractMethod<
+    [
+      encryptedAmount: BytesLike,
+      cleartextAmount: BigNumberish,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeRedemption"
+  ): TypedContractMethod<
+    [abiEncodedCleartexts: BytesLike, decryptionProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fundRedemptions"
+  ): TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "getLeaderboard"
+  ): TypedContractMethod<
+    [limit: BigNumberish],
+    [LuckyBallPoints.LeaderboardEntryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPendingRedemption"
+  ): TypedContractMethod<
+    [player: AddressLike],
+    [LuckyBallPoints.RedemptionStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRankedPlayers"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRevealedScore"
+  ): TypedContractMethod<[player: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "isOperator"
+  ): TypedContractMethod<
+    [holder: AddressLike, spender: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "mint"
+  ): TypedContractMethod<
+    [to: AddressLike, amount: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "minter"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pointValue"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "publishScore"
+  ): TypedContractMethod<
+    [
+      player: AddressLike,
+      abiEncodedCleartexts: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "publishedScores"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "redeem"
+  ): TypedContractMethod<
+    [encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "redemptionReserves"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "redemptionToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestDiscloseEncryptedAmount"
+  ): TypedContractMethod<[encryptedAmount: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealScore"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "scorePublished"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "setMinter"
+  ): TypedContractMethod<[newMinter: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setOperator"
+  ): TypedContractMethod<
+    [operator: AddressLike, until: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setRedemptionTerms"
+  ): TypedContractMethod<
+    [token: AddressLike, newPointValue: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "symbol"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "AmountDiscloseRequested"
+  ): TypedContractEvent<
+    AmountDiscloseRequestedEvent.InputTuple,
+    AmountDiscloseRequestedEvent.OutputTuple,
+    AmountDiscloseRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AmountDisclosed"
+  ): TypedContractEvent<
+    AmountDisclosedEvent.InputTuple,
+    AmountDisclosedEvent.OutputTuple,
+    AmountDisclosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialTransfer"
+  ): TypedContractEvent<
+    ConfidentialTransferEvent.InputTuple,
+    ConfidentialTransferEvent.OutputTuple,
+    ConfidentialTransferEvent.OutputObject
+  >;
+  getEvent(
+    key: "MinterUpdated"
+  ): TypedContractEvent<
+    MinterUpdatedEvent.InputTuple,
+    MinterUpdatedEvent.OutputTuple,
+    MinterUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorSet"
+  ): TypedContractEvent<
+    OperatorSetEvent.InputTuple,
+    OperatorSetEvent.OutputTuple,
+    OperatorSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RedemptionRequested"
+  ): TypedContractEvent<
+    RedemptionRequestedEvent.InputTuple,
+    RedemptionRequestedEvent.OutputTuple,
+    RedemptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RedemptionTermsUpdated"
+  ): TypedContractEvent<
+    RedemptionTermsUpdatedEvent.InputTuple,
+    RedemptionTermsUpdatedEvent.OutputTuple,
+    RedemptionTermsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RedemptionsFunded"
+  ): TypedContractEvent<
+    RedemptionsFundedEvent.InputTuple,
+    RedemptionsFundedEvent.OutputTuple,
+    RedemptionsFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScorePublished"
+  ): TypedContractEvent<
+    ScorePublishedEvent.InputTuple,
+    ScorePublishedEvent.OutputTuple,
+    ScorePublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreRedeemed"
+  ): TypedContractEvent<
+    ScoreRedeemedEvent.InputTuple,
+    ScoreRedeemedEvent.OutputTuple,
+    ScoreRedeemedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreRevealed"
+  ): TypedContractEvent<
+    ScoreRevealedEvent.InputTuple,
+    ScoreRevealedEvent.OutputTuple,
+    ScoreRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "AmountDiscloseRequested(bytes32,address)": TypedContractEvent<
+      AmountDiscloseRequestedEvent.InputTuple,
+      AmountDiscloseRequestedEvent.OutputTuple,
+      AmountDiscloseRequestedEvent.OutputObject
+    >;
+    AmountDiscloseRequested: TypedContractEvent<
+      AmountDiscloseRequestedEvent.InputTuple,
+      AmountDiscloseRequestedEvent.OutputTuple,
+      AmountDiscloseRequestedEvent.OutputObject
+    >;
+
+    "AmountDisclosed(bytes32,uint64)": TypedContractEvent<
+      AmountDisclosedEvent.InputTuple,
+      AmountDisclosedEvent.OutputTuple,
+      AmountDisclosedEvent.OutputObject
+    >;
+    AmountDisclosed: TypedContractEvent<
+      AmountDisclosedEvent.InputTuple,
+      AmountDisclosedEvent.OutputTuple,
+      AmountDisclosedEvent.OutputObject
+    >;
+
+    "ConfidentialTransfer(address,address,bytes32)": TypedContractEvent<
+      ConfidentialTransferEvent.InputTuple,
+      ConfidentialTransferEvent.OutputTuple,
+      ConfidentialTransferEvent.OutputObject
+    >;
+    ConfidentialTransfer: TypedContractEvent<
+      ConfidentialTransferEvent.InputTuple,
+      ConfidentialTransferEvent.OutputTuple,
+      ConfidentialTransferEvent.OutputObject
+    >;
+
+    "MinterUpdated(address)": TypedContractEvent<
+      MinterUpdatedEvent.InputTuple,
+      MinterUpdatedEvent.OutputTuple,
+      MinterUpdatedEvent.OutputObject
+    >;
+    MinterUpdated: TypedContractEvent<
+      MinterUpdatedEvent.InputTuple,
+      MinterUpdatedEvent.OutputTuple,
+      MinterUpdatedEvent.OutputObject
+    >;
+
+    "OperatorSet(address,address,uint48)": TypedContractEvent<
+      OperatorSetEvent.InputTuple,
+      OperatorSetEvent.OutputTuple,
+      OperatorSetEvent.OutputObject
+    >;
+    OperatorSet: TypedContractEvent<
+      OperatorSetEvent.InputTuple,
+      OperatorSetEvent.OutputTuple,
+      OperatorSetEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "RedemptionRequested(address,bytes32)": TypedContractEvent<
+      RedemptionRequestedEvent.InputTuple,
+      RedemptionRequestedEvent.OutputTuple,
+      RedemptionRequestedEvent.OutputObject
+    >;
+    RedemptionRequested: TypedContractEvent<
+      RedemptionRequestedEvent.InputTuple,
+      RedemptionRequestedEvent.OutputTuple,
+      RedemptionRequestedEvent.OutputObject
+    >;
+
+    "RedemptionTermsUpdated(address,uint256)": TypedContractEvent<
+      RedemptionTermsUpdatedEvent.InputTuple,
+      RedemptionTermsUpdatedEvent.OutputTuple,
+      RedemptionTermsUpdatedEvent.OutputObject
+    >;
+    RedemptionTermsUpdated: TypedContractEvent<
+      RedemptionTermsUpdatedEvent.InputTuple,
+      RedemptionTermsUpdatedEvent.OutputTuple,
+      RedemptionTermsUpdatedEvent.OutputObject
+    >;
+
+    "RedemptionsFunded(address,address,uint256)": TypedContractEvent<
+      RedemptionsFundedEvent.InputTuple,
+      RedemptionsFundedEvent.OutputTuple,
+      RedemptionsFundedEvent.OutputObject
+    >;
+    RedemptionsFunded: TypedContractEvent<
+      RedemptionsFundedEvent.InputTuple,
+      RedemptionsFundedEvent.OutputTuple,
+      RedemptionsFundedEvent.OutputObject
+    >;
+
+    "ScorePublished(address,uint64)": TypedContractEvent<
+      ScorePublishedEvent.InputTuple,
+      ScorePublishedEvent.OutputTuple,
+      ScorePublishedEvent.OutputObject
+    >;
+    ScorePublished: TypedContractEvent<
+      ScorePublishedEvent.InputTuple,
+      ScorePublishedEvent.OutputTuple,
+      ScorePublishedEvent.OutputObject
+    >;
+
+    "ScoreRedeemed(address,address,uint64,uint256)": TypedContractEvent<
+      ScoreRedeemedEvent.InputTuple,
+      ScoreRedeemedEvent.OutputTuple,
+      ScoreRedeemedEvent.OutputObject
+    >;
+    ScoreRedeemed: TypedContractEvent<
+      ScoreRedeemedEvent.InputTuple,
+      ScoreRedeemedEvent.OutputTuple,
+      ScoreRedeemedEvent.OutputObject
+    >;
+
+    "ScoreRevealed(address,bytes32)": TypedContractEvent<
+      ScoreRevealedEvent.InputTuple,
+      ScoreRevealedEvent.OutputTuple,
+      ScoreRevealedEvent.OutputObject
+    >;
+    ScoreRevealed: TypedContractEvent<
+      ScoreRevealedEvent.InputTuple,
+      ScoreRevealedEvent.OutputTuple,
+      ScoreRevealedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2425 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { LuckyBall, LuckyBallInterface } from "../LuckyBall";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "trustedForwarder",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "AddressEmptyCode",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "ERC1967InvalidImplementation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ERC1967NonPayable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EnforcedPause",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ExpectedPause",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FailedCall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UUPSUnauthorizedCallContext",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "slot",
+        type: "bytes32",
+      },
+    ],
+    name: "UUPSUnsupportedProxiableUUID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "AutoClaimUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "claimWindow",
+        type: "uint256",
+      },
+    ],
+    name: "ClaimWindowUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+    ],
+    name: "DrawCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "minNumber",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "maxNumber",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "picks",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "rewards",
+        type: "uint32[]",
+      },
+    ],
+    name: "DrawConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8[]",
+        name: "winningNumbers",
+        type: "uint8[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "jackpot",
+        type: "uint32",
+      },
+    ],
+    name: "DrawExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "DrawRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "salesCloseAt",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minTickets",
+        type: "uint256",
+      },
+    ],
+    name: "DrawScheduled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fromDrawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "toDrawId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "jackpot",
+        type: "uint32",
+      },
+    ],
+    name: "JackpotRolledOver",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "OperatorUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "ticketPrice",
+        type: "uint256",
+      },
+    ],
+    name: "PaymentTokenUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "fromDrawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "toDrawId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PotRolledOver",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PrizePaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "perPlayer",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "perDraw",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "uniqueNumbers",
+        type: "bool",
+      },
+    ],
+    name: "PurchaseLimitsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+    ],
+    name: "TicketClaimProcessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+    ],
+    name: "TicketExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "bitmask",
+        type: "bool",
+      },
+    ],
+    name: "TicketModeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+    ],
+    name: "TicketPurchased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "TicketRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "treasury",
+        type: "address",
+      },
+    ],
+    name: "TreasuryUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+    ],
+    name: "WinConfirmed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "winningTickets",
+        type: "uint32",
+      },
+    ],
+    name: "WinnerTallyPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+    ],
+    name: "WinnerTallyRevealed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "EMERGENCY_REFUND_DELAY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PICKS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SETTLEMENT_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TICKET_PRICE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPGRADE_INTERFACE_VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "autoClaim",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8[]",
+        name: "encryptedNumbers",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "buyTicket",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8[]",
+        name: "encryptedNumbers",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "buyTickets",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8[]",
+        name: "encryptedNumbers",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "v",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "r",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "buyTicketsWithPermit",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelDraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+    ],
+    name: "claimAllForDraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ticketIndices",
+        type: "uint256[]",
+      },
+    ],
+    name: "claimFor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ticketIndices",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "claimForBySig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claimNonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+    ],
+    name: "claimTicket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "ticketIndices",
+        type: "uint256[]",
+      },
+    ],
+    name: "claimTickets",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+    ],
+    name: "collectPrize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "confirmWin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentDrawId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultClaimWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultLimits",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "perPlayer",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "perDraw",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "uniqueNumbers",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultMinTickets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultPaymentToken",
+    outputs: [
+      {
+        internalType: "contract IERC20",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultSalesDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "defaultTicketPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+    ],
+    name: "emergencyRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "executeDraw",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ticketIndices",
+        type: "uint256[]",
+      },
+    ],
+    name: "expireTickets",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getDefaultConfig",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint8",
+            name: "minNumber",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxNumber",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "picks",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "bitmask",
+            type: "bool",
+          },
+          {
+            internalType: "uint32[]",
+            name: "rewards",
+            type: "uint32[]",
+          },
+        ],
+        internalType: "struct LuckyBall.DrawConfig",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+    ],
+    name: "getDraw",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint8[]",
+            name: "winningNumbers",
+            type: "uint8[]",
+          },
+          {
+            internalType: "uint256",
+            name: "executedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "executed",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "cancelled",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "pot",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "winners",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "requested",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "salesCloseAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minTickets",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "ticketCount",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint8",
+                name: "minNumber",
+                type: "uint8",
+              },
+              {
+                internalType: "uint8",
+                name: "maxNumber",
+                type: "uint8",
+              },
+              {
+                internalType: "uint8",
+                name: "picks",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "bitmask",
+                type: "bool",
+              },
+              {
+                internalType: "uint32[]",
+                name: "rewards",
+                type: "uint32[]",
+              },
+            ],
+            internalType: "struct LuckyBall.DrawConfig",
+            name: "config",
+            type: "tuple",
+          },
+          {
+            internalType: "euint32",
+            name: "winnerTally",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "tallyPublished",
+            type: "bool",
+          },
+          {
+            internalType: "uint32",
+            name: "winningTickets",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "claimWindow",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "jackpot",
+            type: "uint32",
+          },
+          {
+            internalType: "contract IERC20",
+            name: "paymentToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "ticketPrice",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint32",
+                name: "perPlayer",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "perDraw",
+                type: "uint32",
+              },
+              {
+                internalType: "bool",
+                name: "uniqueNumbers",
+                type: "bool",
+              },
+            ],
+            internalType: "struct LuckyBall.PurchaseLimits",
+            name: "limits",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct LuckyBall.Draw",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "getDraws",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint8[]",
+            name: "winningNumbers",
+            type: "uint8[]",
+          },
+          {
+            internalType: "uint256",
+            name: "executedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "executed",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "cancelled",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "pot",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "winners",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "requested",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "salesCloseAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minTickets",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "ticketCount",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint8",
+                name: "minNumber",
+                type: "uint8",
+              },
+              {
+                internalType: "uint8",
+                name: "maxNumber",
+                type: "uint8",
+              },
+              {
+                internalType: "uint8",
+                name: "picks",
+                type: "uint8",
+              },
+              {
+                internalType: "bool",
+                name: "bitmask",
+                type: "bool",
+              },
+              {
+                internalType: "uint32[]",
+                name: "rewards",
+                type: "uint32[]",
+              },
+            ],
+            internalType: "struct LuckyBall.DrawConfig",
+            name: "config",
+            type: "tuple",
+          },
+          {
+            internalType: "euint32",
+            name: "winnerTally",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "tallyPublished",
+            type: "bool",
+          },
+          {
+            internalType: "uint32",
+            name: "winningTickets",
+            type: "uint32",
+          },
+          {
+            internalType: "uint256",
+            name: "claimWindow",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "jackpot",
+            type: "uint32",
+          },
+          {
+            internalType: "contract IERC20",
+            name: "paymentToken",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "ticketPrice",
+            type: "uint256",
+          },
+          {
+            components: [
+              {
+                internalType: "uint32",
+                name: "perPlayer",
+                type: "uint32",
+              },
+              {
+                internalType: "uint32",
+                name: "perDraw",
+                type: "uint32",
+              },
+              {
+                internalType: "bool",
+                name: "uniqueNumbers",
+                type: "bool",
+              },
+            ],
+            internalType: "struct LuckyBall.PurchaseLimits",
+            name: "limits",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct LuckyBall.Draw[]",
+        name: "result",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+    ],
+    name: "getPlayerDraw",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256[]",
+            name: "tickets",
+            type: "uint256[]",
+          },
+          {
+            internalType: "euint256",
+            name: "picked",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "bought",
+            type: "uint256",
+          },
+          {
+            internalType: "euint32",
+            name: "bitmap",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct LuckyBall.PlayerDraw",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPlayers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getScore",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getTickets",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint8[]",
+            name: "numbers",
+            type: "bytes32[]",
+          },
+          {
+            internalType: "uint256",
+            name: "drawId",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "claimed",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "refunded",
+            type: "bool",
+          },
+          {
+            internalType: "ebool",
+            name: "outcome",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "won",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "paid",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "expired",
+            type: "bool",
+          },
+          {
+            internalType: "ebool",
+            name: "valid",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct LuckyBall.Ticket[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+    ],
+    name: "getTicketsByDraw",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "indices",
+        type: "uint256[]",
+      },
+      {
+        components: [
+          {
+            internalType: "euint8[]",
+            name: "numbers",
+            type: "bytes32[]",
+          },
+          {
+            internalType: "uint256",
+            name: "drawId",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "claimed",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "refunded",
+            type: "bool",
+          },
+          {
+            internalType: "ebool",
+            name: "outcome",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "won",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "paid",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "expired",
+            type: "bool",
+          },
+          {
+            internalType: "ebool",
+            name: "valid",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct LuckyBall.Ticket[]",
+        name: "tickets",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getTicketsPage",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint8[]",
+            name: "numbers",
+            type: "bytes32[]",
+          },
+          {
+            internalType: "uint256",
+            name: "drawId",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "claimed",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "refunded",
+            type: "bool",
+          },
+          {
+            internalType: "ebool",
+            name: "outcome",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "won",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "paid",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "expired",
+            type: "bool",
+          },
+          {
+            internalType: "ebool",
+            name: "valid",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct LuckyBall.Ticket[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract IRandomnessProvider",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "contract LuckyBallPoints",
+        name: "pointsToken",
+        type: "address",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "initializeTicketIndex",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "forwarder",
+        type: "address",
+      },
+    ],
+    name: "isTrustedForwarder",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "operators",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "points",
+    outputs: [
+      {
+        internalType: "contract LuckyBallPoints",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proxiableUUID",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "publishWinnerTally",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "randomnessProvider",
+    outputs: [
+      {
+        internalType: "contract IRandomnessProvider",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "randomness",
+        type: "uint256",
+      },
+    ],
+    name: "rawFulfillRandomness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "ticketIndex",
+        type: "uint256",
+      },
+    ],
+    name: "refundTicket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+    ],
+    name: "revealWinnerTally",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "drawId",
+        type: "uint256",
+      },
+    ],
+    name: "rollOverPot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "salesCloseAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minTickets",
+        type: "uint256",
+      },
+    ],
+    name: "scheduleDraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setAutoClaim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "claimWindow",
+        type: "uint256",
+      },
+    ],
+    name: "setClaimWindow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "salesDuration",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minTickets",
+        type: "uint256",
+      },
+    ],
+    name: "setDefaultSchedule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "minNumber",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxNumber",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "picks",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32[]",
+        name: "rewards",
+        type: "uint32[]",
+      },
+    ],
+    name: "setDrawConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "enabled",
+        type: "bool",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract IERC20",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "ticketPrice",
+        type: "uint256",
+      },
+    ],
+    name: "setPaymentToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "perPlayer",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "perDraw",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "uniqueNumbers",
+        type: "bool",
+      },
+    ],
+    name: "setPurchaseLimits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "bitmask",
+        type: "bool",
+      },
+    ],
+    name: "setTicketMode",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract LuckyBallTreasury",
+        name: "newTreasury",
+        type: "address",
+      },
+    ],
+    name: "setTreasury",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "totalTickets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "treasury",
+    outputs: [
+      {
+        internalType: "contract LuckyBallTreasury",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "trustedForwarder",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newImplementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "upgradeToAndCall",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+export class LuckyBall__factory {
+  static readonly abi = _abi;
+  static createInterface(): LuckyBallInterface {
+    return new Interface(_abi) as LuckyBallInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): LuckyBall {
+    return new Contract(address, _abi, runner) as unknown as LuckyBall;
+  }
+}
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { FHERandomnessProvider__factory } from "./FHERandomnessProvider__factory";
+export { LuckyBall__factory } from "./LuckyBall__factory";
+export { LuckyBallForwarder__factory } from "./LuckyBallForwarder__factory";
+export { LuckyBallPoints__factory } from "./LuckyBallPoints__factory";
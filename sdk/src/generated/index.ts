@@ -0,0 +1,12 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { FHERandomnessProvider } from "./FHERandomnessProvider";
+export type { LuckyBall } from "./LuckyBall";
+export type { LuckyBallForwarder } from "./LuckyBallForwarder";
+export type { LuckyBallPoints } from "./LuckyBallPoints";
+export * as factories from "./factories";
+export { LuckyBall__factory } from "./factories/LuckyBall__factory";
+export { LuckyBallPoints__factory } from "./factories/LuckyBallPoints__factory";
+export { LuckyBallForwarder__factory } from "./factories/LuckyBallForwarder__factory";
+export { FHERandomnessProvider__factory } from "./factories/FHERandomnessProvider__factory";
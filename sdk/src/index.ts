@@ -0,0 +1,19 @@
+import {
+  FHERandomnessProvider__factory,
+  LuckyBall__factory,
+  LuckyBallForwarder__factory,
+  LuckyBallPoints__factory,
+} from "./generated";
+
+export * from "./actions";
+export * from "./deployments";
+export * from "./events";
+export * from "./fhevm";
+export * from "./normalize";
+export type { FHERandomnessProvider, LuckyBall, LuckyBallForwarder, LuckyBallPoints } from "./generated";
+export { FHERandomnessProvider__factory, LuckyBall__factory, LuckyBallForwarder__factory, LuckyBallPoints__factory };
+
+export const LUCKYBALL_ABI = LuckyBall__factory.abi;
+export const LUCKYBALL_POINTS_ABI = LuckyBallPoints__factory.abi;
+export const LUCKYBALL_FORWARDER_ABI = LuckyBallForwarder__factory.abi;
+export const FHE_RANDOMNESS_PROVIDER_ABI = FHERandomnessProvider__factory.abi;
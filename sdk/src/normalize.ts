@@ -0,0 +1,160 @@
+type Numeric = bigint | number;
+
+/// A draw as returned by `getDraw`, from either an ethers contract or a viem `readContract`
+export type DrawLike = {
+  winningNumbers: readonly Numeric[];
+  executedAt: Numeric;
+  executed: boolean;
+  cancelled: boolean;
+  pot: Numeric;
+  winners: Numeric;
+  requested: boolean;
+  requestId: Numeric;
+  salesCloseAt: Numeric;
+  minTickets: Numeric;
+  ticketCount: Numeric;
+  config: { minNumber: Numeric; maxNumber: Numeric; picks: Numeric; bitmask: boolean; rewards: readonly Numeric[] };
+  winnerTally: string;
+  tallyPublished: boolean;
+  winningTickets: Numeric;
+  claimWindow: Numeric;
+  jackpot: Numeric;
+  paymentToken: string;
+  ticketPrice: Numeric;
+  limits: { perPlayer: Numeric; perDraw: Numeric; uniqueNumbers: boolean };
+};
+
+/// A ticket as returned by `getTickets`
+export type TicketLike = {
+  numbers: readonly string[];
+  drawId: Numeric;
+  claimed: boolean;
+  refunded: boolean;
+  outcome: string;
+  won: boolean;
+  paid: boolean;
+  expired: boolean;
+};
+
+export type DrawConfig = {
+  minNumber: number;
+  maxNumber: number;
+  picks: number;
+  /// Each player's numbers share one ticket and one encrypted bitmap instead of a ticket per purchase
+  bitmask: boolean;
+  rewards: bigint[];
+};
+
+/// Zero caps leave purchases unlimited
+export type PurchaseLimits = {
+  perPlayer: number;
+  perDraw: number;
+  /// Tickets repeating a number their player already picked in the draw are void
+  uniqueNumbers: boolean;
+};
+
+export type DrawInfo = {
+  executed: boolean;
+  /// Abandoned before executing; its tickets are refunded through `refundTicket`
+  cancelled: boolean;
+  winningNumbers: number[];
+  executedAt: bigint;
+  pot: bigint;
+  winners: bigint;
+  requested: boolean;
+  requestId: bigint;
+  salesCloseAt: bigint;
+  minTickets: bigint;
+  ticketCount: bigint;
+  config: DrawConfig;
+  /// Handle of the encrypted winner count, zero until a winning claim or the reveal touches it
+  winnerTally: `0x${string}`;
+  tallyPublished: boolean;
+  winningTickets: number;
+  claimWindow: bigint;
+  /// Points carried over from draws nobody won, paid to full matches on top of the top reward tier
+  jackpot: bigint;
+  /// Token the draw is paid in, the zero address for ETH
+  paymentToken: string;
+  /// Zero for draws charging the contract's `TICKET_PRICE`
+  ticketPrice: bigint;
+  limits: PurchaseLimits;
+};
+
+export type TicketInfo = {
+  index: number;
+  handles: `0x${string}`[];
+  drawId: bigint;
+  claimed: boolean;
+  /// Paid back because the draw was cancelled or never executed; refunded tickets cannot be claimed
+  refunded: boolean;
+  outcome: `0x${string}`;
+  won: boolean;
+  paid: boolean;
+  expired: boolean;
+};
+
+export function normalizeDraw(raw: DrawLike): DrawInfo {
+  return {
+    executed: raw.executed,
+    cancelled: raw.cancelled,
+    winningNumbers: raw.winningNumbers.map((number) => Number(number)),
+    executedAt: BigInt(raw.executedAt),
+    pot: BigInt(raw.pot),
+    winners: BigInt(raw.winners),
+    requested: raw.requested,
+    requestId: BigInt(raw.requestId),
+    salesCloseAt: BigInt(raw.salesCloseAt),
+    minTickets: BigInt(raw.minTickets),
+    ticketCount: BigInt(raw.ticketCount),
+    config: {
+      minNumber: Number(raw.config.minNumber),
+      maxNumber: Number(raw.config.maxNumber),
+      picks: Number(raw.config.picks),
+      bitmask: raw.config.bitmask,
+      rewards: raw.config.rewards.map((reward) => BigInt(reward)),
+    },
+    winnerTally: raw.winnerTally as `0x${string}`,
+    tallyPublished: raw.tallyPublished,
+    winningTickets: Number(raw.winningTickets),
+    claimWindow: BigInt(raw.claimWindow),
+    jackpot: BigInt(raw.jackpot),
+    paymentToken: raw.paymentToken,
+    ticketPrice: BigInt(raw.ticketPrice),
+    limits: {
+      perPlayer: Number(raw.limits.perPlayer),
+      perDraw: Number(raw.limits.perDraw),
+      uniqueNumbers: raw.limits.uniqueNumbers,
+    },
+  };
+}
+
+/// Everything a full match of the draw earns, as announced by `DrawExecuted`
+export function jackpotOf(draw: DrawInfo): bigint {
+  return draw.config.rewards[draw.config.picks] + draw.jackpot;
+}
+
+export function normalizeTicket(raw: TicketLike, index: number): TicketInfo {
+  return {
+    index,
+    handles: raw.numbers.map((handle) => handle as `0x${string}`),
+    drawId: BigInt(raw.drawId),
+    claimed: raw.claimed,
+    refunded: raw.refunded,
+    outcome: raw.outcome as `0x${string}`,
+    won: raw.won,
+    paid: raw.paid,
+    expired: raw.expired,
+  };
+}
+
+/// Numbers whose bits are set in a decrypted bitmask-draw bitmap, in ascending order
+export function numbersOfBitmap(bitmap: bigint): number[] {
+  const numbers: number[] = [];
+  for (let number = 0; bitmap >> BigInt(number) > 0n; number++) {
+    if ((bitmap >> BigInt(number)) & 1n) {
+      numbers.push(number);
+    }
+  }
+  return numbers;
+}
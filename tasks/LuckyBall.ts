@@ -1,86 +1,514 @@
-import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
-import { parseEther, ZeroHash } from "ethers";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { formatEther, ZeroAddress, ZeroHash } from "ethers";
+
+import {
+  approveTicketPayment,
+  buyTicket,
+  buyTickets,
+  claimTicket,
+  decodeDrawExecuted,
+  decodeTicketClaimProcessed,
+  decodeTicketRefunded,
+  decryptScore,
+  executeDraw,
+  getTicketPayment,
+  hardhatBackend,
+  jackpotOf,
+  normalizeDraw,
+  publishWinnerTally,
+  type LuckyBall,
+} from "../sdk/src";
+import { DEFAULT_KEEPER_OPTIONS, DrawKeeper } from "../keeper/keeper";
+import { createHealthServer } from "../keeper/server";
+import { ClaimRelayer, DEFAULT_CLAIM_RELAYER_OPTIONS } from "../relayer/claims";
+import { DEFAULT_PURCHASE_RELAYER_OPTIONS, PurchaseRelayer } from "../relayer/purchases";
+import { createRelayServer } from "../relayer/server";
 
 const CONTRACT_NAME = "LuckyBall";
-const TICKET_PRICE = parseEther("0.001");
+
+function formatAmount(amount: bigint, token: string) {
+  return token === ZeroAddress ? `${formatEther(amount)} ETH` : `${amount} of ${token}`;
+}
 
 task("luckyball:address", "Print the LuckyBall deployment address").setAction(async (_args, hre) => {
   const deployment = await hre.deployments.get(CONTRACT_NAME);
   console.log(`${CONTRACT_NAME} address: ${deployment.address}`);
 });
 
-task("luckyball:buy", "Buy a LuckyBall ticket with an encrypted number")
-  .addParam("number", "Plain number between 1 and 9 before encryption")
+async function parseTicketNumbers(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+  numbers: string,
+  batch: boolean,
+) {
+  const choices = numbers.split(",").map((value) => Number(value.trim()));
+
+  const { deployments } = hre;
+  const deployment = address ? { address } : await deployments.get(CONTRACT_NAME);
+  const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+  const { config } = await contract.getDraw(await contract.currentDrawId());
+  const [minNumber, maxNumber, picks] = [Number(config.minNumber), Number(config.maxNumber), Number(config.picks)];
+  if (batch ? choices.length === 0 || choices.length % picks !== 0 : choices.length !== picks) {
+    throw new Error(`--numbers must list ${batch ? "a multiple of" : "exactly"} ${picks} number(s)`);
+  }
+  if (choices.some((choice) => !Number.isInteger(choice) || choice < minNumber || choice > maxNumber)) {
+    throw new Error(`--numbers must be integers between ${minNumber} and ${maxNumber}`);
+  }
+
+  const tickets = Array.from({ length: choices.length / picks }, (_, ticket) =>
+    choices.slice(ticket * picks, (ticket + 1) * picks),
+  );
+  return { contract, tickets, backend: await hardhatBackend(hre.fhevm) };
+}
+
+/// Approves the treasury for the tickets of a token-priced draw; `token` has to name the draw's payment token so
+/// nobody pays in a token they did not expect
+async function approvePayment(contract: LuckyBall, token: string | undefined, tickets: number) {
+  const payment = await getTicketPayment(contract);
+  if (payment.token.toLowerCase() !== (token ?? ZeroAddress).toLowerCase()) {
+    throw new Error(
+      payment.token === ZeroAddress
+        ? "The active draw is paid in ETH, drop --token"
+        : `The active draw is paid in ${payment.token}, pass it as --token`,
+    );
+  }
+
+  const approval = await approveTicketPayment(contract, tickets);
+  if (approval) {
+    console.log(`Approved ${payment.price * BigInt(tickets)} of ${payment.token} tx: ${approval.hash}`);
+  }
+}
+
+task("luckyball:buy", "Buy a LuckyBall ticket with encrypted numbers")
+  .addParam("numbers", "Comma-separated plain numbers before encryption, e.g. 3,7,12")
+  .addOptionalParam("token", "ERC-20 the active draw is paid in; approves the treasury to take the ticket price")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { contract, tickets, backend } = await parseTicketNumbers(hre, args.address, String(args.numbers), false);
+    await approvePayment(contract, args.token, tickets.length);
+
+    const { receipt, ticketIndices } = await buyTicket(contract, backend, tickets[0]);
+    console.log(`Ticket purchase tx: ${receipt.hash} status=${receipt.status}`);
+    console.log(`Ticket index: ${ticketIndices[0]}`);
+  });
+
+task("luckyball:buy-many", "Buy several LuckyBall tickets with a single encrypted input")
+  .addParam("numbers", "Comma-separated plain numbers, consecutive groups of the draw's pick count form one ticket")
+  .addOptionalParam("token", "ERC-20 the active draw is paid in; approves the treasury to take the ticket prices")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { contract, tickets, backend } = await parseTicketNumbers(hre, args.address, String(args.numbers), true);
+    await approvePayment(contract, args.token, tickets.length);
+
+    const { receipt, ticketIndices } = await buyTickets(contract, backend, tickets);
+    console.log(`Purchase of ${tickets.length} ticket(s) tx: ${receipt.hash} status=${receipt.status}`);
+    console.log(`Ticket indices: ${ticketIndices.join(", ")}`);
+  });
+
+task("luckyball:draw", "Close the current LuckyBall draw and request its randomness")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const { receipt, drawId, requestId } = await executeDraw(contract);
+    console.log(`Draw request tx: ${receipt.hash} status=${receipt.status}`);
+    console.log(`Draw #${drawId} awaiting randomness request #${requestId} (luckyball:fulfill)`);
+  });
+
+task("luckyball:fulfill", "Fulfil the randomness request of a closed draw")
+  .addOptionalParam("draw", "Draw id to settle (defaults to the last closed draw)")
+  .addOptionalParam("randomness", "Random word for VRF or mock providers; FHE randomness is revealed when omitted")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments, fhevm } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const drawId = args.draw !== undefined ? BigInt(args.draw) : (await contract.currentDrawId()) - 1n;
+    const draw = await contract.getDraw(drawId);
+    if (!draw.requested) {
+      throw new Error(`Draw #${drawId} has not been closed yet (luckyball:draw)`);
+    }
+    if (draw.executed) {
+      console.log(`Draw #${drawId} already executed, winning numbers ${draw.winningNumbers.join(", ")}`);
+      return;
+    }
+
+    const providerAddress = await contract.randomnessProvider();
+
+    let tx;
+    if (args.randomness !== undefined) {
+      const provider = await hre.ethers.getContractAt("VRFRandomnessProvider", providerAddress);
+      tx = await provider.connect(signer).fulfillRandomness(draw.requestId, BigInt(args.randomness));
+    } else {
+      await fhevm.initializeCLIApi();
+      const provider = await hre.ethers.getContractAt("FHERandomnessProvider", providerAddress);
+      const handle = await provider.getEncryptedRandomness(draw.requestId);
+      const decrypted = await fhevm.publicDecrypt([handle]);
+      tx = await provider
+        .connect(signer)
+        .revealRandomness(draw.requestId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+    }
+
+    const receipt = await tx.wait();
+    const [settled] = decodeDrawExecuted(receipt);
+    console.log(`Randomness fulfilment tx: ${tx.hash} status=${receipt?.status}`);
+    console.log(`Draw #${drawId} winning numbers: ${settled.winningNumbers.join(", ")}`);
+    console.log(`Draw #${drawId} jackpot: ${settled.jackpot} points`);
+  });
+
+task("luckyball:keeper", "Watch the active draw and execute it on a cadence or once enough tickets are sold")
+  .addOptionalParam("cadence", "Seconds a draw stays open before it is executed (0 follows the draw schedule only)")
+  .addOptionalParam("tickets", "Execute as soon as this many tickets are sold (0 disables the threshold)")
+  .addOptionalParam("interval", "Milliseconds between checks", String(DEFAULT_KEEPER_OPTIONS.pollInterval))
+  .addOptionalParam(
+    "retries",
+    "Replacement transactions sent for a stalled draw",
+    String(DEFAULT_KEEPER_OPTIONS.maxRetries),
+  )
+  .addOptionalParam(
+    "gasBump",
+    "Percentage added to the fees on every retry",
+    String(DEFAULT_KEEPER_OPTIONS.gasBumpPercent),
+  )
+  .addOptionalParam(
+    "confirmTimeout",
+    "Milliseconds to wait for a transaction before replacing it",
+    String(DEFAULT_KEEPER_OPTIONS.confirmTimeout),
+  )
+  .addOptionalParam("port", "Port serving /health and /metrics", "4100")
+  .addFlag("once", "Check the draw a single time and exit")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address, signer);
+
+    if (!(await contract.isOperator(signer.address))) {
+      throw new Error(`${signer.address} is not an operator of ${deployment.address}`);
+    }
+
+    const keeper = new DrawKeeper(contract, {
+      cadence: Number(args.cadence ?? 0),
+      ticketThreshold: Number(args.tickets ?? 0),
+      pollInterval: Number(args.interval),
+      maxRetries: Number(args.retries),
+      gasBumpPercent: Number(args.gasBump),
+      confirmTimeout: Number(args.confirmTimeout),
+    });
+
+    if (args.once) {
+      const result = await keeper.check();
+      console.log(
+        result.action === "executed"
+          ? `Executed draw #${result.drawId} tx: ${result.receipt.hash} (request #${result.requestId})`
+          : `Draw #${result.drawId} not executed: ${result.reason}`,
+      );
+      return;
+    }
+
+    const server = createHealthServer(keeper).listen(Number(args.port));
+    keeper.start();
+    console.log(`Keeper watching ${deployment.address} as ${signer.address}, health on http://localhost:${args.port}`);
+
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", () => {
+        keeper.stop();
+        server.close(() => resolve());
+      });
+    });
+  });
+
+task("luckyball:score", "Decrypt the caller score")
   .addOptionalParam("address", "Optional LuckyBall contract address")
   .setAction(async (args: TaskArguments, hre) => {
-    const choice = Number(args.number);
-    if (!Number.isInteger(choice) || choice < 1 || choice > 9) {
-      throw new Error("--number must be an integer between 1 and 9");
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const encryptedScore = await contract.getScore(signer.address);
+    if (encryptedScore === ZeroHash) {
+      console.log("Encrypted score: 0 (no tickets yet)");
+      return;
     }
 
+    const clearScore = await decryptScore(contract, await hardhatBackend(hre.fhevm));
+
+    console.log(`Encrypted score: ${encryptedScore}`);
+    console.log(`Clear score    : ${clearScore}`);
+  });
+
+task("luckyball:reveal-score", "Reveal the caller score publicly and publish it to the leaderboard")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
     const { deployments, fhevm } = hre;
     await fhevm.initializeCLIApi();
 
     const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
     const [signer] = await hre.ethers.getSigners();
     const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+    const points = await hre.ethers.getContractAt("LuckyBallPoints", await contract.points());
 
-    const encrypted = await fhevm
-      .createEncryptedInput(deployment.address, signer.address)
-      .add8(choice)
-      .encrypt();
+    const revealTx = await points.connect(signer).revealScore();
+    await revealTx.wait();
 
-    const tx = await contract
+    const handle = await points.getRevealedScore(signer.address);
+    const decrypted = await fhevm.publicDecrypt([handle]);
+    const tx = await points
       .connect(signer)
-      .buyTicket(encrypted.handles[0], encrypted.inputProof, { value: TICKET_PRICE });
+      .publishScore(signer.address, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
     const receipt = await tx.wait();
-    console.log(`Ticket purchase tx: ${tx.hash} status=${receipt?.status}`);
+    console.log(`Publish score tx: ${tx.hash} status=${receipt?.status}`);
+    console.log(`Published score: ${await points.publishedScores(signer.address)}`);
   });
 
-task("luckyball:draw", "Execute the current LuckyBall draw")
+task("luckyball:leaderboard", "Print the ranking of published player scores")
+  .addOptionalParam("limit", "Number of entries to print", "10")
   .addOptionalParam("address", "Optional LuckyBall contract address")
   .setAction(async (args: TaskArguments, hre) => {
+    const limit = Number(args.limit);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error("--limit must be a positive integer");
+    }
+
     const { deployments } = hre;
     const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
-    const [caller] = await hre.ethers.getSigners();
     const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+    const points = await hre.ethers.getContractAt("LuckyBallPoints", await contract.points());
 
-    const tx = await contract.connect(caller).executeDraw();
-    const receipt = await tx.wait();
-    console.log(`Draw execution tx: ${tx.hash} status=${receipt?.status}`);
+    const ranking = await points.getLeaderboard(limit);
+    const players = await contract.getPlayers();
+    if (ranking.length === 0) {
+      console.log(`No published scores yet (${players.length} registered player(s))`);
+      return;
+    }
+
+    ranking.forEach((entry, position) => {
+      console.log(`#${position + 1}  ${entry.player}  ${entry.score} pts`);
+    });
+    console.log(`${ranking.length} of ${players.length} registered player(s) ranked`);
   });
 
-task("luckyball:score", "Decrypt the caller score")
+task("luckyball:transfer-points", "Confidentially transfer LuckyBall points to another player")
+  .addParam("to", "Recipient address")
+  .addParam("amount", "Points to transfer; nothing moves if the balance does not cover them")
   .addOptionalParam("address", "Optional LuckyBall contract address")
   .setAction(async (args: TaskArguments, hre) => {
+    const amount = Number(args.amount);
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error("--amount must be a positive integer");
+    }
+
     const { deployments, fhevm } = hre;
     await fhevm.initializeCLIApi();
 
     const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
     const [signer] = await hre.ethers.getSigners();
     const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+    const pointsAddress = await contract.points();
+    const points = await hre.ethers.getContractAt("LuckyBallPoints", pointsAddress);
 
-    const encryptedScore = await contract.getScore(signer.address);
-    if (encryptedScore === ZeroHash) {
-      console.log("Encrypted score: 0 (no tickets yet)");
+    const encrypted = await fhevm.createEncryptedInput(pointsAddress, signer.address).add64(amount).encrypt();
+    const tx = await points
+      .connect(signer)
+      ["confidentialTransfer(address,bytes32,bytes)"](args.to as string, encrypted.handles[0], encrypted.inputProof);
+    const receipt = await tx.wait();
+    console.log(`Transfer points tx: ${tx.hash} status=${receipt?.status}`);
+  });
+
+task("luckyball:claim", "Claim a ticket by index")
+  .addParam("index", "Ticket index to claim")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const index = Number(args.index);
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error("--index must be a non-negative integer");
+    }
+
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const { receipt } = await claimTicket(contract, index);
+    console.log(`Claim ticket tx: ${receipt.hash} status=${receipt.status}`);
+  });
+
+task("luckyball:claim-all", "Claim every unclaimed ticket of a draw")
+  .addOptionalParam("draw", "Draw id to claim (defaults to the last executed draw)")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const drawId = args.draw !== undefined ? BigInt(args.draw) : (await contract.currentDrawId()) - 1n;
+    const tx = await contract.connect(signer).claimAllForDraw(drawId);
+    const receipt = await tx.wait();
+    console.log(`Claim all tx: ${tx.hash} status=${receipt?.status}`);
+    console.log(`Claimed ${decodeTicketClaimProcessed(receipt).length} ticket(s) of draw #${drawId}`);
+  });
+
+task("luckyball:auto-claim", "Let relayers claim the caller's tickets, or stop them with --disable")
+  .addFlag("disable", "Opt out of auto-claims")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const tx = await contract.connect(signer).setAutoClaim(!args.disable);
+    const receipt = await tx.wait();
+    console.log(`Auto-claim tx: ${tx.hash} status=${receipt?.status}`);
+    console.log(`Auto-claim ${args.disable ? "disabled" : "enabled"} for ${signer.address}`);
+  });
+
+task("luckyball:claim-relayer", "Claim open tickets of opted-in players whenever a draw executes")
+  .addOptionalParam(
+    "batchSize",
+    "Most tickets claimed per transaction",
+    String(DEFAULT_CLAIM_RELAYER_OPTIONS.batchSize),
+  )
+  .addFlag("once", "Claim what is open now and exit")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address, signer);
+    const relayer = new ClaimRelayer(contract, { batchSize: Number(args.batchSize) });
+
+    if (args.once) {
+      const claims = await relayer.claimOpenTickets();
+      for (const claim of claims) {
+        console.log(
+          `Claimed ticket(s) ${claim.ticketIndices.join(", ")} of ${claim.player} tx: ${claim.transactionHash}`,
+        );
+      }
+      console.log(`${claims.length} claim transaction(s) sent`);
       return;
     }
 
-    const clearScore = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedScore,
-      deployment.address,
-      signer,
+    await relayer.start();
+    console.log(`Claim relayer watching ${deployment.address} as ${signer.address}`);
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", () => {
+        void relayer.stop().then(resolve);
+      });
+    });
+  });
+
+task("luckyball:purchase-relayer", "Serve sponsored ticket purchases in token-priced draws, paying gas for players")
+  .addOptionalParam("port", "Port of the POST /purchases endpoint the UI submits to", "4200")
+  .addOptionalParam(
+    "maxTickets",
+    "Most tickets sponsored per request",
+    String(DEFAULT_PURCHASE_RELAYER_OPTIONS.maxTicketsPerRequest),
+  )
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address, signer);
+
+    const forwarderAddress = await contract.trustedForwarder();
+    if (forwarderAddress === ZeroAddress) {
+      throw new Error("LuckyBall was deployed without a trusted forwarder");
+    }
+    const forwarder = await hre.ethers.getContractAt("LuckyBallForwarder", forwarderAddress, signer);
+    const relayer = new PurchaseRelayer(contract, forwarder, { maxTicketsPerRequest: Number(args.maxTickets) });
+
+    const server = createRelayServer(relayer).listen(Number(args.port));
+    console.log(`Purchase relayer for ${deployment.address} on http://localhost:${args.port} as ${signer.address}`);
+    console.log(
+      `Sponsoring from a balance of ${formatEther(await hre.ethers.provider.getBalance(signer.address))} ETH`,
     );
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", () => server.close(() => resolve()));
+    });
+  });
 
-    console.log(`Encrypted score: ${encryptedScore}`);
-    console.log(`Clear score    : ${clearScore}`);
+task("luckyball:payout", "Confirm a claimed winning ticket or collect its share of the prize pool")
+  .addParam("index", "Ticket index to settle")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const index = Number(args.index);
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error("--index must be a non-negative integer");
+    }
+
+    const { deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const [ticket] = await contract.getTicketsPage(signer.address, index, 1);
+    if (!ticket) {
+      throw new Error(`Ticket #${index} not found`);
+    }
+    if (!ticket.claimed) {
+      throw new Error(`Ticket #${index} must be claimed first (luckyball:claim)`);
+    }
+
+    const draw = await contract.getDraw(ticket.drawId);
+    const settlementEnd = draw.executedAt + (await contract.SETTLEMENT_PERIOD());
+
+    if (!ticket.won) {
+      const decrypted = await fhevm.publicDecrypt([ticket.outcome]);
+      if (!decrypted.clearValues[ticket.outcome as `0x${string}`]) {
+        console.log(`Ticket #${index} did not win draw #${ticket.drawId}`);
+        return;
+      }
+
+      const tx = await contract
+        .connect(signer)
+        .confirmWin(index, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+      const receipt = await tx.wait();
+      console.log(`Confirm win tx: ${tx.hash} status=${receipt?.status}`);
+      console.log(`Prize collectable after ${new Date(Number(settlementEnd) * 1000).toISOString()}`);
+      return;
+    }
+
+    if (ticket.paid) {
+      console.log(`Ticket #${index} prize already paid`);
+      return;
+    }
+
+    const tx = await contract.connect(signer).collectPrize(index);
+    const receipt = await tx.wait();
+    console.log(`Collect prize tx: ${tx.hash} status=${receipt?.status}`);
+    console.log(`Prize share: ${formatAmount(draw.pot / draw.winners, draw.paymentToken)}`);
   });
 
-task("luckyball:claim", "Claim a ticket by index")
-  .addParam("index", "Ticket index to claim")
+task("luckyball:cancel-draw", "Abandon a draw whose randomness is unrequested or stuck so its tickets can be refunded")
+  .addOptionalParam("draw", "Draw id to cancel (defaults to the active draw)")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const drawId = args.draw !== undefined ? BigInt(args.draw) : await contract.currentDrawId();
+    const tx = await contract.connect(signer).cancelDraw(drawId);
+    const receipt = await tx.wait();
+    console.log(`Cancel draw tx: ${tx.hash} status=${receipt?.status}`);
+    console.log(`Draw #${drawId} cancelled; ${(await contract.getDraw(drawId)).ticketCount} ticket(s) to refund`);
+  });
+
+task("luckyball:refund", "Refund a ticket of a cancelled draw, or of a draw stuck without randomness")
+  .addParam("index", "Ticket index to refund")
   .addOptionalParam("address", "Optional LuckyBall contract address")
   .setAction(async (args: TaskArguments, hre) => {
     const index = Number(args.index);
@@ -93,7 +521,402 @@ task("luckyball:claim", "Claim a ticket by index")
     const [signer] = await hre.ethers.getSigners();
     const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
 
-    const tx = await contract.connect(signer).claimTicket(index);
+    const [ticket] = await contract.getTicketsPage(signer.address, index, 1);
+    if (!ticket) {
+      throw new Error(`Ticket #${index} not found`);
+    }
+    if (ticket.refunded) {
+      console.log(`Ticket #${index} already refunded`);
+      return;
+    }
+
+    // Tickets of draws that were not cancelled can only use the emergency conditions
+    const { cancelled, paymentToken } = await contract.getDraw(ticket.drawId);
+    const tx = await (cancelled
+      ? contract.connect(signer).refundTicket(index)
+      : contract.connect(signer).emergencyRefund(index));
+    const receipt = await tx.wait();
+    console.log(`Refund tx: ${tx.hash} status=${receipt?.status}`);
+
+    // A bitmask draw refunds every purchase its shared ticket holds, so the amount comes from the event
+    const [{ amount }] = decodeTicketRefunded(receipt);
+    console.log(`Refunded ${formatAmount(amount, paymentToken)} for ticket #${index} of draw #${ticket.drawId}`);
+  });
+
+task("luckyball:redeem", "Redeem encrypted score points, or settle a pending redemption")
+  .addOptionalParam("points", "Points to redeem; omit to settle the pending redemption")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const lottery = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+    const pointsAddress = await lottery.points();
+    const contract = await hre.ethers.getContractAt("LuckyBallPoints", pointsAddress);
+
+    if (args.points !== undefined) {
+      const points = Number(args.points);
+      if (!Number.isInteger(points) || points <= 0) {
+        throw new Error("--points must be a positive integer");
+      }
+
+      const encrypted = await fhevm.createEncryptedInput(pointsAddress, signer.address).add32(points).encrypt();
+      const tx = await contract.connect(signer).redeem(encrypted.handles[0], encrypted.inputProof);
+      const receipt = await tx.wait();
+      console.log(`Redeem tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    const redemption = await contract.getPendingRedemption(signer.address);
+    if (redemption.amount === ZeroHash) {
+      console.log("No pending redemption");
+      return;
+    }
+
+    const decrypted = await fhevm.publicDecrypt([redemption.amount]);
+    const points = decrypted.clearValues[redemption.amount as `0x${string}`] as bigint;
+    if (points === 0n) {
+      console.log("Score did not cover the requested points, nothing was redeemed");
+    }
+
+    const tx = await contract
+      .connect(signer)
+      .finalizeRedemption(decrypted.abiEncodedClearValues, decrypted.decryptionProof);
     const receipt = await tx.wait();
-    console.log(`Claim ticket tx: ${tx.hash} status=${receipt?.status}`);
+    const payout = points * redemption.pointValue;
+    console.log(`Finalize redemption tx: ${tx.hash} status=${receipt?.status}`);
+    console.log(`Redeemed ${points} point(s) for ${formatAmount(payout, redemption.token)}`);
+  });
+
+task("luckyball:redemption-terms", "Show or update the redemption rate and fund its reserve")
+  .addOptionalParam("token", "ERC-20 token paid out for points (zero address or omitted for ETH)")
+  .addOptionalParam("pointValue", "Amount of the asset, in base units, paid per point")
+  .addOptionalParam("fund", "Amount of the asset, in base units, to add to the reserve")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const lottery = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+    const pointsAddress = await lottery.points();
+    const contract = await hre.ethers.getContractAt("LuckyBallPoints", pointsAddress);
+
+    const token = (args.token as string | undefined) ?? (await contract.redemptionToken());
+    if (args.pointValue !== undefined) {
+      const tx = await contract.connect(signer).setRedemptionTerms(token, BigInt(args.pointValue));
+      const receipt = await tx.wait();
+      console.log(`Redemption terms tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    if (args.fund !== undefined) {
+      const amount = BigInt(args.fund);
+      if (token !== ZeroAddress) {
+        const erc20 = await hre.ethers.getContractAt("IERC20", token);
+        await (await erc20.connect(signer).approve(pointsAddress, amount)).wait();
+      }
+      const tx = await contract
+        .connect(signer)
+        .fundRedemptions(token, amount, { value: token === ZeroAddress ? amount : 0n });
+      const receipt = await tx.wait();
+      console.log(`Fund redemptions tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    const redemptionToken = await contract.redemptionToken();
+    console.log(`Redemption token : ${redemptionToken === ZeroAddress ? "ETH" : redemptionToken}`);
+    console.log(`Value per point  : ${await contract.pointValue()}`);
+    console.log(`Reserve          : ${await contract.redemptionReserves(redemptionToken)}`);
+  });
+
+task("luckyball:ticket-price", "Show or update the payment token and price of LuckyBall tickets")
+  .addOptionalParam("token", "ERC-20 token tickets are paid in (zero address or omitted for ETH)")
+  .addOptionalParam("price", "Ticket price in base units of the token; 0 with ETH restores TICKET_PRICE")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    if (args.price !== undefined) {
+      const tx = await contract.connect(signer).setPaymentToken(args.token ?? ZeroAddress, BigInt(args.price));
+      const receipt = await tx.wait();
+      console.log(`Payment token tx: ${tx.hash} status=${receipt?.status}`);
+    } else if (args.token !== undefined) {
+      throw new Error("--token requires --price");
+    }
+
+    // The active draw keeps its price once tickets are sold; the default applies from the next draw on
+    const drawId = await contract.currentDrawId();
+    const { token, price } = await getTicketPayment(contract, drawId);
+    console.log(`Ticket price      : ${formatAmount(price, token)} in draw #${drawId}`);
+    const defaultToken = await contract.defaultPaymentToken();
+    const defaultPrice = await contract.defaultTicketPrice();
+    console.log(
+      `Next draws        : ${formatAmount(defaultPrice === 0n ? await contract.TICKET_PRICE() : defaultPrice, defaultToken)}`,
+    );
+    console.log(`Treasury          : ${await contract.treasury()}`);
+  });
+
+task("luckyball:limits", "Show or update the ticket caps and the unique-number rule of LuckyBall draws")
+  .addOptionalParam("perPlayer", "Tickets each player may buy per draw (0 for no cap)")
+  .addOptionalParam("perDraw", "Tickets each draw may sell (0 for no cap)")
+  .addFlag("unique", "Void tickets repeating a number their player already picked in the draw")
+  .addFlag("allowRepeats", "Let players pick a number again within a draw")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    if (args.unique && args.allowRepeats) {
+      throw new Error("Use either --unique or --allow-repeats, not both");
+    }
+    if (args.perPlayer !== undefined || args.perDraw !== undefined || args.unique || args.allowRepeats) {
+      const current = await contract.defaultLimits();
+      const perPlayer = args.perPlayer !== undefined ? Number(args.perPlayer) : current.perPlayer;
+      const perDraw = args.perDraw !== undefined ? Number(args.perDraw) : current.perDraw;
+      const uniqueNumbers = args.unique || (!args.allowRepeats && current.uniqueNumbers);
+      const tx = await contract.connect(signer).setPurchaseLimits(perPlayer, perDraw, uniqueNumbers);
+      const receipt = await tx.wait();
+      console.log(`Purchase limits tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    const cap = (value: bigint) => (value === 0n ? "unlimited" : value.toString());
+    const drawId = await contract.currentDrawId();
+    const { limits } = await contract.getDraw(drawId);
+    console.log(`Per player     : ${cap(limits.perPlayer)} ticket(s) in draw #${drawId}`);
+    console.log(`Per draw       : ${cap(limits.perDraw)} ticket(s)`);
+    console.log(`Unique numbers : ${limits.uniqueNumbers}`);
+    const next = await contract.defaultLimits();
+    console.log(
+      `Next draws     : ${cap(next.perPlayer)} per player, ${cap(next.perDraw)} per draw, unique numbers ${next.uniqueNumbers}`,
+    );
+  });
+
+task("luckyball:ticket-mode", "Show or switch between a ticket per purchase and one encrypted bitmap per player")
+  .addFlag("bitmask", "Keep each player's numbers in one encrypted bitmap (single-pick draws up to 31)")
+  .addFlag("tickets", "Store a ticket with its own encrypted numbers for every purchase")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    if (args.bitmask && args.tickets) {
+      throw new Error("Use either --bitmask or --tickets, not both");
+    }
+    if (args.bitmask || args.tickets) {
+      const tx = await contract.connect(signer).setTicketMode(Boolean(args.bitmask));
+      const receipt = await tx.wait();
+      console.log(`Ticket mode tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    const mode = (bitmask: boolean) => (bitmask ? "bitmask" : "tickets");
+    const drawId = await contract.currentDrawId();
+    const { config } = await contract.getDraw(drawId);
+    console.log(`Active draw : ${mode(config.bitmask)} (#${drawId})`);
+    console.log(`Next draws  : ${mode((await contract.getDefaultConfig()).bitmask)}`);
+  });
+
+task("luckyball:treasury", "Show or update the operator fee, withdraw accrued fees, or pause ticket sales and draws")
+  .addOptionalParam("fee", "Operator fee in basis points taken from the ticket sales of each executed draw")
+  .addOptionalParam("recipient", "Address the fees are withdrawn to (defaults to the current recipient)")
+  .addFlag("withdraw", "Withdraw the accrued fees of --token, or of ETH, to the fee recipient")
+  .addOptionalParam("token", "ERC-20 token whose fees to withdraw and show (omitted for ETH)")
+  .addFlag("pause", "Stop ticket sales and draw execution; unexecuted draws become refundable")
+  .addFlag("unpause", "Resume ticket sales and draw execution")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+    const treasury = await hre.ethers.getContractAt("LuckyBallTreasury", await contract.treasury());
+
+    if (args.pause && args.unpause) {
+      throw new Error("Use either --pause or --unpause, not both");
+    }
+    if (args.pause || args.unpause) {
+      const tx = await (args.pause ? contract.connect(signer).pause() : contract.connect(signer).unpause());
+      const receipt = await tx.wait();
+      console.log(`${args.pause ? "Pause" : "Unpause"} tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    if (args.fee !== undefined) {
+      const recipient = (args.recipient as string | undefined) ?? (await treasury.feeRecipient());
+      const tx = await treasury.connect(signer).setFee(Number(args.fee), recipient);
+      const receipt = await tx.wait();
+      console.log(`Fee tx: ${tx.hash} status=${receipt?.status}`);
+    } else if (args.recipient !== undefined) {
+      throw new Error("--recipient requires --fee");
+    }
+
+    const token = (args.token as string | undefined) ?? ZeroAddress;
+    if (args.withdraw) {
+      const tx = await treasury.connect(signer).withdrawFees(token);
+      const receipt = await tx.wait();
+      console.log(`Withdraw fees tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    console.log(`Treasury       : ${await treasury.getAddress()}`);
+    console.log(`Paused         : ${await contract.paused()}`);
+    console.log(`Operator fee   : ${await treasury.feeBps()} bps to ${await treasury.feeRecipient()}`);
+    console.log(`Accrued fees   : ${formatAmount(await treasury.accruedFees(token), token)}`);
+  });
+
+task("luckyball:schedule", "Show or update the schedule of the active LuckyBall draw")
+  .addOptionalParam("duration", "Seconds from now until ticket sales close (0 keeps sales open-ended)")
+  .addOptionalParam("closeAt", "Unix timestamp at which ticket sales close")
+  .addOptionalParam("minTickets", "Minimum number of tickets required before the draw can be executed")
+  .addFlag("default", "Also apply the duration and minimum to every newly opened draw")
+  .addOptionalParam("claimWindow", "Seconds claims stay open after newly opened draws execute (0 never expires)")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments } = hre;
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const drawId = await contract.currentDrawId();
+    const current = await contract.getDraw(drawId);
+
+    if (args.duration !== undefined && args.closeAt !== undefined) {
+      throw new Error("Use either --duration or --close-at, not both");
+    }
+    if (args.default && args.duration === undefined) {
+      throw new Error("--default requires --duration");
+    }
+
+    const minTickets = args.minTickets !== undefined ? BigInt(args.minTickets) : current.minTickets;
+    let salesCloseAt = current.salesCloseAt;
+    if (args.closeAt !== undefined) {
+      salesCloseAt = BigInt(args.closeAt);
+    } else if (args.duration !== undefined) {
+      const duration = BigInt(args.duration);
+      const latest = await hre.ethers.provider.getBlock("latest");
+      salesCloseAt = duration === 0n ? 0n : BigInt(latest!.timestamp) + duration;
+    }
+
+    if (args.duration !== undefined || args.closeAt !== undefined || args.minTickets !== undefined) {
+      const tx = await contract.connect(signer).scheduleDraw(salesCloseAt, minTickets);
+      const receipt = await tx.wait();
+      console.log(`Schedule draw tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    if (args.default) {
+      const tx = await contract.connect(signer).setDefaultSchedule(BigInt(args.duration), minTickets);
+      const receipt = await tx.wait();
+      console.log(`Default schedule tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    if (args.claimWindow !== undefined) {
+      const tx = await contract.connect(signer).setClaimWindow(BigInt(args.claimWindow));
+      const receipt = await tx.wait();
+      console.log(`Claim window tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    const draw = await contract.getDraw(drawId);
+    const closes = draw.salesCloseAt === 0n ? "open-ended" : new Date(Number(draw.salesCloseAt) * 1000).toISOString();
+    console.log(`Draw #${drawId} sales close : ${closes}`);
+    console.log(`Draw #${drawId} tickets     : ${draw.ticketCount} sold, ${draw.minTickets} required`);
+    console.log(`Draw #${drawId} jackpot     : ${jackpotOf(normalizeDraw(draw))} points`);
+    console.log(
+      `Default schedule    : ${await contract.defaultSalesDuration()}s, ${await contract.defaultMinTickets()} tickets`,
+    );
+    console.log(`Claim window        : ${await contract.defaultClaimWindow()}s after execution`);
+  });
+
+task(
+  "luckyball:expire",
+  "Expire unclaimed tickets and roll over unwon pots and jackpots of draws whose claim window closed",
+)
+  .addOptionalParam("draw", "Only process this draw id")
+  .addFlag("dryRun", "Print what would be expired without sending transactions")
+  .addOptionalParam("address", "Optional LuckyBall contract address")
+  .setAction(async (args: TaskArguments, hre) => {
+    const { deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = args.address ? { address: args.address as string } : await deployments.get(CONTRACT_NAME);
+    const [signer] = await hre.ethers.getSigners();
+    const contract = await hre.ethers.getContractAt(CONTRACT_NAME, deployment.address);
+
+    const latest = await hre.ethers.provider.getBlock("latest");
+    const now = BigInt(latest!.timestamp);
+    const lastId = (await contract.currentDrawId()) - 1n;
+    const drawIds =
+      args.draw !== undefined ? [BigInt(args.draw)] : Array.from({ length: Number(lastId) }, (_, i) => BigInt(i + 1));
+
+    const closed = new Map<bigint, Awaited<ReturnType<typeof contract.getDraw>>>();
+    for (const drawId of drawIds) {
+      const draw = await contract.getDraw(drawId);
+      if (draw.executed && draw.claimWindow !== 0n && now > draw.executedAt + draw.claimWindow) {
+        closed.set(drawId, draw);
+      }
+    }
+    if (closed.size === 0) {
+      console.log("No draw has a closed claim window");
+      return;
+    }
+
+    const { token: activeToken } = await getTicketPayment(contract);
+    let expired = 0;
+    for (const player of await contract.getPlayers()) {
+      const indices: bigint[] = [];
+      for (const drawId of closed.keys()) {
+        const [drawIndices, tickets] = await contract.getTicketsByDraw(player, drawId);
+        tickets.forEach((ticket, i) => {
+          if (!ticket.claimed && !ticket.expired && !ticket.refunded) {
+            indices.push(drawIndices[i]);
+          }
+        });
+      }
+      if (indices.length === 0) {
+        continue;
+      }
+
+      expired += indices.length;
+      if (args.dryRun) {
+        console.log(`${player}: would expire ticket(s) ${indices.join(", ")}`);
+        continue;
+      }
+      const tx = await contract.connect(signer).expireTickets(player, indices);
+      const receipt = await tx.wait();
+      console.log(`Expire ${indices.length} ticket(s) of ${player} tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    for (const [drawId, draw] of closed) {
+      // Publishing a tally without winners is what carries the jackpot over to the active draw
+      if (!draw.tallyPublished) {
+        if (args.dryRun) {
+          console.log(`Draw #${drawId}: would publish its winner tally`);
+        } else {
+          const winningTickets = await publishWinnerTally(contract.connect(signer), fhevm, drawId);
+          const rolled =
+            winningTickets === 0 ? `, jackpot of ${jackpotOf(normalizeDraw(draw))} points rolled over` : "";
+          console.log(`Draw #${drawId}: ${winningTickets} winning ticket(s)${rolled}`);
+        }
+      }
+
+      if (draw.winners !== 0n || draw.pot === 0n) {
+        continue;
+      }
+      const pot = formatAmount(draw.pot, draw.paymentToken);
+      if (draw.paymentToken !== activeToken) {
+        console.log(`Draw #${drawId}: ${pot} stays put, the active draw is paid in another token`);
+        continue;
+      }
+      if (args.dryRun) {
+        console.log(`Draw #${drawId}: would roll over ${pot}`);
+        continue;
+      }
+      const tx = await contract.connect(signer).rollOverPot(drawId);
+      const receipt = await tx.wait();
+      console.log(`Roll over ${pot} of draw #${drawId} tx: ${tx.hash} status=${receipt?.status}`);
+    }
+
+    console.log(`${expired} ticket(s) ${args.dryRun ? "to expire" : "expired"} across ${closed.size} closed draw(s)`);
   });
@@ -0,0 +1,77 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Contracts exposed by luckyball-sdk; their factories carry the ABIs the UI reads with
+const SDK_CONTRACTS = ["LuckyBall", "LuckyBallPoints", "LuckyBallForwarder", "FHERandomnessProvider"];
+const SDK_BINDINGS_DIR = "sdk/src/generated";
+
+// typechain's own typings need skipLibCheck, so only the runner used here is declared
+type RunTypeChain = (options: {
+  cwd: string;
+  filesToProcess: string[];
+  allFiles: string[];
+  outDir: string;
+  target: string;
+}) => Promise<{ filesGenerated: number }>;
+
+async function generateSdkBindings(hre: HardhatRuntimeEnvironment, force: boolean) {
+  const outDir = path.join(hre.config.paths.root, SDK_BINDINGS_DIR);
+  const artifactPaths = (await hre.artifacts.getArtifactPaths()).filter((artifactPath) =>
+    SDK_CONTRACTS.includes(path.basename(artifactPath, ".json")),
+  );
+
+  const upToDate = SDK_CONTRACTS.every((contractName) => {
+    const factory = path.join(outDir, "factories", `${contractName}__factory.ts`);
+    const artifact = artifactPaths.find((artifactPath) => path.basename(artifactPath, ".json") === contractName);
+    return artifact && fs.existsSync(factory) && fs.statSync(factory).mtimeMs >= fs.statSync(artifact).mtimeMs;
+  });
+  if (upToDate && !force) {
+    return false;
+  }
+
+  // ABI-only inputs keep the generated factories free of deployment bytecode
+  const abiDir = fs.mkdtempSync(path.join(os.tmpdir(), "luckyball-sdk-"));
+  try {
+    const files = [];
+    for (const contractName of SDK_CONTRACTS) {
+      const { abi } = await hre.artifacts.readArtifact(contractName);
+      const file = path.join(abiDir, `${contractName}.json`);
+      fs.writeFileSync(file, JSON.stringify({ contractName, abi }));
+      files.push(file);
+    }
+
+    const { runTypeChain } = (await import("typechain" as string)) as { runTypeChain: RunTypeChain };
+    fs.rmSync(outDir, { recursive: true, force: true });
+    await runTypeChain({
+      cwd: hre.config.paths.root,
+      filesToProcess: files,
+      allFiles: files,
+      outDir,
+      target: "ethers-v6",
+    });
+  } finally {
+    fs.rmSync(abiDir, { recursive: true, force: true });
+  }
+  return true;
+}
+
+// Keep the SDK bindings in step with the contracts on every compilation
+task(TASK_COMPILE).setAction(async (args, hre, runSuper) => {
+  const result = await runSuper(args);
+  if ((await generateSdkBindings(hre, false)) && !args.quiet) {
+    console.log(`Generated luckyball-sdk bindings in ${SDK_BINDINGS_DIR}`);
+  }
+  return result;
+});
+
+task("luckyball:sdk", "Regenerate the luckyball-sdk contract bindings from the compiled artifacts").setAction(
+  async (_args, hre) => {
+    await hre.run(TASK_COMPILE, { quiet: true });
+    await generateSdkBindings(hre, true);
+    console.log(`Generated luckyball-sdk bindings in ${SDK_BINDINGS_DIR}`);
+  },
+);
@@ -1,8 +1,21 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers, fhevm } from "hardhat";
-import { LuckyBall, LuckyBall__factory } from "../types";
+import {
+  LuckyBall,
+  LuckyBallForwarder,
+  LuckyBallForwarder__factory,
+  LuckyBallPoints,
+  LuckyBallTreasury,
+  MockERC20,
+  MockERC20__factory,
+  MockRandomnessProvider,
+  MockRandomnessProvider__factory,
+} from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import * as sdk from "../sdk/src";
+import { deployLuckyBall } from "./fixtures";
 
 const TICKET_PRICE = ethers.parseEther("0.001");
 
@@ -13,17 +26,60 @@ type Signers = {
 };
 
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("LuckyBall")) as LuckyBall__factory;
-  const contract = (await factory.deploy()) as LuckyBall;
-  const contractAddress = await contract.getAddress();
+  const providerFactory = (await ethers.getContractFactory(
+    "MockRandomnessProvider",
+  )) as MockRandomnessProvider__factory;
+  const provider = (await providerFactory.deploy()) as MockRandomnessProvider;
 
-  return { contract, contractAddress };
+  return { provider, ...(await deployLuckyBall(await provider.getAddress())) };
+}
+
+async function buyTicket(
+  contract: LuckyBall,
+  _contractAddress: string,
+  player: HardhatEthersSigner,
+  numbers: number | number[],
+) {
+  const { ticketIndices } = await sdk.buyTicket(contract.connect(player), fhevm, ([] as number[]).concat(numbers));
+  return ticketIndices[0];
+}
+
+async function buyTickets(
+  contract: LuckyBall,
+  _contractAddress: string,
+  player: HardhatEthersSigner,
+  tickets: (number | number[])[],
+) {
+  const { ticketIndices } = await sdk.buyTickets(
+    contract.connect(player),
+    fhevm,
+    tickets.map((numbers) => ([] as number[]).concat(numbers)),
+  );
+  return ticketIndices;
+}
+
+async function executeDraw(
+  contract: LuckyBall,
+  provider: MockRandomnessProvider,
+  caller: HardhatEthersSigner,
+  randomness: bigint | number,
+) {
+  const { requestId } = await sdk.executeDraw(contract.connect(caller));
+  const receipt = await (await provider.fulfillRandomness(requestId, randomness)).wait();
+  const [drawEvent] = sdk.decodeDrawExecuted(receipt);
+  if (!drawEvent) {
+    throw new Error("DrawExecuted event not found");
+  }
+  return drawEvent.winningNumbers.map(Number);
 }
 
 describe("LuckyBall", function () {
   let signers: Signers;
   let contract: LuckyBall;
   let contractAddress: string;
+  let provider: MockRandomnessProvider;
+  let points: LuckyBallPoints;
+  let treasury: LuckyBallTreasury;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
@@ -36,7 +92,7 @@ describe("LuckyBall", function () {
       this.skip();
     }
 
-    ({ contract, contractAddress } = await deployFixture());
+    ({ contract, contractAddress, provider, points, treasury } = await deployFixture());
   });
 
   it("initializes draw and zero score", async function () {
@@ -61,63 +117,42 @@ describe("LuckyBall", function () {
 
       const tx = await contract
         .connect(signers.alice)
-        .buyTicket(encryptedInput.handles[0], encryptedInput.inputProof, { value: TICKET_PRICE });
-      const receipt = await tx.wait();
-      const ticketEvent = receipt?.logs
-        .map((log) => {
-          try {
-            return contract.interface.parseLog(log);
-          } catch (error) {
-            return null;
-          }
-        })
-        .find((parsed) => parsed && parsed.name === "TicketPurchased");
+        .buyTicket([encryptedInput.handles[0]], encryptedInput.inputProof, { value: TICKET_PRICE });
+      const [ticketEvent] = sdk.decodeTicketPurchased(await tx.wait());
       if (!ticketEvent) {
         throw new Error("TicketPurchased event not emitted");
       }
-      indices.set(number, ticketEvent.args?.ticketIndex as bigint);
+      indices.set(number, ticketEvent.ticketIndex);
     }
 
     const total = await contract.totalTickets(signers.alice.address);
     expect(total).to.eq(9n);
 
-    const txDraw = await contract.connect(signers.bob).executeDraw();
-    const receiptDraw = await txDraw.wait();
-    const drawEvent = receiptDraw?.logs
-      .map((log) => {
-        try {
-          return contract.interface.parseLog(log);
-        } catch (e) {
-          return null;
-        }
-      })
-      .find((parsed) => parsed && parsed.name === "DrawExecuted");
+    await (await contract.connect(signers.deployer).executeDraw()).wait();
+    const requestId = (await contract.getDraw(1)).requestId;
+    const txDraw = await provider.fulfillRandomness(requestId, BigInt(ethers.hexlify(ethers.randomBytes(32))));
+    const [drawEvent] = sdk.decodeDrawExecuted(await txDraw.wait());
     if (!drawEvent) {
       throw new Error("DrawExecuted event not found");
     }
-    const winningNumber = Number(drawEvent.args?.winningNumber);
+    const winningNumber = Number(drawEvent.winningNumbers[0]);
 
     const winningIndex = indices.get(winningNumber);
     if (winningIndex === undefined) {
       throw new Error("Winning index not recorded");
     }
 
+    // No points are minted before the first claim
     const scoreBefore = await contract.getScore(signers.alice.address);
-    const clearScoreBefore = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      scoreBefore,
-      contractAddress,
-      signers.alice,
-    );
-    expect(clearScoreBefore).to.eq(0n);
+    expect(scoreBefore).to.eq(ethers.ZeroHash);
 
     await contract.connect(signers.alice).claimTicket(Number(winningIndex));
 
     const scoreAfter = await contract.getScore(signers.alice.address);
     const clearScoreAfter = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       scoreAfter,
-      contractAddress,
+      await contract.points(),
       signers.alice,
     );
     expect(clearScoreAfter).to.eq(10n);
@@ -132,11 +167,1498 @@ describe("LuckyBall", function () {
 
     const scoreFinal = await contract.getScore(signers.alice.address);
     const clearScoreFinal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
+      FhevmType.euint64,
       scoreFinal,
-      contractAddress,
+      await contract.points(),
       signers.alice,
     );
     expect(clearScoreFinal).to.eq(10n);
   });
+
+  describe("prize pool", function () {
+    let winningNumber: number;
+    let winningIndex: bigint;
+    let losingIndex: bigint;
+
+    beforeEach(async function () {
+      const numbers = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+      const purchased = await buyTickets(contract, contractAddress, signers.alice, numbers);
+      const indices = new Map(numbers.map((number, i) => [number, purchased[i]]));
+      await buyTicket(contract, contractAddress, signers.bob, 1);
+
+      [winningNumber] = await executeDraw(contract, provider, signers.deployer, 6);
+      winningIndex = indices.get(winningNumber)!;
+      losingIndex = indices.get(winningNumber === 1 ? 2 : 1)!;
+    });
+
+    async function claimAndDecrypt(player: HardhatEthersSigner, index: bigint) {
+      await contract.connect(player).claimTicket(index);
+      const tickets = await contract.getTickets(player.address);
+      return fhevm.publicDecrypt([tickets[Number(index)].outcome]);
+    }
+
+    it("collects every ticket payment into the draw pot", async function () {
+      const draw = await contract.getDraw(1);
+      expect(draw.pot).to.eq(TICKET_PRICE * 10n);
+      expect(await ethers.provider.getBalance(treasury)).to.eq(TICKET_PRICE * 10n);
+    });
+
+    it("pays the pot to confirmed winners after the settlement period", async function () {
+      const decrypted = await claimAndDecrypt(signers.alice, winningIndex);
+      await expect(
+        contract
+          .connect(signers.alice)
+          .confirmWin(winningIndex, decrypted.abiEncodedClearValues, decrypted.decryptionProof),
+      )
+        .to.emit(contract, "WinConfirmed")
+        .withArgs(signers.alice.address, 1, winningIndex);
+
+      const draw = await contract.getDraw(1);
+      expect(draw.winners).to.eq(1n);
+
+      await expect(contract.connect(signers.alice).collectPrize(winningIndex)).to.be.revertedWith(
+        "Settlement period active",
+      );
+
+      await time.increase(await contract.SETTLEMENT_PERIOD());
+
+      await expect(contract.connect(signers.alice).collectPrize(winningIndex)).to.changeEtherBalances(
+        [signers.alice, treasury],
+        [TICKET_PRICE * 10n, -(TICKET_PRICE * 10n)],
+      );
+      await expect(contract.connect(signers.alice).collectPrize(winningIndex)).to.be.revertedWith("Prize already paid");
+    });
+
+    it("rejects losing tickets and late confirmations", async function () {
+      const losing = await claimAndDecrypt(signers.alice, losingIndex);
+      await expect(
+        contract.connect(signers.alice).confirmWin(losingIndex, losing.abiEncodedClearValues, losing.decryptionProof),
+      ).to.be.revertedWith("Ticket did not win");
+      await expect(contract.connect(signers.alice).collectPrize(losingIndex)).to.be.revertedWith("Win not confirmed");
+
+      const winning = await claimAndDecrypt(signers.alice, winningIndex);
+      await time.increase(await contract.SETTLEMENT_PERIOD());
+      await expect(
+        contract
+          .connect(signers.alice)
+          .confirmWin(winningIndex, winning.abiEncodedClearValues, winning.decryptionProof),
+      ).to.be.revertedWith("Settlement period over");
+    });
+  });
+
+  describe("payment tokens", function () {
+    const PRICE = 5_000_000n;
+    let token: MockERC20;
+
+    beforeEach(async function () {
+      const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+      token = (await tokenFactory.deploy("Dollar", "USD")) as MockERC20;
+      await token.mint(signers.alice.address, PRICE * 10n);
+      await token.mint(signers.bob.address, PRICE * 10n);
+      await contract.setPaymentToken(token, PRICE);
+    });
+
+    it("only lets the owner price tickets in a token", async function () {
+      await expect(contract.connect(signers.alice).setPaymentToken(token, PRICE))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+      await expect(contract.setPaymentToken(token, 0)).to.be.revertedWith("Invalid ticket price");
+
+      const draw = await contract.getDraw(1);
+      expect([draw.paymentToken, draw.ticketPrice]).to.deep.eq([await token.getAddress(), PRICE]);
+      expect(await sdk.getTicketPayment(contract)).to.deep.eq({ token: await token.getAddress(), price: PRICE });
+    });
+
+    it("charges the approved token instead of ETH and pays prizes in it", async function () {
+      const alice = contract.connect(signers.alice);
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add8(3).encrypt();
+      await expect(alice.buyTicket(encrypted.handles, encrypted.inputProof, { value: PRICE })).to.be.revertedWith(
+        "Invalid ticket price",
+      );
+      await expect(alice.buyTicket(encrypted.handles, encrypted.inputProof)).to.be.revertedWithCustomError(
+        token,
+        "ERC20InsufficientAllowance",
+      );
+
+      const numbers = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+      expect(await sdk.approveTicketPayment(alice, numbers.length)).to.not.eq(null);
+      expect(await sdk.approveTicketPayment(alice, numbers.length)).to.eq(null);
+      await buyTickets(contract, contractAddress, signers.alice, numbers);
+      expect(await token.balanceOf(treasury)).to.eq(PRICE * 9n);
+      expect((await contract.getDraw(1)).pot).to.eq(PRICE * 9n);
+
+      const [winningNumber] = await executeDraw(contract, provider, signers.deployer, 6);
+      const winningIndex = numbers.indexOf(winningNumber);
+      await alice.claimTicket(winningIndex);
+      const decrypted = await fhevm.publicDecrypt([
+        (await contract.getTickets(signers.alice.address))[winningIndex].outcome,
+      ]);
+      await alice.confirmWin(winningIndex, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+      await time.increase(await contract.SETTLEMENT_PERIOD());
+
+      await expect(alice.collectPrize(winningIndex)).to.changeTokenBalances(
+        token,
+        [signers.alice, treasury],
+        [PRICE * 9n, -(PRICE * 9n)],
+      );
+    });
+
+    it("buys with an EIP-2612 permit in a single transaction", async function () {
+      const bob = contract.connect(signers.bob);
+      const deadline = BigInt(await time.latest()) + 3600n;
+
+      const { ticketIndices } = await sdk.buyTicketsWithPermit(bob, fhevm, [[4], [6]], deadline);
+      expect(ticketIndices).to.deep.eq([0n, 1n]);
+      expect(await token.balanceOf(treasury)).to.eq(PRICE * 2n);
+      expect(await token.allowance(signers.bob.address, treasury)).to.eq(0n);
+
+      await contract.setPaymentToken(ethers.ZeroAddress, 0);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      await expect(sdk.buyTicketsWithPermit(bob, fhevm, [[4]], deadline)).to.be.rejectedWith("Draw is paid in ETH");
+    });
+
+    it("keeps the token of draws that sold tickets and never mixes pots of different tokens", async function () {
+      await sdk.approveTicketPayment(contract.connect(signers.alice), 2);
+      await buyTickets(contract, contractAddress, signers.alice, [2, 3]);
+
+      await contract.setPaymentToken(ethers.ZeroAddress, 0);
+      expect((await contract.getDraw(1)).paymentToken).to.eq(await token.getAddress());
+      await executeDraw(contract, provider, signers.deployer, 0);
+      expect(await sdk.getTicketPayment(contract)).to.deep.eq({ token: ethers.ZeroAddress, price: TICKET_PRICE });
+      await buyTicket(contract, contractAddress, signers.bob, 4);
+
+      await time.increase((await contract.defaultClaimWindow()) + 1n);
+      await expect(contract.rollOverPot(1)).to.be.revertedWith("Payment token changed");
+    });
+  });
+
+  describe("treasury", function () {
+    it("takes the operator fee from ticket sales on execution for the recipient to withdraw", async function () {
+      await expect(contract.connect(signers.alice).setTreasury(treasury))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+      // Funds already held by the treasury would be stranded by a replacement
+      await expect(contract.setTreasury(signers.bob.address)).to.be.revertedWith("Treasury already set");
+      await expect(treasury.connect(signers.alice).setFee(500, signers.bob.address))
+        .to.be.revertedWithCustomError(treasury, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+      await expect(treasury.setFee(2_001, signers.bob.address)).to.be.revertedWith("Fee too high");
+      await expect(treasury.setFee(500, ethers.ZeroAddress)).to.be.revertedWith("Invalid fee recipient");
+      await expect(treasury.pay(ethers.ZeroAddress, signers.alice.address, 1)).to.be.revertedWith(
+        "Caller is not the game",
+      );
+      await treasury.setFee(500, signers.bob.address);
+
+      await buyTickets(contract, contractAddress, signers.alice, [1, 2, 3, 4]);
+      const fee = (TICKET_PRICE * 4n * 500n) / 10_000n;
+      await expect(executeDraw(contract, provider, signers.deployer, 0)).to.not.be.reverted;
+      expect((await contract.getDraw(1)).pot).to.eq(TICKET_PRICE * 4n - fee);
+      expect(await treasury.accruedFees(ethers.ZeroAddress)).to.eq(fee);
+
+      await expect(treasury.connect(signers.alice).withdrawFees(ethers.ZeroAddress)).to.be.revertedWith(
+        "Caller cannot withdraw fees",
+      );
+      await expect(treasury.connect(signers.bob).withdrawFees(ethers.ZeroAddress)).to.changeEtherBalances(
+        [signers.bob, treasury],
+        [fee, -fee],
+      );
+      expect(await treasury.accruedFees(ethers.ZeroAddress)).to.eq(0n);
+      await expect(treasury.withdrawFees(ethers.ZeroAddress)).to.be.revertedWith("No fees to withdraw");
+    });
+
+    it("stops ticket sales and draw execution while paused", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 2);
+      await expect(contract.connect(signers.alice).pause())
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+
+      await contract.pause();
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signers.bob.address).add8(3).encrypt();
+      await expect(
+        contract.connect(signers.bob).buyTicket(encrypted.handles, encrypted.inputProof, { value: TICKET_PRICE }),
+      ).to.be.revertedWithCustomError(contract, "EnforcedPause");
+      await expect(sdk.executeDraw(contract)).to.be.revertedWithCustomError(contract, "EnforcedPause");
+
+      await contract.unpause();
+      await buyTicket(contract, contractAddress, signers.bob, 3);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      expect((await contract.getDraw(1)).ticketCount).to.eq(2n);
+    });
+
+    it("refunds tickets of draws that never executed", async function () {
+      const [index] = await buyTickets(contract, contractAddress, signers.alice, [2, 5]);
+      await expect(contract.connect(signers.alice).emergencyRefund(index)).to.be.revertedWith("Refunds not available");
+
+      // Randomness that never arrives unlocks refunds after the delay
+      await sdk.executeDraw(contract);
+      await expect(contract.connect(signers.alice).emergencyRefund(index)).to.be.revertedWith("Refunds not available");
+      // Pausing does not open refunds once the randomness is requested, since it may already be known
+      await contract.pause();
+      await expect(contract.connect(signers.alice).emergencyRefund(index)).to.be.revertedWith("Refunds not available");
+      await contract.unpause();
+      await time.increase((await contract.EMERGENCY_REFUND_DELAY()) + 1n);
+      const refund = contract.connect(signers.alice).emergencyRefund(index);
+      await expect(refund).to.changeEtherBalances([signers.alice, treasury], [TICKET_PRICE, -TICKET_PRICE]);
+      await expect(refund).to.emit(contract, "TicketRefunded").withArgs(signers.alice.address, 1, index, TICKET_PRICE);
+      await expect(contract.connect(signers.alice).emergencyRefund(index)).to.be.revertedWith("Ticket refunded");
+
+      const draw = await contract.getDraw(1);
+      expect([draw.pot, draw.ticketCount]).to.deep.eq([TICKET_PRICE, 1n]);
+      await provider.fulfillRandomness(draw.requestId, 4);
+      await expect(contract.connect(signers.alice).claimTicket(index)).to.be.revertedWith("Already processed");
+      await contract.connect(signers.alice).claimAllForDraw(1);
+      expect((await contract.getTickets(signers.alice.address)).map((ticket) => ticket.claimed)).to.deep.eq([
+        false,
+        true,
+      ]);
+
+      // Pausing opens refunds for the active draw as well
+      const [open] = await buyTickets(contract, contractAddress, signers.alice, [3]);
+      await contract.pause();
+      await expect(contract.connect(signers.alice).emergencyRefund(open)).to.changeEtherBalance(
+        signers.alice,
+        TICKET_PRICE,
+      );
+      await expect(contract.connect(signers.alice).emergencyRefund(index + 1n)).to.be.revertedWith(
+        "Draw already executed",
+      );
+    });
+
+    it("refunds tickets of cancelled draws", async function () {
+      const [index, other] = await buyTickets(contract, contractAddress, signers.alice, [2, 5]);
+      await buyTicket(contract, contractAddress, signers.bob, 3);
+      await expect(contract.connect(signers.alice).cancelDraw(1)).to.be.revertedWith("Caller is not an operator");
+      await expect(contract.connect(signers.alice).refundTicket(index)).to.be.revertedWith("Draw not cancelled");
+
+      // Cancelling the active draw opens the next one
+      await expect(contract.cancelDraw(1)).to.emit(contract, "DrawCancelled").withArgs(1);
+      expect(await contract.currentDrawId()).to.eq(2n);
+      await expect(contract.cancelDraw(1)).to.be.revertedWith("Draw already cancelled");
+      await expect(contract.cancelDraw(3)).to.be.revertedWith("Unknown draw");
+
+      const refund = contract.connect(signers.alice).refundTicket(index);
+      await expect(refund).to.changeEtherBalances([signers.alice, treasury], [TICKET_PRICE, -TICKET_PRICE]);
+      await expect(refund).to.emit(contract, "TicketRefunded").withArgs(signers.alice.address, 1, index, TICKET_PRICE);
+      await expect(contract.connect(signers.alice).refundTicket(index)).to.be.revertedWith("Ticket refunded");
+      await expect(contract.connect(signers.alice).claimTicket(index)).to.be.revertedWith("Already processed");
+      await expect(contract.connect(signers.alice).claimTicket(other)).to.be.revertedWith("Draw not executed");
+      expect((await contract.getDraw(1)).ticketCount).to.eq(2n);
+      await expect(contract.rollOverPot(1)).to.be.revertedWith("Nothing to roll over");
+
+      // A draw whose randomness is pending can only be cancelled once the request is stuck, and late randomness
+      // no longer settles it
+      const late = await buyTicket(contract, contractAddress, signers.alice, 4);
+      const { requestId } = await sdk.executeDraw(contract);
+      await expect(contract.cancelDraw(2)).to.be.revertedWith("Randomness requested");
+      await time.increase((await contract.EMERGENCY_REFUND_DELAY()) + 1n);
+      await contract.cancelDraw(2);
+      expect(await contract.currentDrawId()).to.eq(3n);
+      await expect(provider.fulfillRandomness(requestId, 0)).to.be.revertedWith("Draw cancelled");
+      await expect(contract.connect(signers.alice).refundTicket(late)).to.changeEtherBalance(
+        signers.alice,
+        TICKET_PRICE,
+      );
+
+      await buyTicket(contract, contractAddress, signers.bob, 1);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      await expect(contract.cancelDraw(3)).to.be.revertedWith("Draw already executed");
+    });
+  });
+
+  describe("draw statistics", function () {
+    it("tallies winning claims until the claim window closes and publishes the count", async function () {
+      const aliceTickets = await buyTickets(contract, contractAddress, signers.alice, [1, 2, 3]);
+      const bobTicket = await buyTicket(contract, contractAddress, signers.bob, 1);
+      const lateTicket = await buyTicket(contract, contractAddress, signers.deployer, 1);
+      expect((await contract.getDraw(1)).ticketCount).to.eq(5n);
+
+      const [winningNumber] = await executeDraw(contract, provider, signers.deployer, 0);
+      expect(winningNumber).to.eq(1);
+
+      await contract.connect(signers.alice).claimTickets(aliceTickets);
+      await contract.connect(signers.bob).claimTicket(bobTicket);
+      await expect(contract.revealWinnerTally(1)).to.be.revertedWith("Claim window open");
+
+      await time.increase(await contract.SETTLEMENT_PERIOD());
+      await expect(contract.revealWinnerTally(1)).to.be.revertedWith("Claim window open");
+      await contract.connect(signers.deployer).claimTicket(lateTicket);
+
+      await time.increase(await contract.defaultClaimWindow());
+      expect(await sdk.publishWinnerTally(contract.connect(signers.bob), fhevm, 1)).to.eq(3);
+      const draw = sdk.normalizeDraw(await contract.getDraw(1));
+      expect(draw).to.deep.include({ ticketCount: 5n, tallyPublished: true, winningTickets: 3 });
+      expect(await sdk.publishWinnerTally(contract.connect(signers.bob), fhevm, 1)).to.eq(3);
+    });
+
+    it("freezes the tally of draws without a claim window when their settlement period ends", async function () {
+      await contract.setClaimWindow(0);
+      await buyTicket(contract, contractAddress, signers.alice, 3);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      const lateTicket = await buyTicket(contract, contractAddress, signers.alice, 1);
+      await executeDraw(contract, provider, signers.deployer, 0);
+
+      await time.increase(await contract.SETTLEMENT_PERIOD());
+      await contract.connect(signers.alice).claimTicket(lateTicket);
+      expect(await sdk.publishWinnerTally(contract, fhevm, 2)).to.eq(0);
+    });
+
+    it("publishes a zero tally for draws without claims and rejects forged counts", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 2);
+      await expect(contract.revealWinnerTally(1)).to.be.revertedWith("Draw not executed");
+      await executeDraw(contract, provider, signers.deployer, 1);
+      await expect(contract.publishWinnerTally(1, "0x", "0x")).to.be.revertedWith("Tally not revealed");
+
+      await time.increase((await contract.defaultClaimWindow()) + 1n);
+      await expect(contract.revealWinnerTally(1)).to.emit(contract, "WinnerTallyRevealed");
+
+      const { winnerTally } = await contract.getDraw(1);
+      const decrypted = await fhevm.publicDecrypt([winnerTally]);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [3]);
+      await expect(contract.publishWinnerTally(1, forged, decrypted.decryptionProof)).to.be.reverted;
+
+      await expect(contract.publishWinnerTally(1, decrypted.abiEncodedClearValues, decrypted.decryptionProof))
+        .to.emit(contract, "WinnerTallyPublished")
+        .withArgs(1, 0);
+      await expect(
+        contract.publishWinnerTally(1, decrypted.abiEncodedClearValues, decrypted.decryptionProof),
+      ).to.be.revertedWith("Tally already published");
+    });
+  });
+
+  describe("jackpot", function () {
+    async function settleDraw(drawId: number, randomness: number) {
+      const { requestId } = await sdk.executeDraw(contract.connect(signers.deployer));
+      const receipt = await (await provider.fulfillRandomness(requestId, randomness)).wait();
+      const [drawEvent] = sdk.decodeDrawExecuted(receipt);
+      expect(drawEvent.drawId).to.eq(BigInt(drawId));
+      return drawEvent.jackpot;
+    }
+
+    async function decryptScore(player: HardhatEthersSigner) {
+      return fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await contract.getScore(player.address),
+        await contract.points(),
+        player,
+      );
+    }
+
+    it("grows while draws settle without a winning claim and pays out in full to the next winner", async function () {
+      const claimWindow = await contract.defaultClaimWindow();
+
+      await buyTicket(contract, contractAddress, signers.alice, 2);
+      expect(await settleDraw(1, 0)).to.eq(10n);
+      await time.increase(claimWindow + 1n);
+      await expect(sdk.publishWinnerTally(contract, fhevm, 1)).to.eventually.eq(0);
+      expect((await contract.getDraw(2)).jackpot).to.eq(10n);
+
+      const bobTicket = await buyTicket(contract, contractAddress, signers.bob, 1);
+      const aliceTicket = await buyTicket(contract, contractAddress, signers.alice, 3);
+      expect(await settleDraw(2, 0)).to.eq(20n);
+
+      await contract.connect(signers.bob).claimTicket(bobTicket);
+      await contract.connect(signers.alice).claimTicket(aliceTicket);
+      expect(await decryptScore(signers.bob)).to.eq(20n);
+      expect(await decryptScore(signers.alice)).to.eq(0n);
+
+      await time.increase(claimWindow + 1n);
+      await sdk.publishWinnerTally(contract, fhevm, 2);
+      expect((await contract.getDraw(3)).jackpot).to.eq(0n);
+    });
+
+    it("carries the jackpot of an unwon draw into whichever draw is open when its tally is published", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 2);
+      await settleDraw(1, 0);
+      await buyTicket(contract, contractAddress, signers.alice, 2);
+      await settleDraw(2, 0);
+
+      await time.increase((await contract.defaultClaimWindow()) + 1n);
+      await contract.revealWinnerTally(1);
+      const { winnerTally } = await contract.getDraw(1);
+      const decrypted = await fhevm.publicDecrypt([winnerTally]);
+      await expect(contract.publishWinnerTally(1, decrypted.abiEncodedClearValues, decrypted.decryptionProof))
+        .to.emit(contract, "JackpotRolledOver")
+        .withArgs(1, 3, 10);
+
+      await sdk.publishWinnerTally(contract, fhevm, 2);
+      expect((await contract.getDraw(3)).jackpot).to.eq(20n);
+    });
+
+    it("keeps the jackpot from claims made after the tally closed", async function () {
+      // Draw 1 keeps the default claim window, later draws have none
+      const claimWindow = await contract.defaultClaimWindow();
+      const settlementPeriod = await contract.SETTLEMENT_PERIOD();
+      await contract.setClaimWindow(0);
+
+      await buyTicket(contract, contractAddress, signers.alice, 2);
+      await settleDraw(1, 0);
+      await time.increase(claimWindow + 1n);
+      await sdk.publishWinnerTally(contract, fhevm, 1);
+
+      const lateTicket = await buyTicket(contract, contractAddress, signers.alice, 1);
+      expect(await settleDraw(2, 0)).to.eq(20n);
+      await time.increase(settlementPeriod + 1n);
+      await sdk.publishWinnerTally(contract, fhevm, 2);
+      expect((await contract.getDraw(3)).jackpot).to.eq(20n);
+
+      // The jackpot of draw 2 already moved on, so the late winner only earns the full-match reward
+      await contract.connect(signers.alice).claimTicket(lateTicket);
+      expect(await decryptScore(signers.alice)).to.eq(10n);
+    });
+  });
+
+  describe("claims on behalf of players", function () {
+    async function decryptScoreAs(player: HardhatEthersSigner, reader: HardhatEthersSigner) {
+      const score = await contract.getScore(player.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, score, await contract.points(), reader);
+    }
+
+    it("lets anyone claim for players who opted in, without sharing their score", async function () {
+      const [winning, losing] = await buyTickets(contract, contractAddress, signers.alice, [1, 2]);
+      await executeDraw(contract, provider, signers.deployer, 0);
+
+      const relayer = contract.connect(signers.bob);
+      await expect(relayer.claimFor(signers.alice.address, [winning])).to.be.revertedWith("Auto-claim not enabled");
+
+      await expect(contract.connect(signers.alice).setAutoClaim(true))
+        .to.emit(contract, "AutoClaimUpdated")
+        .withArgs(signers.alice.address, true);
+      await expect(relayer.claimFor(signers.alice.address, [])).to.be.revertedWith("No tickets to claim");
+      await expect(relayer.claimFor(signers.alice.address, [winning]))
+        .to.emit(contract, "TicketClaimProcessed")
+        .withArgs(signers.alice.address, 1, winning);
+
+      expect(await decryptScoreAs(signers.alice, signers.alice)).to.eq(10n);
+      await expect(decryptScoreAs(signers.alice, signers.bob)).to.be.rejected;
+      // The lottery mints the points but holds no access to the balance
+      const score = await contract.getScore(signers.alice.address);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, score, contractAddress, signers.alice)).to.be.rejected;
+      expect(await contract.getScore(signers.bob.address)).to.eq(ethers.ZeroHash);
+
+      await contract.connect(signers.alice).setAutoClaim(false);
+      await expect(relayer.claimFor(signers.alice.address, [losing])).to.be.revertedWith("Auto-claim not enabled");
+    });
+
+    it("accepts an EIP-712 claim signed by the player exactly once", async function () {
+      const indices = await buyTickets(contract, contractAddress, signers.alice, [1, 2, 3]);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const relayer = contract.connect(signers.bob);
+
+      const forged = await sdk.signClaim(contract.connect(signers.bob), indices, deadline);
+      await expect(
+        relayer.claimForBySig(signers.alice.address, indices, deadline, forged.signature),
+      ).to.be.revertedWith("Invalid signature");
+
+      const authorization = await sdk.signClaim(contract.connect(signers.alice), indices.slice(0, 2), deadline);
+      await expect(
+        relayer.claimForBySig(signers.alice.address, indices, deadline, authorization.signature),
+      ).to.be.revertedWith("Invalid signature");
+
+      const { claims } = await sdk.claimForBySig(relayer, authorization);
+      expect(claims.map((claim) => claim.ticketIndex)).to.deep.eq(indices.slice(0, 2));
+      expect(await contract.claimNonces(signers.alice.address)).to.eq(1n);
+      await expect(sdk.claimForBySig(relayer, authorization)).to.be.revertedWith("Invalid signature");
+      expect(await decryptScoreAs(signers.alice, signers.alice)).to.eq(10n);
+
+      const late = await sdk.signClaim(contract.connect(signers.alice), [indices[2]], deadline);
+      await time.increaseTo(deadline + 1n);
+      await expect(sdk.claimForBySig(relayer, late)).to.be.revertedWith("Signature expired");
+    });
+  });
+
+  describe("sponsored purchases", function () {
+    let forwarder: LuckyBallForwarder;
+    let deadline: bigint;
+
+    beforeEach(async function () {
+      const forwarderFactory = (await ethers.getContractFactory("LuckyBallForwarder")) as LuckyBallForwarder__factory;
+      forwarder = await forwarderFactory.deploy();
+      ({ contract, contractAddress, points } = await deployLuckyBall(
+        await provider.getAddress(),
+        await forwarder.getAddress(),
+      ));
+      deadline = BigInt(await time.latest()) + 3600n;
+
+      // Relayers only pay the gas, so sponsored purchases take a token price from the player's allowance
+      const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+      const token = (await tokenFactory.deploy("Dollar", "USD")) as MockERC20;
+      await token.mint(signers.alice.address, TICKET_PRICE * 10n);
+      await contract.setPaymentToken(token, TICKET_PRICE);
+      await sdk.approveTicketPayment(contract.connect(signers.alice), 10);
+    });
+
+    it("records forwarded purchases for the signing player, who alone can decrypt them", async function () {
+      const aliceBalance = await ethers.provider.getBalance(signers.alice.address);
+      const request = await sdk.signSponsoredPurchase(
+        contract.connect(signers.alice),
+        forwarder,
+        fhevm,
+        [[3]],
+        deadline,
+      );
+
+      const relayer = forwarder.connect(signers.bob);
+      await expect(relayer.execute(request, { value: request.value }))
+        .to.emit(contract, "TicketPurchased")
+        .withArgs(signers.alice.address, 1, 0);
+      await expect(relayer.execute(request, { value: request.value })).to.be.revertedWithCustomError(
+        forwarder,
+        "ERC2771ForwarderInvalidSigner",
+      );
+
+      expect(await ethers.provider.getBalance(signers.alice.address)).to.eq(aliceBalance);
+      expect(await contract.totalTickets(signers.bob.address)).to.eq(0n);
+      expect(await sdk.decryptTicket(contract.connect(signers.alice), fhevm, 0)).to.deep.eq([3]);
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          (await contract.getTickets(signers.alice.address))[0].numbers[0],
+          contractAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+
+      // Other player calls resolve the player through the forwarder too
+      await executeDraw(contract, provider, signers.deployer, 2);
+      const claim = await sdk.signForwardRequest(forwarder, signers.alice, {
+        to: contractAddress,
+        value: 0n,
+        gas: 1_000_000n,
+        deadline,
+        data: contract.interface.encodeFunctionData("claimTicket", [0]),
+      });
+      await expect(relayer.execute(claim))
+        .to.emit(contract, "TicketClaimProcessed")
+        .withArgs(signers.alice.address, 1, 0);
+    });
+
+    it("rejects encrypted inputs that were not made for the signing player", async function () {
+      const request = await sdk.signSponsoredPurchase(
+        contract.connect(signers.alice),
+        forwarder,
+        fhevm,
+        [[3]],
+        deadline,
+      );
+      const { from: _from, signature: _signature, ...call } = request;
+      const stolen = await sdk.signForwardRequest(forwarder, signers.bob, call);
+      await expect(sdk.relayPurchase(forwarder, stolen)).to.be.revertedWithCustomError(forwarder, "FailedCall");
+
+      // Encrypting for the forwarder, as `FHE.fromExternal` would expect, does not work either
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, await forwarder.getAddress())
+        .add8(3)
+        .encrypt();
+      const forwarderBound = await sdk.signForwardRequest(forwarder, signers.alice, {
+        ...call,
+        data: contract.interface.encodeFunctionData("buyTicket", [input.handles, input.inputProof]),
+      });
+      await expect(sdk.relayPurchase(forwarder, forwarderBound)).to.be.revertedWithCustomError(forwarder, "FailedCall");
+
+      await sdk.relayPurchase(forwarder, request);
+      expect(await contract.totalTickets(signers.alice.address)).to.eq(1n);
+    });
+  });
+
+  describe("claim window", function () {
+    it("closes claims after the window and lets anyone expire the leftover tickets", async function () {
+      const [claimed, late] = await buyTickets(contract, contractAddress, signers.alice, [1, 2]);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      const claimWindow = (await contract.getDraw(1)).claimWindow;
+      expect(claimWindow).to.eq(await contract.defaultClaimWindow());
+
+      await contract.connect(signers.alice).claimTicket(claimed);
+      await expect(contract.connect(signers.bob).expireTickets(signers.alice.address, [late])).to.be.revertedWith(
+        "Claim window open",
+      );
+
+      await time.increase(claimWindow + 1n);
+      await expect(contract.connect(signers.alice).claimTicket(late)).to.be.revertedWith("Claim window closed");
+      await expect(contract.connect(signers.bob).expireTickets(signers.alice.address, [claimed])).to.be.revertedWith(
+        "Already processed",
+      );
+      await expect(contract.connect(signers.bob).expireTickets(signers.alice.address, [late]))
+        .to.emit(contract, "TicketExpired")
+        .withArgs(signers.alice.address, 1, late);
+
+      const tickets = (await contract.getTickets(signers.alice.address)).map(sdk.normalizeTicket);
+      expect(tickets.map((ticket) => ticket.expired)).to.deep.eq([false, true]);
+      await expect(contract.expireTickets(signers.alice.address, [late])).to.be.revertedWith("Already processed");
+    });
+
+    it("rolls the pot of a draw without confirmed winners over to the active draw", async function () {
+      await buyTickets(contract, contractAddress, signers.alice, [2, 3]);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      await buyTicket(contract, contractAddress, signers.bob, 4);
+
+      await expect(contract.rollOverPot(1)).to.be.revertedWith("Claim window open");
+      await time.increase((await contract.defaultClaimWindow()) + 1n);
+
+      await expect(contract.rollOverPot(1))
+        .to.emit(contract, "PotRolledOver")
+        .withArgs(1, 2, TICKET_PRICE * 2n);
+      expect((await contract.getDraw(1)).pot).to.eq(0n);
+      expect((await contract.getDraw(2)).pot).to.eq(TICKET_PRICE * 3n);
+      await expect(contract.rollOverPot(1)).to.be.revertedWith("Nothing to roll over");
+    });
+
+    it("keeps draws opened with a zero window claimable forever", async function () {
+      await expect(contract.setClaimWindow(3600)).to.be.revertedWith("Claim window too short");
+      await expect(contract.connect(signers.alice).setClaimWindow(0))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+
+      // The active draw keeps the window it opened with; the next one opens without any
+      await contract.setClaimWindow(0);
+      await buyTicket(contract, contractAddress, signers.alice, 1);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      await buyTicket(contract, contractAddress, signers.alice, 1);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      expect((await contract.getDraw(2)).claimWindow).to.eq(0n);
+
+      await time.increase(365 * 24 * 3600);
+      await expect(contract.connect(signers.alice).claimTicket(0)).to.be.revertedWith("Claim window closed");
+      await contract.connect(signers.alice).claimTicket(1);
+      await expect(contract.rollOverPot(2)).to.be.revertedWith("Claim window open");
+    });
+  });
+
+  describe("multi-number draws", function () {
+    async function decryptScore(player: HardhatEthersSigner) {
+      const score = await contract.getScore(player.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, score, await contract.points(), player);
+    }
+
+    function missingNumbers(winningNumbers: number[], count: number, max: number) {
+      const missing: number[] = [];
+      for (let number = 1; number <= max && missing.length < count; number++) {
+        if (!winningNumbers.includes(number)) {
+          missing.push(number);
+        }
+      }
+      return missing;
+    }
+
+    it("applies the configured range and pick count to the open draw", async function () {
+      await expect(contract.connect(signers.deployer).setDrawConfig(1, 49, 5, [0, 1, 2, 5, 20, 100]))
+        .to.emit(contract, "DrawConfigUpdated")
+        .withArgs(1, 49, 5, [0, 1, 2, 5, 20, 100]);
+
+      const draw = await contract.getDraw(1);
+      expect(draw.config.minNumber).to.eq(1n);
+      expect(draw.config.maxNumber).to.eq(49n);
+      expect(draw.config.picks).to.eq(5n);
+
+      await expect(buyTicket(contract, contractAddress, signers.alice, [1, 2, 3])).to.be.revertedWith(
+        "Invalid number count",
+      );
+      await buyTicket(contract, contractAddress, signers.alice, [1, 2, 3, 4, 5]);
+
+      const winningNumbers = await executeDraw(contract, provider, signers.deployer, 123456789);
+      expect(winningNumbers).to.have.lengthOf(5);
+      expect(new Set(winningNumbers).size).to.eq(5);
+      for (const number of winningNumbers) {
+        expect(number).to.be.within(1, 49);
+      }
+
+      await contract.connect(signers.alice).claimTicket(0);
+      const matches = winningNumbers.filter((number) => number <= 5).length;
+      expect(await decryptScore(signers.alice)).to.eq([0n, 1n, 2n, 5n, 20n, 100n][matches]);
+    });
+
+    it("maps the encrypted match count to tiered rewards", async function () {
+      await contract.connect(signers.deployer).setDrawConfig(1, 20, 3, [0, 1, 5, 50]);
+
+      await buyTicket(contract, contractAddress, signers.bob, [1, 2, 3]);
+      const winningNumbers = await executeDraw(contract, provider, signers.deployer, 42);
+      expect(winningNumbers).to.have.lengthOf(3);
+
+      // The same randomness draws the same numbers again, so the next draw's tickets can target them
+      const [missA, missB, missC] = missingNumbers(winningNumbers, 3, 20);
+      const exact = await buyTicket(contract, contractAddress, signers.alice, winningNumbers);
+      const two = await buyTicket(contract, contractAddress, signers.alice, [
+        winningNumbers[2],
+        missA,
+        winningNumbers[0],
+      ]);
+      const none = await buyTicket(contract, contractAddress, signers.bob, [missA, missB, missC]);
+      expect(await executeDraw(contract, provider, signers.deployer, 42)).to.deep.eq(winningNumbers);
+
+      await contract.connect(signers.alice).claimTicket(exact);
+      expect(await decryptScore(signers.alice)).to.eq(50n);
+      await contract.connect(signers.alice).claimTicket(two);
+      expect(await decryptScore(signers.alice)).to.eq(55n);
+
+      await contract.connect(signers.bob).claimTicket(none);
+      expect(await decryptScore(signers.bob)).to.eq(0n);
+
+      const tickets = await contract.getTickets(signers.alice.address);
+      const exactOutcome = await fhevm.publicDecrypt([tickets[Number(exact)].outcome]);
+      const twoOutcome = await fhevm.publicDecrypt([tickets[Number(two)].outcome]);
+      expect(exactOutcome.clearValues[tickets[Number(exact)].outcome as `0x${string}`]).to.eq(true);
+      expect(twoOutcome.clearValues[tickets[Number(two)].outcome as `0x${string}`]).to.eq(false);
+    });
+
+    it("does not count repeated picks more than once", async function () {
+      await contract.connect(signers.deployer).setDrawConfig(1, 9, 3, [0, 1, 5, 50]);
+      await buyTicket(contract, contractAddress, signers.bob, [1, 2, 3]);
+      const winningNumbers = await executeDraw(contract, provider, signers.deployer, 7);
+
+      const repeated = await buyTicket(contract, contractAddress, signers.alice, [
+        winningNumbers[1],
+        winningNumbers[1],
+        winningNumbers[1],
+      ]);
+      await executeDraw(contract, provider, signers.deployer, 7);
+
+      await contract.connect(signers.alice).claimTicket(repeated);
+      expect(await decryptScore(signers.alice)).to.eq(1n);
+    });
+
+    it("rejects invalid draw configurations", async function () {
+      await expect(contract.connect(signers.deployer).setDrawConfig(0, 9, 1, [0, 10])).to.be.revertedWith(
+        "Invalid number range",
+      );
+      await expect(contract.connect(signers.deployer).setDrawConfig(5, 4, 1, [0, 10])).to.be.revertedWith(
+        "Invalid number range",
+      );
+      await expect(contract.connect(signers.deployer).setDrawConfig(1, 3, 4, [0, 1, 2, 3, 4])).to.be.revertedWith(
+        "Invalid pick count",
+      );
+      await expect(
+        contract.connect(signers.deployer).setDrawConfig(1, 49, 7, [0, 1, 2, 3, 4, 5, 6, 7]),
+      ).to.be.revertedWith("Invalid pick count");
+      await expect(contract.connect(signers.deployer).setDrawConfig(1, 9, 2, [0, 10])).to.be.revertedWith(
+        "Invalid reward tiers",
+      );
+      await expect(contract.connect(signers.alice).setDrawConfig(1, 9, 2, [0, 1, 10]))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+    });
+
+    it("keeps the configuration of a draw that already sold tickets", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 4);
+      await contract.connect(signers.deployer).setDrawConfig(1, 49, 5, [0, 1, 2, 5, 20, 100]);
+
+      expect((await contract.getDraw(1)).config.picks).to.eq(1n);
+      await executeDraw(contract, provider, signers.deployer, 3);
+      expect((await contract.getDraw(2)).config.picks).to.eq(5n);
+    });
+  });
+
+  describe("batch purchase and claim", function () {
+    async function decryptScore(player: HardhatEthersSigner) {
+      const score = await contract.getScore(player.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, score, await contract.points(), player);
+    }
+
+    it("buys several tickets from one encrypted input", async function () {
+      const indices = await buyTickets(contract, contractAddress, signers.alice, [1, 2, 3, 4]);
+      expect(indices).to.deep.eq([0n, 1n, 2n, 3n]);
+
+      const draw = await contract.getDraw(1);
+      expect(draw.ticketCount).to.eq(4n);
+      expect(draw.pot).to.eq(TICKET_PRICE * 4n);
+
+      const tickets = await contract.getTickets(signers.alice.address);
+      const clear = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        tickets[2].numbers[0],
+        contractAddress,
+        signers.alice,
+      );
+      expect(clear).to.eq(3n);
+    });
+
+    it("splits the encrypted input by the pick count of the draw", async function () {
+      await contract.connect(signers.deployer).setDrawConfig(1, 20, 2, [0, 1, 5]);
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      [1, 2, 3, 4, 5].forEach((number) => input.add8(number));
+      const odd = await input.encrypt();
+      await expect(
+        contract.connect(signers.alice).buyTickets(odd.handles, odd.inputProof, { value: TICKET_PRICE * 2n }),
+      ).to.be.revertedWith("Invalid number count");
+      await expect(
+        contract.connect(signers.alice).buyTickets(odd.handles.slice(0, 4), odd.inputProof, { value: TICKET_PRICE }),
+      ).to.be.revertedWith("Invalid ticket price");
+
+      await buyTickets(contract, contractAddress, signers.alice, [
+        [1, 2],
+        [3, 4],
+      ]);
+      const tickets = await contract.getTickets(signers.alice.address);
+      expect(tickets).to.have.lengthOf(2);
+      expect(tickets[1].numbers).to.have.lengthOf(2);
+    });
+
+    it("claims a selection of tickets in one transaction", async function () {
+      const numbers = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+      await buyTickets(contract, contractAddress, signers.alice, numbers);
+      const [winningNumber] = await executeDraw(contract, provider, signers.deployer, 2);
+
+      const losing = numbers.indexOf(winningNumber === 1 ? 2 : 1);
+      await expect(contract.connect(signers.alice).claimTickets([numbers.indexOf(winningNumber), losing]))
+        .to.emit(contract, "TicketClaimProcessed")
+        .withArgs(signers.alice.address, 1, losing);
+      expect(await decryptScore(signers.alice)).to.eq(10n);
+
+      await expect(contract.connect(signers.alice).claimTickets([losing])).to.be.revertedWith("Already processed");
+      await expect(contract.connect(signers.alice).claimTickets([99])).to.be.revertedWith("Invalid ticket index");
+      await expect(contract.connect(signers.alice).claimTickets([])).to.be.revertedWith("No tickets to claim");
+    });
+
+    it("claims every ticket of a draw at once", async function () {
+      await buyTickets(contract, contractAddress, signers.alice, [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      await expect(contract.connect(signers.alice).claimAllForDraw(1)).to.be.revertedWith("Draw not executed");
+      await executeDraw(contract, provider, signers.deployer, 5);
+      await buyTicket(contract, contractAddress, signers.alice, 6);
+
+      await contract.connect(signers.alice).claimAllForDraw(1);
+      expect(await decryptScore(signers.alice)).to.eq(10n);
+
+      const tickets = await contract.getTickets(signers.alice.address);
+      expect(tickets.map((ticket) => ticket.claimed)).to.deep.eq([...Array(9).fill(true), false]);
+      await expect(contract.connect(signers.alice).claimAllForDraw(1)).to.be.revertedWith("No tickets to claim");
+    });
+  });
+
+  describe("paginated views", function () {
+    beforeEach(async function () {
+      await buyTickets(contract, contractAddress, signers.alice, [1, 2, 3]);
+      await buyTicket(contract, contractAddress, signers.bob, 4);
+      await executeDraw(contract, provider, signers.deployer, 5);
+      await buyTickets(contract, contractAddress, signers.alice, [6, 7]);
+    });
+
+    it("pages through the tickets of a player", async function () {
+      const all = await contract.getTickets(signers.alice.address);
+      const firstPage = await contract.getTicketsPage(signers.alice.address, 0, 2);
+      const lastPage = await contract.getTicketsPage(signers.alice.address, 2, 2);
+      const tail = await contract.getTicketsPage(signers.alice.address, 4, 10);
+
+      expect([...firstPage, ...lastPage, ...tail].map((ticket) => ticket.numbers[0])).to.deep.eq(
+        all.map((ticket) => ticket.numbers[0]),
+      );
+      expect(tail.map((ticket) => ticket.drawId)).to.deep.eq([2n]);
+      expect(await contract.getTicketsPage(signers.alice.address, 5, 10)).to.have.lengthOf(0);
+      expect(await contract.getTicketsPage(signers.alice.address, 99, 10)).to.have.lengthOf(0);
+    });
+
+    it("indexes the tickets of each player by draw", async function () {
+      const [firstIndices, firstTickets] = await contract.getTicketsByDraw(signers.alice.address, 1);
+      expect(firstIndices).to.deep.eq([0n, 1n, 2n]);
+      expect(firstTickets.map((ticket) => ticket.drawId)).to.deep.eq([1n, 1n, 1n]);
+
+      const [secondIndices, secondTickets] = await contract.getTicketsByDraw(signers.alice.address, 2);
+      expect(secondIndices).to.deep.eq([3n, 4n]);
+      const clear = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        secondTickets[1].numbers[0],
+        contractAddress,
+        signers.alice,
+      );
+      expect(clear).to.eq(7n);
+
+      const [bobIndices] = await contract.getTicketsByDraw(signers.bob.address, 2);
+      expect(bobIndices).to.have.lengthOf(0);
+    });
+
+    it("reads a range of draws at once", async function () {
+      const draws = await contract.getDraws(1, 3);
+      expect(draws.map((draw) => draw.executed)).to.deep.eq([true, false, false]);
+      expect(draws.map((draw) => draw.ticketCount)).to.deep.eq([4n, 2n, 0n]);
+      expect(draws[0].winningNumbers).to.deep.eq((await contract.getDraw(1)).winningNumbers);
+
+      await expect(contract.getDraws(2, 1)).to.be.revertedWith("Invalid draw range");
+    });
+  });
+
+  describe("leaderboard", function () {
+    async function revealAndPublish(player: HardhatEthersSigner) {
+      await points.connect(player).revealScore();
+      const handle = await points.getRevealedScore(player.address);
+      const decrypted = await fhevm.publicDecrypt([handle]);
+      return points.publishScore(player.address, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+    }
+
+    beforeEach(async function () {
+      await buyTickets(contract, contractAddress, signers.alice, [5, 5, 1]);
+      await buyTicket(contract, contractAddress, signers.bob, 5);
+      await buyTicket(contract, contractAddress, signers.deployer, 1);
+      await executeDraw(contract, provider, signers.deployer, 4);
+
+      for (const player of [signers.alice, signers.bob, signers.deployer]) {
+        await contract.connect(player).claimAllForDraw(1);
+      }
+    });
+
+    it("registers every player once", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 2);
+      expect(await contract.getPlayers()).to.deep.eq([
+        signers.alice.address,
+        signers.bob.address,
+        signers.deployer.address,
+      ]);
+    });
+
+    it("ranks the scores players chose to reveal", async function () {
+      expect(await points.getLeaderboard(10)).to.deep.eq([]);
+
+      await expect(revealAndPublish(signers.bob)).to.emit(points, "ScorePublished").withArgs(signers.bob.address, 10);
+      await revealAndPublish(signers.alice);
+      await revealAndPublish(signers.bob);
+
+      const ranking = await points.getLeaderboard(10);
+      expect(ranking.map((entry) => [entry.player, entry.score])).to.deep.eq([
+        [signers.alice.address, 20n],
+        [signers.bob.address, 10n],
+      ]);
+      expect(await points.getLeaderboard(1)).to.have.lengthOf(1);
+      expect(await points.getRankedPlayers()).to.deep.eq([signers.bob.address, signers.alice.address]);
+      expect(await points.scorePublished(signers.deployer.address)).to.eq(false);
+    });
+
+    it("keeps other scores private and rejects forged reveals", async function () {
+      await expect(points.connect(signers.alice).publishScore(signers.alice.address, "0x", "0x")).to.be.revertedWith(
+        "Score not revealed",
+      );
+      const outsider = (await ethers.getSigners())[3];
+      await expect(points.connect(outsider).revealScore()).to.be.revertedWith("No score to reveal");
+
+      await points.connect(signers.alice).revealScore();
+      const handle = await points.getRevealedScore(signers.alice.address);
+      const decrypted = await fhevm.publicDecrypt([handle]);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [1000n]);
+      await expect(points.publishScore(signers.alice.address, forged, decrypted.decryptionProof)).to.be.reverted;
+
+      await expect(fhevm.publicDecrypt([await contract.getScore(signers.bob.address)])).to.be.rejected;
+    });
+  });
+
+  describe("points token", function () {
+    let pointsAddress: string;
+
+    async function balanceOf(player: HardhatEthersSigner) {
+      const balance = await points.confidentialBalanceOf(player.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, balance, pointsAddress, player);
+    }
+
+    async function transfer(from: HardhatEthersSigner, to: HardhatEthersSigner, amount: number) {
+      const input = await fhevm.createEncryptedInput(pointsAddress, from.address).add64(amount).encrypt();
+      const tx = await points
+        .connect(from)
+        ["confidentialTransfer(address,bytes32,bytes)"](to.address, input.handles[0], input.inputProof);
+      await tx.wait();
+    }
+
+    beforeEach(async function () {
+      pointsAddress = await points.getAddress();
+      // Alice earns 20 points from two winning tickets
+      await buyTickets(contract, contractAddress, signers.alice, [5, 5]);
+      await executeDraw(contract, provider, signers.deployer, 4);
+      await contract.connect(signers.alice).claimAllForDraw(1);
+    });
+
+    it("mints claim rewards as confidential points", async function () {
+      expect(await points.decimals()).to.eq(0n);
+      expect(await contract.getScore(signers.alice.address)).to.eq(
+        await points.confidentialBalanceOf(signers.alice.address),
+      );
+      expect(await balanceOf(signers.alice)).to.eq(20n);
+    });
+
+    it("transfers points between players", async function () {
+      await transfer(signers.alice, signers.bob, 7);
+      expect(await balanceOf(signers.alice)).to.eq(13n);
+      expect(await balanceOf(signers.bob)).to.eq(7n);
+
+      // Received points can be revealed like earned ones
+      await points.connect(signers.bob).revealScore();
+      const decrypted = await fhevm.publicDecrypt([await points.getRevealedScore(signers.bob.address)]);
+      await points.publishScore(signers.bob.address, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+      expect(await points.publishedScores(signers.bob.address)).to.eq(7n);
+    });
+
+    it("silently transfers zero when the amount exceeds the balance", async function () {
+      await transfer(signers.alice, signers.bob, 21);
+      expect(await balanceOf(signers.alice)).to.eq(20n);
+      expect(await balanceOf(signers.bob)).to.eq(0n);
+
+      await transfer(signers.alice, signers.bob, 20);
+      expect(await balanceOf(signers.alice)).to.eq(0n);
+      expect(await balanceOf(signers.bob)).to.eq(20n);
+    });
+
+    it("lets approved operators move points until their approval expires", async function () {
+      const input = await fhevm.createEncryptedInput(pointsAddress, signers.bob.address).add64(5).encrypt();
+      const transferFrom = () =>
+        points
+          .connect(signers.bob)
+          [
+            "confidentialTransferFrom(address,address,bytes32,bytes)"
+          ](signers.alice.address, signers.bob.address, input.handles[0], input.inputProof);
+
+      await expect(transferFrom())
+        .to.be.revertedWithCustomError(points, "ERC7984UnauthorizedSpender")
+        .withArgs(signers.alice.address, signers.bob.address);
+
+      const until = (await time.latest()) + 3600;
+      await points.connect(signers.alice).setOperator(signers.bob.address, until);
+      expect(await points.isOperator(signers.alice.address, signers.bob.address)).to.eq(true);
+      await (await transferFrom()).wait();
+      expect(await balanceOf(signers.bob)).to.eq(5n);
+
+      await time.increaseTo(until + 1);
+      expect(await points.isOperator(signers.alice.address, signers.bob.address)).to.eq(false);
+    });
+
+    it("only lets the lottery mint and burn points", async function () {
+      const handle = await points.confidentialBalanceOf(signers.alice.address);
+      await expect(points.connect(signers.alice).mint(signers.alice.address, handle)).to.be.revertedWith(
+        "Caller is not the minter",
+      );
+      await expect(points.connect(signers.alice).burn(signers.bob.address, handle)).to.be.revertedWith(
+        "Caller is not the minter",
+      );
+      await expect(points.connect(signers.alice).setMinter(signers.alice.address))
+        .to.be.revertedWithCustomError(points, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+    });
+  });
+
+  describe("score redemption", function () {
+    const POINT_VALUE = ethers.parseEther("0.0001");
+
+    let pointsAddress: string;
+
+    async function decryptScore(player: HardhatEthersSigner) {
+      const score = await contract.getScore(player.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, score, pointsAddress, player);
+    }
+
+    async function redeem(player: HardhatEthersSigner, amount: number) {
+      const input = await fhevm.createEncryptedInput(pointsAddress, player.address).add32(amount).encrypt();
+      await (await points.connect(player).redeem(input.handles[0], input.inputProof)).wait();
+    }
+
+    async function finalize(player: HardhatEthersSigner) {
+      const { amount } = await points.getPendingRedemption(player.address);
+      const decrypted = await fhevm.publicDecrypt([amount]);
+      return points.connect(player).finalizeRedemption(decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+    }
+
+    beforeEach(async function () {
+      pointsAddress = await points.getAddress();
+      // Alice earns 20 points from two winning tickets
+      await buyTickets(contract, contractAddress, signers.alice, [5, 5]);
+      await executeDraw(contract, provider, signers.deployer, 4);
+      await contract.connect(signers.alice).claimAllForDraw(1);
+    });
+
+    it("pays out approved points in ETH at the configured rate", async function () {
+      await expect(redeem(signers.alice, 5)).to.be.revertedWith("Redemptions disabled");
+      await expect(points.connect(signers.alice).setRedemptionTerms(ethers.ZeroAddress, POINT_VALUE))
+        .to.be.revertedWithCustomError(points, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+
+      await points.connect(signers.deployer).setRedemptionTerms(ethers.ZeroAddress, POINT_VALUE);
+      await points
+        .connect(signers.deployer)
+        .fundRedemptions(ethers.ZeroAddress, POINT_VALUE * 100n, { value: POINT_VALUE * 100n });
+
+      await redeem(signers.alice, 12);
+      expect(await decryptScore(signers.alice)).to.eq(8n);
+      await expect(redeem(signers.alice, 1)).to.be.revertedWith("Redemption pending");
+
+      const tx = finalize(signers.alice);
+      await expect(tx)
+        .to.emit(points, "ScoreRedeemed")
+        .withArgs(signers.alice.address, ethers.ZeroAddress, 12, POINT_VALUE * 12n);
+      await expect(tx).to.changeEtherBalance(signers.alice, POINT_VALUE * 12n);
+      expect(await points.redemptionReserves(ethers.ZeroAddress)).to.eq(POINT_VALUE * 88n);
+      await expect(points.connect(signers.alice).finalizeRedemption("0x", "0x")).to.be.revertedWith(
+        "No pending redemption",
+      );
+    });
+
+    it("redeems nothing when the score does not cover the amount", async function () {
+      await points.connect(signers.deployer).setRedemptionTerms(ethers.ZeroAddress, POINT_VALUE);
+
+      await redeem(signers.alice, 21);
+      expect(await decryptScore(signers.alice)).to.eq(20n);
+      await expect(finalize(signers.alice))
+        .to.emit(points, "ScoreRedeemed")
+        .withArgs(signers.alice.address, ethers.ZeroAddress, 0, 0);
+
+      await expect(redeem(signers.bob, 1)).to.be.revertedWith("No score to redeem");
+    });
+
+    it("pays out ERC-20 tokens and waits for the reserve to cover the payout", async function () {
+      const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+      const token = (await tokenFactory.deploy("Reward", "RWD")) as MockERC20;
+      const tokenAddress = await token.getAddress();
+      await points.connect(signers.deployer).setRedemptionTerms(tokenAddress, 1000n);
+
+      await redeem(signers.alice, 20);
+      // Terms are locked at request time
+      await points.connect(signers.deployer).setRedemptionTerms(ethers.ZeroAddress, 1n);
+      await expect(finalize(signers.alice)).to.be.revertedWith("Insufficient redemption reserve");
+
+      await token.mint(signers.deployer.address, 50_000n);
+      await token.connect(signers.deployer).approve(pointsAddress, 50_000n);
+      await expect(
+        points.connect(signers.deployer).fundRedemptions(tokenAddress, 50_000n, { value: 1n }),
+      ).to.be.revertedWith("Invalid funding amount");
+      await points.connect(signers.deployer).fundRedemptions(tokenAddress, 50_000n);
+
+      await finalize(signers.alice);
+      expect(await token.balanceOf(signers.alice.address)).to.eq(20_000n);
+      expect(await points.redemptionReserves(tokenAddress)).to.eq(30_000n);
+      expect(await decryptScore(signers.alice)).to.eq(0n);
+    });
+  });
+
+  describe("number validation", function () {
+    async function decryptScore(player: HardhatEthersSigner) {
+      const score = await contract.getScore(player.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, score, await contract.points(), player);
+    }
+
+    it("flags out-of-range numbers without revealing them", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 0);
+      await buyTicket(contract, contractAddress, signers.alice, 10);
+      await buyTicket(contract, contractAddress, signers.alice, 200);
+      await buyTicket(contract, contractAddress, signers.alice, 9);
+
+      const tickets = await contract.getTickets(signers.alice.address);
+      const validity: boolean[] = [];
+      for (const ticket of tickets) {
+        validity.push(await fhevm.userDecryptEbool(ticket.valid, contractAddress, signers.alice));
+      }
+      expect(validity).to.deep.eq([false, false, false, true]);
+    });
+
+    it("never rewards tickets holding out-of-range numbers", async function () {
+      // A consolation reward for zero matches would otherwise be paid to any ticket
+      await contract.connect(signers.deployer).setDrawConfig(1, 9, 1, [3, 10]);
+      const outOfRange = [0, 10, 200, 255];
+      for (const number of outOfRange) {
+        await buyTicket(contract, contractAddress, signers.alice, number);
+      }
+      await buyTicket(contract, contractAddress, signers.bob, 1);
+      const [winningNumber] = await executeDraw(contract, provider, signers.deployer, 4);
+      expect(winningNumber).to.eq(5);
+
+      for (let index = 0; index < outOfRange.length; index++) {
+        await contract.connect(signers.alice).claimTicket(index);
+      }
+      expect(await decryptScore(signers.alice)).to.eq(0n);
+
+      await contract.connect(signers.bob).claimTicket(0);
+      expect(await decryptScore(signers.bob)).to.eq(3n);
+    });
+
+    it("voids partial matches when any pick is out of range", async function () {
+      await contract.connect(signers.deployer).setDrawConfig(1, 9, 3, [0, 1, 5, 50]);
+      await buyTicket(contract, contractAddress, signers.bob, [1, 2, 3]);
+      const winningNumbers = await executeDraw(contract, provider, signers.deployer, 11);
+
+      const invalid = await buyTicket(contract, contractAddress, signers.alice, [
+        winningNumbers[0],
+        winningNumbers[1],
+        200,
+      ]);
+      const miss = [1, 2, 3, 4].find((number) => !winningNumbers.includes(number))!;
+      const valid = await buyTicket(contract, contractAddress, signers.bob, [
+        winningNumbers[0],
+        winningNumbers[1],
+        miss,
+      ]);
+      await executeDraw(contract, provider, signers.deployer, 11);
+
+      await contract.connect(signers.alice).claimTicket(invalid);
+      expect(await decryptScore(signers.alice)).to.eq(0n);
+      await contract.connect(signers.bob).claimTicket(valid);
+      expect(await decryptScore(signers.bob)).to.eq(5n);
+    });
+  });
+
+  describe("purchase limits", function () {
+    it("caps the tickets of each player and of each draw", async function () {
+      await expect(contract.connect(signers.alice).setPurchaseLimits(2, 3, false))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+      await expect(contract.setPurchaseLimits(2, 3, false))
+        .to.emit(contract, "PurchaseLimitsUpdated")
+        .withArgs(2, 3, false);
+
+      await buyTickets(contract, contractAddress, signers.alice, [1, 2]);
+      await expect(buyTicket(contract, contractAddress, signers.alice, 3)).to.be.revertedWith("Ticket limit reached");
+      await expect(buyTickets(contract, contractAddress, signers.bob, [4, 5])).to.be.revertedWith("Draw sold out");
+      await buyTicket(contract, contractAddress, signers.bob, 4);
+      await expect(buyTicket(contract, contractAddress, signers.deployer, 6)).to.be.revertedWith("Draw sold out");
+
+      // Limits only change the active draw before it sells a ticket; the next draw starts counting afresh
+      await contract.setPurchaseLimits(1, 0, false);
+      expect((await contract.getDraw(1)).limits.perPlayer).to.eq(2n);
+      await executeDraw(contract, provider, signers.deployer, 0);
+      expect((await contract.getDraw(2)).limits.perPlayer).to.eq(1n);
+      await buyTicket(contract, contractAddress, signers.alice, 1);
+      await expect(buyTicket(contract, contractAddress, signers.alice, 2)).to.be.revertedWith("Ticket limit reached");
+    });
+
+    it("frees a player's limit when one of their tickets is refunded", async function () {
+      await contract.setPurchaseLimits(2, 0, false);
+      await buyTickets(contract, contractAddress, signers.alice, [1, 2]);
+      await contract.pause();
+      await contract.connect(signers.alice).emergencyRefund(0);
+      await contract.unpause();
+
+      expect((await contract.getPlayerDraw(signers.alice.address, 1)).bought).to.eq(1n);
+      await buyTicket(contract, contractAddress, signers.alice, 3);
+      await expect(buyTicket(contract, contractAddress, signers.alice, 4)).to.be.revertedWith("Ticket limit reached");
+    });
+
+    it("voids tickets repeating a number the player already picked in the draw", async function () {
+      await contract.setDrawConfig(1, 9, 2, [0, 0, 10]);
+      await contract.setPurchaseLimits(0, 0, true);
+
+      // Void tickets leave their numbers available, so 3 and 4 still make a valid ticket
+      await buyTickets(contract, contractAddress, signers.alice, [
+        [1, 2],
+        [2, 3],
+        [3, 3],
+      ]);
+      await buyTicket(contract, contractAddress, signers.alice, [3, 4]);
+      await buyTicket(contract, contractAddress, signers.alice, [4, 5]);
+      await buyTicket(contract, contractAddress, signers.bob, [1, 2]);
+
+      const validity = async (player: HardhatEthersSigner) => {
+        const result: boolean[] = [];
+        for (const ticket of await contract.getTickets(player.address)) {
+          result.push(await fhevm.userDecryptEbool(ticket.valid, contractAddress, player));
+        }
+        return result;
+      };
+      expect(await validity(signers.alice)).to.deep.eq([true, false, false, true, false]);
+      expect(await validity(signers.bob)).to.deep.eq([true]);
+    });
+
+    it("never lets a void ticket win the pot", async function () {
+      await contract.setPurchaseLimits(0, 0, true);
+      const first = await buyTicket(contract, contractAddress, signers.alice, 5);
+      const repeat = await buyTicket(contract, contractAddress, signers.alice, 5);
+      expect(await executeDraw(contract, provider, signers.deployer, 4)).to.deep.eq([5]);
+
+      await contract.connect(signers.alice).claimTickets([first, repeat]);
+      const score = await contract.getScore(signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, score, await contract.points(), signers.alice)).to.eq(10n);
+      const tickets = await contract.getTickets(signers.alice.address);
+      const outcome = await fhevm.publicDecrypt([tickets[Number(repeat)].outcome]);
+      expect(outcome.clearValues[tickets[Number(repeat)].outcome as `0x${string}`]).to.eq(false);
+      await expect(
+        contract.connect(signers.alice).confirmWin(repeat, outcome.abiEncodedClearValues, outcome.decryptionProof),
+      ).to.be.revertedWith("Ticket did not win");
+
+      await time.increase(await contract.SETTLEMENT_PERIOD());
+      await expect(contract.connect(signers.alice).collectPrize(repeat)).to.be.revertedWith("Win not confirmed");
+
+      await time.increase(await contract.defaultClaimWindow());
+      expect(await sdk.publishWinnerTally(contract, fhevm, 1)).to.eq(1);
+    });
+  });
+
+  describe("bitmask tickets", function () {
+    async function decryptBitmap(player: HardhatEthersSigner, drawId: number) {
+      const { bitmap } = await contract.getPlayerDraw(player.address, drawId);
+      return fhevm.userDecryptEuint(FhevmType.euint32, bitmap, contractAddress, player);
+    }
+
+    it("keeps every number of a player in one bitmap and claims it against the drawn number", async function () {
+      await expect(contract.connect(signers.alice).setTicketMode(true))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.alice.address);
+      await expect(contract.setTicketMode(true)).to.emit(contract, "TicketModeUpdated").withArgs(true);
+      await expect(contract.setDrawConfig(1, 40, 1, [0, 10])).to.be.revertedWith("Invalid bitmask config");
+      await expect(contract.setDrawConfig(1, 9, 2, [0, 0, 10])).to.be.revertedWith("Invalid bitmask config");
+      expect((await contract.getDraw(1)).config.bitmask).to.eq(true);
+
+      expect(await buyTickets(contract, contractAddress, signers.alice, [3, 5])).to.deep.eq([0n, 0n]);
+      expect(await buyTicket(contract, contractAddress, signers.alice, 7)).to.eq(0n);
+      // Numbers above the range set no bit
+      await buyTicket(contract, contractAddress, signers.alice, 200);
+      await buyTicket(contract, contractAddress, signers.bob, 3);
+
+      expect(await contract.totalTickets(signers.alice.address)).to.eq(1n);
+      expect((await contract.getPlayerDraw(signers.alice.address, 1)).bought).to.eq(4n);
+      const draw = await contract.getDraw(1);
+      expect(draw.ticketCount).to.eq(5n);
+      expect(draw.pot).to.eq(TICKET_PRICE * 5n);
+      expect(await decryptBitmap(signers.alice, 1)).to.eq((1n << 3n) | (1n << 5n) | (1n << 7n));
+      expect(await sdk.decryptTicket(contract.connect(signers.alice), fhevm, 0)).to.deep.eq([3, 5, 7]);
+
+      expect(await executeDraw(contract, provider, signers.deployer, 4)).to.deep.eq([5]);
+      await contract.connect(signers.alice).claimTicket(0);
+      await contract.connect(signers.bob).claimTicket(0);
+      const [aliceTicket] = await contract.getTickets(signers.alice.address);
+      const [bobTicket] = await contract.getTickets(signers.bob.address);
+      const outcomes = await fhevm.publicDecrypt([aliceTicket.outcome, bobTicket.outcome]);
+      expect(outcomes.clearValues[aliceTicket.outcome as `0x${string}`]).to.eq(true);
+      expect(outcomes.clearValues[bobTicket.outcome as `0x${string}`]).to.eq(false);
+    });
+
+    it("refunds every purchase a bitmap holds", async function () {
+      await contract.setTicketMode(true);
+      await contract.setPurchaseLimits(3, 0, false);
+      await buyTickets(contract, contractAddress, signers.alice, [1, 2, 3]);
+      await expect(buyTicket(contract, contractAddress, signers.alice, 4)).to.be.revertedWith("Ticket limit reached");
+
+      await contract.cancelDraw(1);
+      const refund = contract.connect(signers.alice).refundTicket(0);
+      await expect(refund).to.changeEtherBalance(signers.alice, TICKET_PRICE * 3n);
+      expect(sdk.decodeTicketRefunded(await (await refund).wait())).to.deep.eq([
+        { player: signers.alice.address, drawId: 1n, ticketIndex: 0n, amount: TICKET_PRICE * 3n },
+      ]);
+      const draw = await contract.getDraw(1);
+      expect(draw.ticketCount).to.eq(0n);
+      expect(draw.pot).to.eq(0n);
+    });
+
+    it("starts a new ticket for purchases after the shared one was refunded", async function () {
+      await contract.setTicketMode(true);
+      await buyTickets(contract, contractAddress, signers.alice, [1, 2]);
+      await contract.pause();
+      await expect(contract.connect(signers.alice).emergencyRefund(0)).to.changeEtherBalance(
+        signers.alice,
+        TICKET_PRICE * 2n,
+      );
+      await contract.unpause();
+
+      expect(await buyTicket(contract, contractAddress, signers.alice, 5)).to.eq(1n);
+      expect(await contract.totalTickets(signers.alice.address)).to.eq(2n);
+      expect((await contract.getPlayerDraw(signers.alice.address, 1)).bought).to.eq(1n);
+      expect(await decryptBitmap(signers.alice, 1)).to.eq(1n << 5n);
+      const draw = await contract.getDraw(1);
+      expect(draw.ticketCount).to.eq(1n);
+      expect(draw.pot).to.eq(TICKET_PRICE);
+
+      await executeDraw(contract, provider, signers.deployer, 4);
+      await contract.connect(signers.alice).claimAllForDraw(1);
+      const tickets = await contract.getTickets(signers.alice.address);
+      expect([tickets[0].refunded, tickets[0].claimed, tickets[1].claimed]).to.deep.eq([true, false, true]);
+      const outcome = await fhevm.publicDecrypt([tickets[1].outcome]);
+      expect(outcome.clearValues[tickets[1].outcome as `0x${string}`]).to.eq(true);
+    });
+
+    it("reports the gas of purchases and claims in both ticket modes", async function () {
+      const report: Record<string, Record<string, bigint>> = {};
+      for (const bitmask of [false, true]) {
+        const drawId = Number(await contract.currentDrawId());
+        await contract.setTicketMode(bitmask);
+
+        const buy = (number: number) =>
+          sdk.buyTicket(contract.connect(signers.alice), fhevm, [number]).then(({ receipt }) => receipt.gasUsed);
+        const first = await buy(1);
+        const next = await buy(2);
+        await executeDraw(contract, provider, signers.deployer, 0);
+        const [ticketIndex] = await contract.getPlayerDraw(signers.alice.address, drawId).then((d) => d.tickets);
+        const claimReceipt = await (await contract.connect(signers.alice).claimTicket(ticketIndex)).wait();
+        const claim = claimReceipt!.gasUsed;
+
+        report[bitmask ? "bitmask" : "ticket"] = { "first purchase": first, "next purchase": next, claim };
+      }
+      console.table(report);
+
+      expect(report.bitmask["next purchase"]).to.be.lessThan(report.ticket["next purchase"]);
+    });
+  });
+
+  describe("randomness", function () {
+    it("closes sales on request and settles the draw on fulfilment", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 4);
+
+      await expect(contract.connect(signers.deployer).executeDraw())
+        .to.emit(contract, "DrawRequested")
+        .withArgs(1, 1)
+        .and.to.emit(provider, "RandomnessRequested")
+        .withArgs(1, contractAddress, 1);
+
+      expect(await contract.currentDrawId()).to.eq(2n);
+      const pending = await contract.getDraw(1);
+      expect(pending.requested).to.eq(true);
+      expect(pending.executed).to.eq(false);
+      await expect(contract.connect(signers.alice).claimTicket(0)).to.be.revertedWith("Draw not executed");
+
+      await expect(provider.fulfillRandomness(pending.requestId, 22))
+        .to.emit(contract, "DrawExecuted")
+        .withArgs(1, [5], 10);
+      await expect(provider.fulfillRandomness(pending.requestId, 3)).to.be.revertedWith("Request already fulfilled");
+    });
+
+    it("only accepts randomness from its provider", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 4);
+      await contract.connect(signers.deployer).executeDraw();
+      await expect(contract.connect(signers.bob).rawFulfillRandomness(1, 3)).to.be.revertedWith(
+        "Only randomness provider",
+      );
+    });
+  });
+
+  describe("access control and scheduling", function () {
+    it("restricts draw execution to the owner and operators", async function () {
+      await buyTicket(contract, contractAddress, signers.alice, 4);
+
+      await expect(contract.connect(signers.bob).executeDraw()).to.be.revertedWith("Caller is not an operator");
+      await expect(contract.connect(signers.bob).setOperator(signers.bob.address, true))
+        .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+        .withArgs(signers.bob.address);
+
+      await expect(contract.connect(signers.deployer).setOperator(signers.bob.address, true))
+        .to.emit(contract, "OperatorUpdated")
+        .withArgs(signers.bob.address, true);
+      expect(await contract.isOperator(signers.bob.address)).to.eq(true);
+      await expect(contract.connect(signers.bob).executeDraw()).to.emit(contract, "DrawRequested");
+    });
+
+    it("refuses to draw before any ticket is sold", async function () {
+      await expect(contract.connect(signers.deployer).executeDraw()).to.be.revertedWith("Not enough tickets");
+    });
+
+    it("enforces the sales window and minimum ticket count", async function () {
+      const salesCloseAt = BigInt(await time.latest()) + 3600n;
+      await expect(contract.connect(signers.deployer).scheduleDraw(salesCloseAt, 2))
+        .to.emit(contract, "DrawScheduled")
+        .withArgs(1, salesCloseAt, 2);
+      await expect(contract.connect(signers.alice).scheduleDraw(salesCloseAt, 2)).to.be.revertedWith(
+        "Caller is not an operator",
+      );
+
+      await buyTicket(contract, contractAddress, signers.alice, 4);
+      await expect(contract.connect(signers.deployer).executeDraw()).to.be.revertedWith("Ticket sales still open");
+
+      await time.increaseTo(salesCloseAt);
+      await expect(contract.connect(signers.deployer).executeDraw()).to.be.revertedWith("Not enough tickets");
+      await expect(buyTicket(contract, contractAddress, signers.bob, 5)).to.be.revertedWith("Ticket sales closed");
+
+      await contract.connect(signers.deployer).scheduleDraw(salesCloseAt + 3600n, 2);
+      await buyTicket(contract, contractAddress, signers.bob, 5);
+      await time.increaseTo(salesCloseAt + 3600n);
+
+      await expect(contract.connect(signers.deployer).executeDraw()).to.emit(contract, "DrawRequested");
+      const draw = await contract.getDraw(1);
+      expect(draw.ticketCount).to.eq(2n);
+    });
+
+    it("applies the default schedule to newly opened draws", async function () {
+      await contract.connect(signers.deployer).setDefaultSchedule(600, 3);
+      await buyTicket(contract, contractAddress, signers.alice, 4);
+      await contract.connect(signers.deployer).executeDraw();
+
+      const openedAt = BigInt(await time.latest());
+      const draw = await contract.getDraw(2);
+      expect(draw.salesCloseAt).to.eq(openedAt + 600n);
+      expect(draw.minTickets).to.eq(3n);
+    });
+  });
 });
@@ -0,0 +1,90 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import { LuckyBall, MockRandomnessProvider, MockRandomnessProvider__factory } from "../types";
+import { ClaimRelayer } from "../relayer/claims";
+import * as sdk from "../sdk/src";
+import { deployLuckyBall } from "./fixtures";
+
+describe("LuckyBall claim relayer", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let relayerSigner: HardhatEthersSigner;
+  let provider: MockRandomnessProvider;
+  let contract: LuckyBall;
+
+  async function drawWith(randomness: number) {
+    const { requestId } = await sdk.executeDraw(contract.connect(deployer));
+    await provider.fulfillRandomness(requestId, randomness);
+  }
+
+  async function claimedIndices(player: HardhatEthersSigner) {
+    const tickets = (await contract.getTickets(player.address)).map(sdk.normalizeTicket);
+    return tickets.filter((ticket) => ticket.claimed).map((ticket) => ticket.index);
+  }
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("LuckyBall claim relayer tests require FHEVM mock");
+      this.skip();
+    }
+
+    [deployer, alice, bob, relayerSigner] = await ethers.getSigners();
+    provider = await (
+      (await ethers.getContractFactory("MockRandomnessProvider")) as MockRandomnessProvider__factory
+    ).deploy();
+    ({ contract } = await deployLuckyBall(await provider.getAddress()));
+  });
+
+  it("claims the open tickets of opted-in players in batches", async function () {
+    await contract.connect(alice).setAutoClaim(true);
+    await sdk.buyTickets(contract.connect(alice), fhevm, [[1], [2], [3]]);
+    await sdk.buyTicket(contract.connect(bob), fhevm, [1]);
+    await drawWith(0);
+    await sdk.buyTicket(contract.connect(alice), fhevm, [4]);
+
+    const relayer = new ClaimRelayer(contract.connect(relayerSigner), { batchSize: 2 });
+    const claims = await relayer.claimOpenTickets();
+    expect(claims.map((claim) => claim.ticketIndices)).to.deep.eq([[0n, 1n], [2n]]);
+    expect(claims.every((claim) => claim.player === alice.address)).to.eq(true);
+
+    // The ticket of the open draw and the player who did not opt in are left alone
+    expect(await claimedIndices(alice)).to.deep.eq([0, 1, 2]);
+    expect(await claimedIndices(bob)).to.deep.eq([]);
+    expect(await sdk.decryptScore(contract.connect(alice), fhevm)).to.eq(10n);
+    expect(await relayer.claimOpenTickets()).to.deep.eq([]);
+  });
+
+  it("skips tickets whose claim window has closed", async function () {
+    await contract.connect(alice).setAutoClaim(true);
+    await sdk.buyTicket(contract.connect(alice), fhevm, [1]);
+    await drawWith(0);
+    await time.increase((await contract.defaultClaimWindow()) + 1n);
+
+    expect(await new ClaimRelayer(contract.connect(relayerSigner)).openTickets()).to.deep.eq(new Map());
+  });
+
+  it("sweeps after every DrawExecuted event while running", async function () {
+    await contract.connect(alice).setAutoClaim(true);
+    const relayer = new ClaimRelayer(contract.connect(relayerSigner));
+    const logs: string[] = [];
+    await relayer.start((message) => logs.push(message));
+
+    try {
+      await sdk.buyTicket(contract.connect(alice), fhevm, [1]);
+      await drawWith(0);
+
+      for (let i = 0; i < 100 && (await claimedIndices(alice)).length === 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await relayer.idle();
+      }
+      expect(await claimedIndices(alice)).to.deep.eq([0]);
+      expect(logs[0]).to.eq("Draw #1 executed");
+    } finally {
+      await relayer.stop();
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import type { AddressInfo } from "net";
+
+import { LuckyBall, MockRandomnessProvider__factory } from "../types";
+import { DrawKeeper } from "../keeper/keeper";
+import { createHealthServer } from "../keeper/server";
+import * as sdk from "../sdk/src";
+import { deployLuckyBall } from "./fixtures";
+
+describe("LuckyBall keeper", function () {
+  let alice: HardhatEthersSigner;
+  let contract: LuckyBall;
+
+  async function buyTickets(count: number) {
+    await sdk.buyTickets(
+      contract.connect(alice),
+      fhevm,
+      Array.from({ length: count }, () => [1]),
+    );
+  }
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("LuckyBall keeper tests require FHEVM mock");
+      this.skip();
+    }
+
+    [, alice] = await ethers.getSigners();
+    const provider = await (
+      (await ethers.getContractFactory("MockRandomnessProvider")) as MockRandomnessProvider__factory
+    ).deploy();
+    ({ contract } = await deployLuckyBall(await provider.getAddress()));
+  });
+
+  afterEach(async function () {
+    await ethers.provider.send("evm_setAutomine", [true]);
+  });
+
+  it("executes the draw once the ticket threshold is reached", async function () {
+    const keeper = new DrawKeeper(contract, { ticketThreshold: 3 });
+
+    await buyTickets(2);
+    expect(await keeper.check()).to.deep.include({
+      action: "skipped",
+      drawId: 1,
+      reason: "waiting for cadence or ticket threshold",
+    });
+
+    await buyTickets(1);
+    // A paused lottery is skipped without counting as a failed check
+    await contract.pause();
+    expect(await keeper.check()).to.deep.include({ action: "skipped", drawId: 1, reason: "paused" });
+    expect(keeper.metrics).to.deep.include({ failures: 0, consecutiveFailures: 0 });
+    await contract.unpause();
+
+    const result = await keeper.check();
+    expect(result).to.deep.include({ action: "executed", drawId: 1, attempts: 1 });
+    expect(await contract.currentDrawId()).to.eq(2n);
+
+    expect(await keeper.check()).to.deep.include({ action: "skipped", drawId: 2, reason: "not enough tickets" });
+    expect(keeper.metrics).to.deep.include({ checks: 4, drawsExecuted: 1, lastExecutedDrawId: 1, activeDrawId: 2 });
+  });
+
+  it("follows its cadence and the draw schedule as time passes", async function () {
+    const keeper = new DrawKeeper(contract, { cadence: 3600 });
+
+    await buyTickets(1);
+    expect((await keeper.check()).action).to.eq("skipped");
+    await time.increase(3600);
+    expect((await keeper.check()).action).to.eq("executed");
+
+    // A scheduled close is due on its own, and an early cadence does not override it
+    await contract.scheduleDraw((await time.latest()) + 7200, 2);
+    await buyTickets(2);
+    await time.increase(3600);
+    expect(await keeper.check()).to.deep.include({ action: "skipped", reason: "ticket sales still open" });
+    await time.increase(3600);
+    expect(await keeper.check()).to.deep.include({ action: "executed", drawId: 2 });
+  });
+
+  it("replaces a stalled transaction with bumped fees", async function () {
+    const keeper = new DrawKeeper(contract, { ticketThreshold: 1, confirmTimeout: 300, gasBumpPercent: 25 });
+    await buyTickets(1);
+    const { maxFeePerGas } = await ethers.provider.getFeeData();
+
+    await ethers.provider.send("evm_setAutomine", [false]);
+    const pending = keeper.check();
+
+    // The first attempt sits in the mempool until the keeper replaces it
+    let replaced: { maxFeePerGas: string } | undefined;
+    for (let i = 0; i < 100 && !replaced; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const block = await ethers.provider.send("eth_getBlockByNumber", ["pending", true]);
+      replaced = (block.transactions as { maxFeePerGas: string }[]).find(
+        (tx) => BigInt(tx.maxFeePerGas) > maxFeePerGas!,
+      );
+    }
+    expect(BigInt(replaced!.maxFeePerGas)).to.eq((maxFeePerGas! * 125n) / 100n);
+    await ethers.provider.send("evm_mine", []);
+
+    const result = await pending;
+    expect(result).to.deep.include({ action: "executed", drawId: 1, attempts: 2 });
+    expect(keeper.metrics.retries).to.eq(1);
+    expect(await contract.currentDrawId()).to.eq(2n);
+  });
+
+  it("reports an attempt that was mined while the keeper prepared its replacement", async function () {
+    const keeper = new DrawKeeper(contract, { ticketThreshold: 1, confirmTimeout: 300 });
+    await buyTickets(1);
+
+    // The node lags: receipts only show up once the keeper simulates its next attempt, which then reverts
+    const provider = ethers.provider;
+    const { getTransactionReceipt, call } = provider;
+    let mined = false;
+    let lagging = true;
+    provider.getTransactionReceipt = (hash) =>
+      lagging ? Promise.resolve(null) : getTransactionReceipt.call(provider, hash);
+    provider.call = (tx) => {
+      lagging = !mined;
+      return call.call(provider, tx);
+    };
+
+    try {
+      await ethers.provider.send("evm_setAutomine", [false]);
+      const pending = keeper.check();
+      for (let i = 0; i < 100 && !mined; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        const block = await ethers.provider.send("eth_getBlockByNumber", ["pending", false]);
+        if (block.transactions.length > 0) {
+          await ethers.provider.send("evm_mine", []);
+          mined = true;
+        }
+      }
+
+      expect(await pending).to.deep.include({ action: "executed", drawId: 1, attempts: 1 });
+      expect(keeper.metrics.retries).to.eq(1);
+      expect(await contract.currentDrawId()).to.eq(2n);
+    } finally {
+      provider.getTransactionReceipt = getTransactionReceipt;
+      provider.call = call;
+    }
+  });
+
+  it("reports failing checks through its health endpoints", async function () {
+    await buyTickets(1);
+    const keeper = new DrawKeeper(contract.connect(alice), { ticketThreshold: 1 });
+    const server = createHealthServer(keeper).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      expect((await fetch(`${baseUrl}/health`)).status).to.eq(200);
+
+      // Reverts are not retried
+      for (let i = 0; i < 3; i++) {
+        await expect(keeper.check()).to.be.rejected;
+      }
+      expect(keeper.metrics).to.deep.include({ retries: 0, failures: 3 });
+      expect(keeper.metrics.lastError).to.include("Caller is not an operator");
+
+      const health = await fetch(`${baseUrl}/health`);
+      expect(health.status).to.eq(503);
+      expect(await health.json()).to.deep.include({ healthy: false, consecutiveFailures: 3 });
+
+      const metrics = await (await fetch(`${baseUrl}/metrics`)).text();
+      expect(metrics).to.include("luckyball_keeper_failures_total 3");
+      expect(metrics).to.include("luckyball_keeper_healthy 0");
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import type { AddressInfo } from "net";
+
+import {
+  LuckyBall,
+  LuckyBallForwarder,
+  LuckyBallForwarder__factory,
+  MockERC20,
+  MockERC20__factory,
+  MockRandomnessProvider__factory,
+} from "../types";
+import { PurchaseRelayer } from "../relayer/purchases";
+import { createRelayServer } from "../relayer/server";
+import * as sdk from "../sdk/src";
+import { deployLuckyBall } from "./fixtures";
+
+describe("LuckyBall purchase relayer", function () {
+  const PRICE = 5_000_000n;
+
+  let alice: HardhatEthersSigner;
+  let relayerSigner: HardhatEthersSigner;
+  let forwarder: LuckyBallForwarder;
+  let contract: LuckyBall;
+  let relayer: PurchaseRelayer;
+  let deadline: bigint;
+  let token: MockERC20;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("LuckyBall purchase relayer tests require FHEVM mock");
+      this.skip();
+    }
+
+    [, alice, relayerSigner] = await ethers.getSigners();
+    const provider = await (
+      (await ethers.getContractFactory("MockRandomnessProvider")) as MockRandomnessProvider__factory
+    ).deploy();
+    forwarder = await ((await ethers.getContractFactory("LuckyBallForwarder")) as LuckyBallForwarder__factory).deploy();
+    ({ contract } = await deployLuckyBall(await provider.getAddress(), await forwarder.getAddress()));
+
+    relayer = new PurchaseRelayer(contract.connect(relayerSigner), forwarder.connect(relayerSigner), {
+      maxTicketsPerRequest: 2,
+    });
+    deadline = BigInt(await time.latest()) + 3600n;
+
+    const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+    token = (await tokenFactory.deploy("Dollar", "USD")) as MockERC20;
+    await token.mint(alice.address, PRICE * 10n);
+    await contract.setPaymentToken(token, PRICE);
+    await sdk.approveTicketPayment(contract.connect(alice), 10);
+  });
+
+  it("relays purchases posted to its endpoint without charging the player gas", async function () {
+    const server = createRelayServer(relayer, () => {}).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      const aliceBalance = await ethers.provider.getBalance(alice.address);
+      const request = await sdk.signSponsoredPurchase(contract.connect(alice), forwarder, fhevm, [[3], [5]], deadline);
+      const body = JSON.stringify(request, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+
+      const response = await fetch(`${baseUrl}/purchases`, { method: "POST", body });
+      expect(response.status).to.eq(200);
+      expect(await response.json()).to.deep.include({ player: alice.address, ticketIndices: ["0", "1"] });
+      expect(await contract.totalTickets(alice.address)).to.eq(2n);
+      expect(await ethers.provider.getBalance(alice.address)).to.eq(aliceBalance);
+      expect(await token.balanceOf(alice.address)).to.eq(PRICE * 8n);
+
+      const replay = await fetch(`${baseUrl}/purchases`, { method: "POST", body });
+      expect(replay.status).to.eq(400);
+      expect(await replay.json()).to.deep.eq({ error: "Invalid or expired request signature" });
+    } finally {
+      server.close();
+    }
+  });
+
+  it("only sponsors the gas of ticket purchases within its limit", async function () {
+    const contractAddress = await contract.getAddress();
+    const sign = (call: { data: string; value?: bigint; to?: string }) =>
+      sdk.signForwardRequest(forwarder, alice, { to: contractAddress, value: 0n, gas: 1_000_000n, deadline, ...call });
+
+    const autoClaim = await sign({ data: contract.interface.encodeFunctionData("setAutoClaim", [true]) });
+    await expect(relayer.relay(autoClaim)).to.be.rejectedWith("Only ticket purchases are sponsored");
+    await expect(relayer.relay({ ...autoClaim, to: await forwarder.getAddress() })).to.be.rejectedWith(
+      "Request does not target LuckyBall",
+    );
+
+    const tooMany = await sdk.signSponsoredPurchase(
+      contract.connect(alice),
+      forwarder,
+      fhevm,
+      [[1], [2], [3]],
+      deadline,
+    );
+    await expect(relayer.relay(tooMany)).to.be.rejectedWith("Sponsored purchases are limited to 2 ticket(s)");
+
+    // Fronting an ETH price would hand the relayer's money to the player if the draw were refunded
+    const { data } = await sdk.signSponsoredPurchase(contract.connect(alice), forwarder, fhevm, [[1]], deadline);
+    await expect(relayer.relay(await sign({ data, value: PRICE }))).to.be.rejectedWith(
+      "Sponsored purchases only cover gas",
+    );
+    await contract.setPaymentToken(ethers.ZeroAddress, 0);
+    await expect(relayer.relay(await sign({ data }))).to.be.rejectedWith("Only token-priced draws are sponsored");
+    await expect(
+      sdk.signSponsoredPurchase(contract.connect(alice), forwarder, fhevm, [[1]], deadline),
+    ).to.be.rejectedWith("Only token-priced draws can be sponsored");
+    expect(await contract.totalTickets(alice.address)).to.eq(0n);
+  });
+
+  it("reports why LuckyBall would reject a forwarded purchase", async function () {
+    const request = await sdk.signSponsoredPurchase(contract.connect(alice), forwarder, fhevm, [[3]], deadline);
+    await contract.scheduleDraw((await time.latest()) + 60, 0);
+    await time.increase(120);
+
+    await expect(relayer.relay(request)).to.be.rejectedWith("Ticket sales closed");
+    expect(await forwarder.nonces(alice.address)).to.eq(0n);
+  });
+});
@@ -0,0 +1,86 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+
+import { LuckyBall, MockRandomnessProvider, MockRandomnessProvider__factory } from "../types";
+import * as sdk from "../sdk/src";
+import { deployLuckyBall } from "./fixtures";
+
+describe("luckyball-sdk", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let contract: LuckyBall;
+  let provider: MockRandomnessProvider;
+  let backend: sdk.FhevmBackend;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("luckyball-sdk tests require FHEVM mock");
+      this.skip();
+    }
+
+    [deployer, alice] = await ethers.getSigners();
+    provider = await (
+      (await ethers.getContractFactory("MockRandomnessProvider")) as MockRandomnessProvider__factory
+    ).deploy();
+    ({ contract } = await deployLuckyBall(await provider.getAddress()));
+    backend = await sdk.hardhatBackend(fhevm);
+  });
+
+  it("buys, draws, claims and decrypts through the hardhat backend", async function () {
+    const player = contract.connect(alice);
+    expect(await sdk.decryptScore(player, backend)).to.eq(0n);
+
+    const single = await sdk.buyTicket(player, backend, [5]);
+    const batch = await sdk.buyTickets(player, backend, [[7], [2]]);
+    expect(single.ticketIndices).to.deep.eq([0n]);
+    expect(batch.ticketIndices).to.deep.eq([1n, 2n]);
+    expect(sdk.decodeTicketPurchased(batch.receipt).map((event) => event.player)).to.deep.eq([
+      alice.address,
+      alice.address,
+    ]);
+
+    expect(await sdk.decryptTicket(player, backend, 1)).to.deep.eq([7]);
+
+    const request = await sdk.executeDraw(contract.connect(deployer));
+    expect(request.drawId).to.eq(1n);
+    const receipt = await (await provider.fulfillRandomness(request.requestId, 4)).wait();
+    expect(sdk.decodeDrawExecuted(receipt)).to.deep.eq([{ drawId: 1n, winningNumbers: [5n], jackpot: 10n }]);
+
+    const { claims } = await sdk.claimTickets(player, [0, 1]);
+    expect(claims.map((claim) => claim.ticketIndex)).to.deep.eq([0n, 1n]);
+    expect((await sdk.claimTicket(player, 2)).claims).to.have.length(1);
+
+    expect(await sdk.decryptScore(player, backend)).to.eq(10n);
+  });
+
+  it("normalizes draws and tickets read from the contract", async function () {
+    const player = contract.connect(alice);
+    await sdk.buyTicket(player, backend, [3]);
+
+    const draw = sdk.normalizeDraw(await contract.getDraw(1));
+    expect(draw).to.deep.include({ executed: false, ticketCount: 1n, winningNumbers: [] });
+    expect(draw.config).to.deep.eq({ minNumber: 1, maxNumber: 9, picks: 1, bitmask: false, rewards: [0n, 10n] });
+
+    const [ticket] = (await contract.getTickets(alice.address)).map(sdk.normalizeTicket);
+    expect(ticket).to.deep.include({ index: 0, drawId: 1n, claimed: false, won: false });
+    expect(ticket.handles).to.have.length(1);
+  });
+
+  it("hashes ABIs independently of member order and looks up deployments by chain", async function () {
+    const abi = [...sdk.LUCKYBALL_ABI];
+    expect(sdk.abiHash([...abi].reverse())).to.eq(sdk.abiHash(abi));
+    expect(sdk.abiHash(abi.slice(1))).to.not.eq(sdk.abiHash(abi));
+
+    const entry = { address: await contract.getAddress(), abiHash: sdk.abiHash(abi), deployBlock: 1 } as const;
+    const manifest = { "31337": entry } as sdk.DeploymentManifest;
+    expect(sdk.getDeployment(manifest, 31337n)).to.eq(entry);
+    expect(sdk.getDeployment(manifest, 11155111)).to.eq(undefined);
+  });
+
+  it("requires a signer to act for the player", async function () {
+    await expect(sdk.buyTicket(contract.connect(ethers.provider), backend, [1])).to.be.rejectedWith(
+      "LuckyBall contract must be connected to a signer",
+    );
+  });
+});
@@ -0,0 +1,187 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { artifacts, ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+import {
+  LuckyBall,
+  LuckyBallPoints,
+  MockLuckyBallV2,
+  MockLuckyBallV2__factory,
+  MockRandomnessProvider,
+  MockRandomnessProvider__factory,
+} from "../types";
+import * as sdk from "../sdk/src";
+import { deployImplementation, deployLuckyBall } from "./fixtures";
+
+type StorageEntry = { label: string; slot: string; offset: number; type: string };
+
+// Deployed proxies keep every variable and struct member they were written with in place; new ones may only follow
+const STORAGE_SNAPSHOT = path.join(__dirname, "LuckyBall.storage.json");
+
+/// The storage layout of the compiled LuckyBall with its struct members, without the AST ids that change on every edit
+async function storageLayout(): Promise<Record<string, StorageEntry[]>> {
+  const buildInfo = await artifacts.getBuildInfo("contracts/LuckyBall.sol:LuckyBall");
+  const { storage, types } = (
+    buildInfo!.output.contracts["contracts/LuckyBall.sol"].LuckyBall as unknown as {
+      storageLayout: { storage: StorageEntry[]; types: Record<string, { label: string; members?: StorageEntry[] }> };
+    }
+  ).storageLayout;
+  const entries = (items: StorageEntry[]) =>
+    items.map(({ label, slot, offset, type }) => ({ label, slot, offset, type: type.replace(/\)\d+/g, ")") }));
+  const layout: Record<string, StorageEntry[]> = { LuckyBall: entries(storage) };
+  for (const { label, members } of Object.values(types)) {
+    if (members) {
+      layout[label] = entries(members);
+    }
+  }
+  return layout;
+}
+
+describe("LuckyBall upgrades", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let provider: MockRandomnessProvider;
+  let points: LuckyBallPoints;
+  let implementation: LuckyBall;
+  let contract: LuckyBall;
+  let contractAddress: string;
+
+  async function drawWith(randomness: number) {
+    const { requestId } = await sdk.executeDraw(contract.connect(deployer));
+    await provider.fulfillRandomness(requestId, randomness);
+  }
+
+  async function decryptScore(player: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await contract.getScore(player.address),
+      await contract.points(),
+      player,
+    );
+  }
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("LuckyBall upgrade tests require FHEVM mock");
+      this.skip();
+    }
+
+    [deployer, alice, bob] = await ethers.getSigners();
+    provider = await (
+      (await ethers.getContractFactory("MockRandomnessProvider")) as MockRandomnessProvider__factory
+    ).deploy();
+    ({ contract, contractAddress, implementation, points } = await deployLuckyBall(await provider.getAddress()));
+  });
+
+  it("keeps tickets, draws and encrypted handles usable after an upgrade", async function () {
+    await sdk.buyTickets(contract.connect(alice), fhevm, [[5], [7]]);
+    await contract.setOperator(bob.address, true);
+    await drawWith(4);
+    await sdk.claimTicket(contract.connect(alice), 0);
+    await sdk.buyTicket(contract.connect(bob), fhevm, [3]);
+
+    const aliceTickets = (await contract.getTickets(alice.address)).map(sdk.normalizeTicket);
+    const firstDraw = sdk.normalizeDraw(await contract.getDraw(1));
+    const scoreHandle = await contract.getScore(alice.address);
+
+    const v2 = await deployImplementation<MockLuckyBallV2>("MockLuckyBallV2");
+    await expect(contract.connect(alice).upgradeToAndCall(await v2.getAddress(), "0x"))
+      .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+      .withArgs(alice.address);
+    await contract.upgradeToAndCall(await v2.getAddress(), "0x");
+
+    const upgraded = MockLuckyBallV2__factory.connect(contractAddress, deployer);
+    expect(await upgraded.version()).to.eq(2n);
+    await upgraded.setUpgradeMarker(7);
+    expect(await upgraded.upgradeMarker()).to.eq(7n);
+
+    expect((await upgraded.getTickets(alice.address)).map(sdk.normalizeTicket)).to.deep.eq(aliceTickets);
+    expect(sdk.normalizeDraw(await upgraded.getDraw(1))).to.deep.eq(firstDraw);
+    expect(await upgraded.currentDrawId()).to.eq(2n);
+    expect(await upgraded.getScore(alice.address)).to.eq(scoreHandle);
+    expect(await upgraded.randomnessProvider()).to.eq(await provider.getAddress());
+    expect(await upgraded.points()).to.eq(await points.getAddress());
+    expect(await upgraded.owner()).to.eq(deployer.address);
+    expect(await upgraded.operators(bob.address)).to.eq(true);
+
+    // ACL permissions belong to the proxy address, so players still decrypt what they stored before
+    expect(await sdk.decryptTicket(contract.connect(alice), fhevm, 0)).to.deep.eq([5]);
+    expect(await sdk.decryptTicket(contract.connect(alice), fhevm, 1)).to.deep.eq([7]);
+    expect(await decryptScore(alice)).to.eq(10n);
+
+    // ...and the new implementation keeps computing on them
+    await sdk.claimTicket(contract.connect(alice), 1);
+    expect(await decryptScore(alice)).to.eq(10n);
+    await drawWith(2);
+    await sdk.claimTicket(contract.connect(bob), 0);
+    expect(await decryptScore(bob)).to.eq(10n);
+  });
+
+  it("keeps the storage layout proxies were deployed with", async function () {
+    const layout = await storageLayout();
+    if (process.env.UPDATE_STORAGE_SNAPSHOT) {
+      fs.writeFileSync(STORAGE_SNAPSHOT, JSON.stringify(layout, null, 2) + "\n");
+    }
+    const snapshot: Record<string, StorageEntry[]> = JSON.parse(fs.readFileSync(STORAGE_SNAPSHOT, "utf8"));
+    for (const [name, entries] of Object.entries(snapshot)) {
+      expect(layout[name]?.slice(0, entries.length), name).to.deep.eq(entries);
+    }
+  });
+
+  it("scans for the tickets of draws sold before the per-draw ticket index", async function () {
+    await sdk.buyTickets(contract.connect(alice), fhevm, [[5], [7]]);
+    await drawWith(4);
+    await sdk.buyTicket(contract.connect(alice), fhevm, [3]);
+
+    // Rewind storage to a proxy deployed before the index: no start draw and no index entries for the first draw
+    const layout = await storageLayout();
+    const slotOf = (label: string) => BigInt(layout.LuckyBall.find((entry) => entry.label === label)!.slot);
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    const playerSlot = ethers.keccak256(coder.encode(["address", "uint256"], [alice.address, slotOf("playerDraws")]));
+    const firstDrawSlot = ethers.keccak256(coder.encode(["uint256", "bytes32"], [1, playerSlot]));
+    for (const slot of [slotOf("firstIndexedDrawId"), BigInt(firstDrawSlot)]) {
+      await ethers.provider.send("hardhat_setStorageAt", [contractAddress, ethers.toBeHex(slot), ethers.ZeroHash]);
+    }
+    expect((await contract.getTicketsByDraw(alice.address, 1)).indices).to.deep.eq([]);
+
+    const v2 = await deployImplementation<MockLuckyBallV2>("MockLuckyBallV2");
+    const initialize = contract.interface.encodeFunctionData("initializeTicketIndex");
+    await expect(contract.connect(alice).upgradeToAndCall(await v2.getAddress(), initialize))
+      .to.be.revertedWithCustomError(contract, "OwnableUnauthorizedAccount")
+      .withArgs(alice.address);
+    await contract.upgradeToAndCall(await v2.getAddress(), initialize);
+    await expect(contract.initializeTicketIndex()).to.be.revertedWithCustomError(contract, "InvalidInitialization");
+
+    await drawWith(2);
+    await sdk.buyTicket(contract.connect(alice), fhevm, [1]);
+    expect((await contract.getTicketsByDraw(alice.address, 1)).indices).to.deep.eq([0n, 1n]);
+    expect((await contract.getTicketsByDraw(alice.address, 2)).indices).to.deep.eq([2n]);
+    expect((await contract.getTicketsByDraw(alice.address, 3)).indices).to.deep.eq([3n]);
+  });
+
+  it("can only be initialized once, and never through the implementation", async function () {
+    const providerAddress = await provider.getAddress();
+    const pointsAddress = await points.getAddress();
+
+    await expect(contract.initialize(providerAddress, pointsAddress)).to.be.revertedWithCustomError(
+      contract,
+      "InvalidInitialization",
+    );
+    await expect(implementation.initialize(providerAddress, pointsAddress)).to.be.revertedWithCustomError(
+      implementation,
+      "InvalidInitialization",
+    );
+    // Fresh proxies index every draw already
+    await expect(contract.initializeTicketIndex()).to.be.revertedWith("Ticket index already set");
+  });
+
+  it("rejects implementations that are not upgradeable", async function () {
+    await expect(contract.upgradeToAndCall(await points.getAddress(), "0x"))
+      .to.be.revertedWithCustomError(contract, "ERC1967InvalidImplementation")
+      .withArgs(await points.getAddress());
+  });
+});
@@ -0,0 +1,105 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import {
+  FHERandomnessProvider,
+  FHERandomnessProvider__factory,
+  LuckyBall,
+  VRFRandomnessProvider,
+  VRFRandomnessProvider__factory,
+} from "../types";
+import { expect } from "chai";
+import { deployLuckyBall } from "./fixtures";
+
+async function closeDraw(contract: LuckyBall, operator: HardhatEthersSigner, player: HardhatEthersSigner) {
+  const contractAddress = await contract.getAddress();
+  const encrypted = await fhevm.createEncryptedInput(contractAddress, player.address).add8(3).encrypt();
+  await contract
+    .connect(player)
+    .buyTicket([encrypted.handles[0]], encrypted.inputProof, { value: ethers.parseEther("0.001") });
+  await contract.connect(operator).executeDraw();
+}
+
+describe("Randomness providers", function () {
+  let deployer: HardhatEthersSigner;
+  let oracle: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+
+  before(async function () {
+    [deployer, oracle, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn("Randomness provider tests require FHEVM mock");
+      this.skip();
+    }
+  });
+
+  describe("FHERandomnessProvider", function () {
+    let provider: FHERandomnessProvider;
+    let contract: LuckyBall;
+
+    beforeEach(async function () {
+      const factory = (await ethers.getContractFactory("FHERandomnessProvider")) as FHERandomnessProvider__factory;
+      provider = (await factory.deploy()) as FHERandomnessProvider;
+      ({ contract } = await deployLuckyBall(await provider.getAddress()));
+    });
+
+    it("reveals encrypted randomness to settle the draw", async function () {
+      await closeDraw(contract, deployer, alice);
+      const { requestId } = await contract.getDraw(1);
+
+      const handle = await provider.getEncryptedRandomness(requestId);
+      const decrypted = await fhevm.publicDecrypt([handle]);
+      const randomness = decrypted.clearValues[handle as `0x${string}`] as bigint;
+
+      await expect(
+        provider.connect(alice).revealRandomness(requestId, decrypted.abiEncodedClearValues, decrypted.decryptionProof),
+      )
+        .to.emit(contract, "DrawExecuted")
+        .withArgs(1, [(randomness % 9n) + 1n], 10);
+
+      const draw = await contract.getDraw(1);
+      expect(draw.executed).to.eq(true);
+    });
+
+    it("rejects cleartexts that do not match the encrypted value", async function () {
+      await closeDraw(contract, deployer, alice);
+      const { requestId } = await contract.getDraw(1);
+
+      const handle = await provider.getEncryptedRandomness(requestId);
+      const decrypted = await fhevm.publicDecrypt([handle]);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [1n]);
+
+      await expect(provider.revealRandomness(requestId, forged, decrypted.decryptionProof)).to.be.reverted;
+    });
+  });
+
+  describe("VRFRandomnessProvider", function () {
+    let provider: VRFRandomnessProvider;
+    let contract: LuckyBall;
+
+    beforeEach(async function () {
+      const factory = (await ethers.getContractFactory("VRFRandomnessProvider")) as VRFRandomnessProvider__factory;
+      provider = (await factory.deploy(oracle.address)) as VRFRandomnessProvider;
+      ({ contract } = await deployLuckyBall(await provider.getAddress()));
+    });
+
+    it("only lets the oracle fulfil requests", async function () {
+      await closeDraw(contract, deployer, alice);
+      const { requestId } = await contract.getDraw(1);
+
+      await expect(provider.connect(alice).fulfillRandomness(requestId, 8)).to.be.revertedWith("Only oracle");
+      await expect(provider.connect(oracle).fulfillRandomness(requestId, 8))
+        .to.emit(contract, "DrawExecuted")
+        .withArgs(1, [9], 10);
+      await expect(provider.connect(oracle).fulfillRandomness(requestId, 8)).to.be.revertedWith(
+        "Request already fulfilled",
+      );
+    });
+
+    it("rejects unknown requests", async function () {
+      await expect(provider.connect(oracle).fulfillRandomness(42, 1)).to.be.revertedWith("Unknown request");
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { ethers } from "hardhat";
+
+import {
+  LuckyBall,
+  LuckyBall__factory,
+  LuckyBallPoints,
+  LuckyBallPoints__factory,
+  LuckyBallProxy__factory,
+  LuckyBallTreasury,
+  LuckyBallTreasury__factory,
+} from "../types";
+
+/// Deploys a LuckyBall implementation, or an upgrade of it, linked to a fresh copy of its ticket library
+export async function deployImplementation<T extends LuckyBall = LuckyBall>(
+  name: "LuckyBall" | "MockLuckyBallV2" = "LuckyBall",
+  forwarderAddress = ethers.ZeroAddress,
+): Promise<T> {
+  const tickets = await ethers.deployContract("LuckyBallTickets");
+  const factory = (await ethers.getContractFactory(name, {
+    libraries: { LuckyBallTickets: await tickets.getAddress() },
+  })) as LuckyBall__factory;
+  return (await factory.deploy(forwarderAddress)) as unknown as T;
+}
+
+/// Deploys LuckyBall behind its proxy along with its points token and treasury, wired to each other
+export async function deployLuckyBall(providerAddress: string, forwarderAddress = ethers.ZeroAddress) {
+  const points = (await (
+    (await ethers.getContractFactory("LuckyBallPoints")) as LuckyBallPoints__factory
+  ).deploy()) as LuckyBallPoints;
+  const treasury = (await (
+    (await ethers.getContractFactory("LuckyBallTreasury")) as LuckyBallTreasury__factory
+  ).deploy()) as LuckyBallTreasury;
+
+  const implementation = await deployImplementation("LuckyBall", forwarderAddress);
+  const proxy = await ((await ethers.getContractFactory("LuckyBallProxy")) as LuckyBallProxy__factory).deploy(
+    await implementation.getAddress(),
+    implementation.interface.encodeFunctionData("initialize", [providerAddress, await points.getAddress()]),
+  );
+  const contractAddress = await proxy.getAddress();
+  const contract = implementation.attach(contractAddress) as LuckyBall;
+
+  await points.setMinter(contractAddress);
+  await treasury.setGame(contractAddress);
+  await contract.setTreasury(await treasury.getAddress());
+
+  return { contract, contractAddress, implementation, points, treasury };
+}
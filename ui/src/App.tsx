@@ -5,15 +5,19 @@ import '@rainbow-me/rainbowkit/styles.css';
 
 import { config } from './config/wagmi';
 import { LuckyBallApp } from './components/LuckyBallApp';
+import { Leaderboard } from './components/Leaderboard';
+import { useHashRoute } from './hooks/useHashRoute';
 
 const queryClient = new QueryClient();
 
 function App() {
+  const route = useHashRoute();
+
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
-          <LuckyBallApp />
+          {route === 'leaderboard' ? <Leaderboard /> : <LuckyBallApp />}
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -1,7 +1,10 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useHashRoute } from '../hooks/useHashRoute';
 import '../styles/Header.css';
 
 export function Header() {
+  const route = useHashRoute();
+
   return (
     <header className="header">
       <div className="header-container">
@@ -10,6 +13,14 @@ export function Header() {
             <h1 className="brand-title">LuckyBall Lottery</h1>
             <p className="brand-subtitle">Confidential draws powered by Zama FHE</p>
           </div>
+          <nav className="header-nav">
+            <a className={`nav-link ${route === 'play' ? 'active' : ''}`} href="#/">
+              Play
+            </a>
+            <a className={`nav-link ${route === 'leaderboard' ? 'active' : ''}`} href="#/leaderboard">
+              Leaderboard
+            </a>
+          </nav>
           <ConnectButton chainStatus="icon" showBalance={false} />
         </div>
       </div>
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { LuckyBallPoints__factory } from 'luckyball-sdk';
+
+import { Header } from './Header';
+import { CONTRACT_ABI, POINTS_ABI } from '../config/contracts';
+import { useDeployment } from '../hooks/useDeployment';
+import { usePointsAddress } from '../hooks/usePointsAddress';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+
+import '../styles/LuckyBall.css';
+
+type LeaderboardEntry = {
+  player: `0x${string}`;
+  score: number;
+};
+
+const LEADERBOARD_SIZE = 50n;
+
+function shortenAddress(value: string): string {
+  return `${value.slice(0, 6)}…${value.slice(-4)}`;
+}
+
+function parseError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'Unexpected error occurred';
+}
+
+export function Leaderboard() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const queryClient = useQueryClient();
+
+  const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  const signerPromise = useEthersSigner();
+
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [revealLoading, setRevealLoading] = useState(false);
+
+  const { contractAddress, deployed: contractReady, outdated } = useDeployment();
+  const pointsAddress = usePointsAddress();
+
+  const { data: ranking } = useQuery({
+    queryKey: ['leaderboard', pointsAddress],
+    enabled: Boolean(publicClient && pointsAddress),
+    queryFn: async () => {
+      const raw = (await publicClient!.readContract({
+        address: pointsAddress!,
+        abi: POINTS_ABI,
+        functionName: 'getLeaderboard',
+        args: [LEADERBOARD_SIZE],
+      })) as readonly { player: `0x${string}`; score: bigint }[];
+      return raw.map((entry) => ({ player: entry.player, score: Number(entry.score) }) as LeaderboardEntry);
+    },
+  });
+
+  const { data: playerCount } = useQuery({
+    queryKey: ['playerCount', contractAddress],
+    enabled: contractReady && Boolean(publicClient),
+    queryFn: async () => {
+      const players = (await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getPlayers',
+      })) as `0x${string}`[];
+      return players.length;
+    },
+  });
+
+  const { data: published } = useQuery({
+    queryKey: ['scorePublished', address, pointsAddress],
+    enabled: Boolean(publicClient && address && pointsAddress),
+    queryFn: async () => {
+      return (await publicClient!.readContract({
+        address: pointsAddress!,
+        abi: POINTS_ABI,
+        functionName: 'scorePublished',
+        args: [address!],
+      })) as boolean;
+    },
+  });
+
+  async function handleRevealScore() {
+    if (!address || !instance || !signerPromise || !pointsAddress) {
+      setErrorMessage('Connect your wallet to reveal your score');
+      return;
+    }
+
+    setErrorMessage(null);
+    setStatusMessage('Making your score publicly decryptable...');
+    setRevealLoading(true);
+
+    try {
+      const signer = await signerPromise;
+      const contract = LuckyBallPoints__factory.connect(pointsAddress, signer);
+      const revealTx = await contract.revealScore();
+      await revealTx.wait();
+
+      setStatusMessage('Decrypting your revealed score...');
+      const handle = await contract.getRevealedScore(address);
+      const decrypted = await instance.publicDecrypt([handle]);
+
+      setStatusMessage('Publishing your score...');
+      const tx = await contract.publishScore(address, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+      await tx.wait();
+
+      setStatusMessage('Your score is now on the leaderboard');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['leaderboard'] }),
+        queryClient.invalidateQueries({ queryKey: ['scorePublished', address] }),
+      ]);
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setRevealLoading(false);
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  const entries = ranking ?? [];
+
+  return (
+    <div className="app-shell">
+      <Header />
+      <div className="content-wrapper">
+        {outdated && (
+          <div className="status-banner error">
+            The LuckyBall deployment on this network predates this app's ABI; some actions may fail until it is
+            redeployed.
+          </div>
+        )}
+        {zamaError && <div className="status-banner error">{zamaError}</div>}
+        {statusMessage && <div className="status-banner">{statusMessage}</div>}
+        {errorMessage && <div className="status-banner error">{errorMessage}</div>}
+
+        <div className="section">
+          <div className="list-header">
+            <h2 className="section-title" style={{ marginBottom: 0 }}>Leaderboard</h2>
+            <div className="muted-text">
+              {entries.length} of {playerCount ?? 0} players ranked
+            </div>
+          </div>
+          <p className="section-description">
+            Scores stay encrypted until their owner chooses to reveal them. Revealing publishes your current score;
+            reveal again after new wins to update your ranking.
+          </p>
+          <div className="cta-row" style={{ marginTop: 0, marginBottom: '24px' }}>
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={!address || !instance || zamaLoading || revealLoading || !pointsAddress}
+              onClick={handleRevealScore}
+            >
+              {revealLoading ? 'Revealing...' : published ? 'Update My Score' : 'Reveal My Score'}
+            </button>
+          </div>
+          {entries.length === 0 ? (
+            <div className="empty-state">No player has revealed a score yet.</div>
+          ) : (
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Rank</th>
+                  <th>Player</th>
+                  <th>Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry, position) => (
+                  <tr
+                    key={entry.player}
+                    className={entry.player.toLowerCase() === address?.toLowerCase() ? 'current-player' : ''}
+                  >
+                    <td>#{position + 1}</td>
+                    <td title={entry.player}>{shortenAddress(entry.player)}</td>
+                    <td>{entry.score} pts</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
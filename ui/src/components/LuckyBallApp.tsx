@@ -1,43 +1,86 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useAccount, usePublicClient } from 'wagmi';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { Contract, ZeroHash, formatEther } from 'ethers';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Contract, ZeroAddress, ZeroHash, formatEther } from 'ethers';
+import {
+  LuckyBall__factory,
+  LuckyBallForwarder__factory,
+  LuckyBallPoints__factory,
+  approveTicketPayment,
+  buyTicket,
+  claimTicket,
+  claimTickets,
+  decryptScore,
+  decryptTicket,
+  executeDraw,
+  jackpotOf,
+  normalizeDraw,
+  normalizeTicket,
+  publishWinnerTally,
+  relayerBackend,
+  signSponsoredPurchase,
+  type DrawConfig,
+  type DrawInfo,
+  type LuckyBallPoints,
+  type TicketInfo,
+} from 'luckyball-sdk';
 
 import { Header } from './Header';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import { CONTRACT_ABI, INDEXER_URL, POINTS_ABI, RANDOMNESS_PROVIDER_ABI, RELAYER_URL } from '../config/contracts';
+import { useDeployment } from '../hooks/useDeployment';
+import { usePointsAddress } from '../hooks/usePointsAddress';
 import { useZamaInstance } from '../hooks/useZamaInstance';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 
 import '../styles/LuckyBall.css';
 
-type DrawInfo = {
+type DrawHistoryEntry = {
+  drawId: number;
   executed: boolean;
-  winningNumber: number;
-  executedAt: bigint;
+  winningNumbers: number[];
+  ticketCount: number;
+  jackpot: number | null;
+  claimedCount: number | null;
 };
 
-type TicketInfo = {
-  index: number;
-  handle: `0x${string}`;
-  drawId: bigint;
-  claimed: boolean;
+type RedemptionInfo = {
+  amount: `0x${string}`;
+  token: `0x${string}`;
+  pointValue: bigint;
 };
 
 const EMPTY_ADDRESS = '0x0000000000000000000000000000000000000000';
-const DEFAULT_TICKET_PRICE = 1_000_000_000_000_000n;
+const DEFAULT_SETTLEMENT_PERIOD = 86_400n;
+const DEFAULT_CONFIG: DrawConfig = { minNumber: 1, maxNumber: 9, picks: 1, bitmask: false, rewards: [0n, 10n] };
+const DRAW_HISTORY_SIZE = 5;
+const TICKET_PAGE_SIZE = 20;
 
-function normalizeDraw(raw: any): DrawInfo {
-  const winningNumber = Number(raw?.winningNumber ?? raw?.[0] ?? 0);
-  const executedAt = BigInt(raw?.executedAt ?? raw?.[1] ?? 0);
-  const executed = Boolean(raw?.executed ?? raw?.[2] ?? false);
-  return { executed, winningNumber, executedAt };
+// Token-priced draws show raw token units, like redemptions paid in tokens
+function formatPayment(amount: bigint, token: string): string {
+  return token === EMPTY_ADDRESS ? `${formatEther(amount)} ETH` : `${amount.toString()} token units`;
 }
 
-function normalizeTicket(raw: any, index: number): TicketInfo {
-  const handle = (raw?.number ?? raw?.[0]) as `0x${string}`;
-  const drawId = BigInt(raw?.drawId ?? raw?.[1] ?? 0);
-  const claimed = Boolean(raw?.claimed ?? raw?.[2] ?? false);
-  return { index, handle, drawId, claimed };
+function formatTimestamp(seconds: bigint): string {
+  return new Date(Number(seconds) * 1000).toLocaleString();
+}
+
+// Claims of draws with a zero window never close
+function claimDeadline(draw: DrawInfo | undefined): bigint | null {
+  return draw?.executed && draw.claimWindow > 0n ? draw.executedAt + draw.claimWindow : null;
+}
+
+// Mirrors the contract: draws without a claim window stop counting winners after the settlement period
+function tallyClosesAt(draw: DrawInfo, settlementWindow: bigint): bigint {
+  return claimDeadline(draw) ?? draw.executedAt + settlementWindow;
+}
+
+function formatCountdown(seconds: bigint): string {
+  const total = Number(seconds);
+  const days = Math.floor(total / 86_400);
+  const clock = [Math.floor((total % 86_400) / 3600), Math.floor((total % 3600) / 60), total % 60]
+    .map((part) => part.toString().padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
 }
 
 function parseError(error: unknown): string {
@@ -55,36 +98,154 @@ export function LuckyBallApp() {
   const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
   const signerPromise = useEthersSigner();
 
-  const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
+  const [selectedNumbers, setSelectedNumbers] = useState<number[]>([]);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [decryptedScore, setDecryptedScore] = useState<bigint | null>(null);
   const [decryptingScore, setDecryptingScore] = useState(false);
-  const [ticketDecryptions, setTicketDecryptions] = useState<Record<number, { value?: bigint; loading: boolean }>>({});
+  const [ticketDecryptions, setTicketDecryptions] = useState<Record<number, { values?: number[]; loading: boolean }>>(
+    {}
+  );
   const [buyLoading, setBuyLoading] = useState(false);
+  const [sponsored, setSponsored] = useState(false);
   const [drawLoading, setDrawLoading] = useState(false);
+  const [revealLoading, setRevealLoading] = useState(false);
+  const [tallyLoading, setTallyLoading] = useState(false);
+  const [nowSeconds, setNowSeconds] = useState(() => BigInt(Math.floor(Date.now() / 1000)));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNowSeconds(BigInt(Math.floor(Date.now() / 1000))), 1000);
+    return () => clearInterval(timer);
+  }, []);
   const [claimLoading, setClaimLoading] = useState<Record<number, boolean>>({});
+  const [claimAllLoading, setClaimAllLoading] = useState(false);
+  const [autoClaimLoading, setAutoClaimLoading] = useState(false);
+  const [redeemPoints, setRedeemPoints] = useState('');
+  const [redeemLoading, setRedeemLoading] = useState(false);
+  const [payoutLoading, setPayoutLoading] = useState<Record<number, boolean>>({});
+  const [ticketDrawFilter, setTicketDrawFilter] = useState('');
+  const ticketListEnd = useRef<HTMLDivElement>(null);
 
-  const contractReady = CONTRACT_ADDRESS !== EMPTY_ADDRESS;
+  const { contractAddress, deployed: contractReady, outdated } = useDeployment();
+  const pointsAddress = usePointsAddress();
 
   const { data: ticketPrice } = useQuery({
-    queryKey: ['ticketPrice'],
+    queryKey: ['ticketPrice', contractAddress],
     enabled: contractReady && Boolean(publicClient),
     queryFn: async () => {
       return (await publicClient!.readContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
         abi: CONTRACT_ABI,
         functionName: 'TICKET_PRICE',
       })) as bigint;
     },
   });
 
+  const { data: settlementPeriod } = useQuery({
+    queryKey: ['settlementPeriod', contractAddress],
+    enabled: contractReady && Boolean(publicClient),
+    queryFn: async () => {
+      return (await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'SETTLEMENT_PERIOD',
+      })) as bigint;
+    },
+  });
+
+  const { data: randomnessProvider } = useQuery({
+    queryKey: ['randomnessProvider', contractAddress],
+    enabled: contractReady && Boolean(publicClient),
+    queryFn: async () => {
+      return (await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'randomnessProvider',
+      })) as `0x${string}`;
+    },
+  });
+
+  const { data: trustedForwarder } = useQuery({
+    queryKey: ['trustedForwarder', contractAddress],
+    enabled: contractReady && Boolean(publicClient && RELAYER_URL),
+    queryFn: async () => {
+      return (await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'trustedForwarder',
+      })) as `0x${string}`;
+    },
+  });
+
+  // Sponsored purchases need both a relayer endpoint and a deployment that trusts a forwarder
+  const sponsorshipAvailable = Boolean(RELAYER_URL && trustedForwarder && trustedForwarder !== ZeroAddress);
+
+  const { data: isOperator } = useQuery({
+    queryKey: ['isOperator', address, contractAddress],
+    enabled: contractReady && Boolean(publicClient && address),
+    queryFn: async () => {
+      return (await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'isOperator',
+        args: [address!],
+      })) as boolean;
+    },
+  });
+
+  const { data: autoClaim } = useQuery({
+    queryKey: ['autoClaim', address, contractAddress],
+    enabled: contractReady && Boolean(publicClient && address),
+    queryFn: async () => {
+      return (await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'autoClaim',
+        args: [address!],
+      })) as boolean;
+    },
+  });
+
+  const { data: redemptionTerms } = useQuery({
+    queryKey: ['redemptionTerms', pointsAddress],
+    enabled: Boolean(publicClient && pointsAddress),
+    queryFn: async () => {
+      const [token, pointValue] = await Promise.all([
+        publicClient!.readContract({
+          address: pointsAddress!,
+          abi: POINTS_ABI,
+          functionName: 'redemptionToken',
+        }) as Promise<`0x${string}`>,
+        publicClient!.readContract({
+          address: pointsAddress!,
+          abi: POINTS_ABI,
+          functionName: 'pointValue',
+        }) as Promise<bigint>,
+      ]);
+      return { token, pointValue };
+    },
+  });
+
+  const { data: pendingRedemption } = useQuery({
+    queryKey: ['pendingRedemption', address, pointsAddress],
+    enabled: Boolean(publicClient && address && pointsAddress),
+    queryFn: async () => {
+      const raw = (await publicClient!.readContract({
+        address: pointsAddress!,
+        abi: POINTS_ABI,
+        functionName: 'getPendingRedemption',
+        args: [address!],
+      })) as RedemptionInfo;
+      return raw.amount === ZeroHash ? null : raw;
+    },
+  });
+
   const { data: currentDrawId } = useQuery({
-    queryKey: ['currentDrawId'],
+    queryKey: ['currentDrawId', contractAddress],
     enabled: contractReady && Boolean(publicClient),
     queryFn: async () => {
       return (await publicClient!.readContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
         abi: CONTRACT_ABI,
         functionName: 'currentDrawId',
       })) as bigint;
@@ -92,11 +253,11 @@ export function LuckyBallApp() {
   });
 
   const { data: activeDraw } = useQuery({
-    queryKey: ['activeDraw', currentDrawId?.toString() ?? '0'],
+    queryKey: ['activeDraw', currentDrawId?.toString() ?? '0', contractAddress],
     enabled: contractReady && Boolean(publicClient && currentDrawId !== undefined),
     queryFn: async () => {
       const raw = await publicClient!.readContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
         abi: CONTRACT_ABI,
         functionName: 'getDraw',
         args: [currentDrawId!],
@@ -106,11 +267,11 @@ export function LuckyBallApp() {
   });
 
   const { data: previousDraw } = useQuery({
-    queryKey: ['previousDraw', currentDrawId ? (currentDrawId - 1n).toString() : '0'],
+    queryKey: ['previousDraw', currentDrawId ? (currentDrawId - 1n).toString() : '0', contractAddress],
     enabled: contractReady && Boolean(publicClient && currentDrawId !== undefined && currentDrawId > 1n),
     queryFn: async () => {
       const raw = await publicClient!.readContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
         abi: CONTRACT_ABI,
         functionName: 'getDraw',
         args: [currentDrawId! - 1n],
@@ -119,12 +280,56 @@ export function LuckyBallApp() {
     },
   });
 
+  const { data: drawHistory } = useQuery({
+    queryKey: ['drawHistory', currentDrawId?.toString() ?? '0', contractAddress],
+    enabled: contractReady && Boolean(publicClient && currentDrawId !== undefined),
+    refetchInterval: INDEXER_URL ? 15_000 : false,
+    queryFn: async () => {
+      if (INDEXER_URL) {
+        try {
+          const response = await fetch(`${INDEXER_URL}/draws`);
+          if (response.ok) {
+            return ((await response.json()) as DrawHistoryEntry[]).slice(0, DRAW_HISTORY_SIZE);
+          }
+        } catch (error) {
+          console.warn('Indexer unavailable, reading draws from the contract', error);
+        }
+      }
+
+      // The contract only exposes draws one by one, so without the indexer just the latest few are shown
+      const ids: bigint[] = [];
+      for (let id = currentDrawId!; id >= 1n && ids.length < DRAW_HISTORY_SIZE; id--) {
+        ids.push(id);
+      }
+      return Promise.all(
+        ids.map(async (id) => {
+          const draw = normalizeDraw(
+            await publicClient!.readContract({
+              address: contractAddress,
+              abi: CONTRACT_ABI,
+              functionName: 'getDraw',
+              args: [id],
+            })
+          );
+          return {
+            drawId: Number(id),
+            executed: draw.executed,
+            winningNumbers: draw.winningNumbers,
+            ticketCount: Number(draw.ticketCount),
+            jackpot: draw.executed ? Number(jackpotOf(draw)) : null,
+            claimedCount: null,
+          } as DrawHistoryEntry;
+        })
+      );
+    },
+  });
+
   const { data: scoreHandle } = useQuery({
-    queryKey: ['score', address],
+    queryKey: ['score', address, contractAddress],
     enabled: contractReady && Boolean(publicClient && address),
     queryFn: async () => {
       return (await publicClient!.readContract({
-        address: CONTRACT_ADDRESS,
+        address: contractAddress,
         abi: CONTRACT_ABI,
         functionName: 'getScore',
         args: [address!],
@@ -132,90 +337,148 @@ export function LuckyBallApp() {
     },
   });
 
-  const { data: tickets } = useQuery({
-    queryKey: ['tickets', address],
+  const { data: ticketCount } = useQuery({
+    queryKey: ['tickets', address, contractAddress, 'count'],
     enabled: contractReady && Boolean(publicClient && address),
-    queryFn: async () => {
-      const rawTickets = (await publicClient!.readContract({
-        address: CONTRACT_ADDRESS,
+    queryFn: async () =>
+      publicClient!.readContract({
+        address: contractAddress,
         abi: CONTRACT_ABI,
-        functionName: 'getTickets',
+        functionName: 'totalTickets',
         args: [address!],
-      })) as any[];
-      return rawTickets.map((ticket, index) => normalizeTicket(ticket, index));
+      }),
+  });
+
+  // Loaded a page at a time as the list scrolls, so heavy players never read all their tickets at once
+  const {
+    data: ticketPages,
+    fetchNextPage: fetchMoreTickets,
+    hasNextPage: moreTickets,
+    isFetchingNextPage: loadingMoreTickets,
+  } = useInfiniteQuery({
+    queryKey: ['tickets', address, contractAddress, 'pages'],
+    enabled: contractReady && Boolean(publicClient && address),
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      const rawTickets = await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getTicketsPage',
+        args: [address!, BigInt(pageParam), BigInt(TICKET_PAGE_SIZE)],
+      });
+      return rawTickets.map((ticket, position) => normalizeTicket(ticket, pageParam + position));
+    },
+    getNextPageParam: (lastPage, _pages, lastOffset) =>
+      lastPage.length < TICKET_PAGE_SIZE ? undefined : lastOffset + TICKET_PAGE_SIZE,
+  });
+
+  const filterDrawId = /^\d+$/.test(ticketDrawFilter) ? BigInt(ticketDrawFilter) : null;
+  const { data: drawTickets } = useQuery({
+    queryKey: ['tickets', address, contractAddress, 'draw', filterDrawId?.toString()],
+    enabled: contractReady && Boolean(publicClient && address) && filterDrawId !== null,
+    queryFn: async () => {
+      const [indices, rawTickets] = await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getTicketsByDraw',
+        args: [address!, filterDrawId!],
+      });
+      return rawTickets.map((ticket, position) => normalizeTicket(ticket, Number(indices[position])));
     },
   });
 
+  const tickets = useMemo(
+    () => (filterDrawId !== null ? drawTickets : ticketPages?.pages.flat()),
+    [filterDrawId, drawTickets, ticketPages]
+  );
+
+  // Only the draws the loaded tickets belong to are read; a player may skip many draws between two tickets
   const ticketDrawIds = useMemo(() => {
     if (!tickets || tickets.length === 0) {
-      return [] as string[];
+      return null;
     }
-    const ids = new Set<string>();
-    tickets.forEach((ticket) => ids.add(ticket.drawId.toString()));
-    return Array.from(ids);
+    return [...new Set(tickets.map((ticket) => ticket.drawId))];
   }, [tickets]);
 
   const { data: historicalDraws } = useQuery({
-    queryKey: ['ticket-draws', ticketDrawIds.join('-')],
-    enabled: contractReady && Boolean(publicClient && ticketDrawIds.length > 0),
+    queryKey: ['ticket-draws', ticketDrawIds?.join('-'), contractAddress],
+    enabled: contractReady && Boolean(publicClient && ticketDrawIds),
     queryFn: async () => {
       const entries = await Promise.all(
-        ticketDrawIds.map(async (id) => {
+        ticketDrawIds!.map(async (id) => {
           const raw = await publicClient!.readContract({
-            address: CONTRACT_ADDRESS,
+            address: contractAddress,
             abi: CONTRACT_ABI,
             functionName: 'getDraw',
-            args: [BigInt(id)],
+            args: [id],
           });
-          return [id, normalizeDraw(raw)] as const;
+          return [id.toString(), normalizeDraw(raw)] as const;
         })
       );
       return Object.fromEntries(entries) as Record<string, DrawInfo>;
     },
   });
 
-  const ticketPriceLabel = ticketPrice ? `${formatEther(ticketPrice)} ETH` : '0.001 ETH';
+  useEffect(() => {
+    const sentinel = ticketListEnd.current;
+    if (!sentinel || filterDrawId !== null || !moreTickets) {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting) && !loadingMoreTickets) {
+        void fetchMoreTickets();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [filterDrawId, moreTickets, loadingMoreTickets, fetchMoreTickets]);
 
-  const contractUnavailable = !contractReady;
+  const paymentToken = activeDraw?.paymentToken ?? EMPTY_ADDRESS;
+  const paysInToken = paymentToken !== EMPTY_ADDRESS;
+  // Relayers only pay the gas, so ETH-priced draws are always bought from the wallet
+  const sponsorable = sponsorshipAvailable && paysInToken;
+  // Draws store no price when they charge the contract's TICKET_PRICE
+  const drawTicketPrice = activeDraw?.ticketPrice || ticketPrice;
+  const ticketPriceLabel = drawTicketPrice ? formatPayment(drawTicketPrice, paymentToken) : '0.001 ETH';
+  const purchaseLimits = activeDraw?.limits;
+  const settlementWindow = settlementPeriod ?? DEFAULT_SETTLEMENT_PERIOD;
+  const salesCloseAt = activeDraw?.salesCloseAt ?? 0n;
+  const salesOpen = salesCloseAt === 0n || nowSeconds < salesCloseAt;
+  const enoughTickets = Boolean(
+    activeDraw && activeDraw.ticketCount > 0n && activeDraw.ticketCount >= activeDraw.minTickets
+  );
+  const drawReady = Boolean(isOperator) && nowSeconds >= salesCloseAt && enoughTickets;
+  const tallyOpen = Boolean(
+    previousDraw?.executed &&
+      !previousDraw.tallyPublished &&
+      nowSeconds > tallyClosesAt(previousDraw, settlementWindow)
+  );
+  const drawConfig = activeDraw?.config ?? DEFAULT_CONFIG;
+  const pickCount = drawConfig.picks;
 
-  async function requestUserDecrypt(handles: string[]) {
-    if (!instance) {
-      throw new Error('Encryption service not initialized');
-    }
-    if (!signerPromise) {
-      throw new Error('Wallet not connected');
-    }
-
-    const signer = await signerPromise;
-    const keypair = instance.generateKeypair();
-    const contractAddresses = [CONTRACT_ADDRESS];
-    const startTimestamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = '7';
-    const handleContractPairs = handles.map((handle) => ({ handle, contractAddress: CONTRACT_ADDRESS }));
-    const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-      eip712.message
+  useEffect(() => {
+    setSelectedNumbers((prev) =>
+      prev.filter((number) => number >= drawConfig.minNumber && number <= drawConfig.maxNumber).slice(0, pickCount)
     );
+  }, [drawConfig.minNumber, drawConfig.maxNumber, pickCount]);
 
-    const signerAddress = await signer.getAddress();
-
-    return instance.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace('0x', ''),
-      contractAddresses,
-      signerAddress,
-      startTimestamp,
-      durationDays
-    );
+  function toggleNumber(number: number) {
+    setSelectedNumbers((prev) => {
+      if (prev.includes(number)) {
+        return prev.filter((value) => value !== number);
+      }
+      if (pickCount === 1) {
+        return [number];
+      }
+      return prev.length < pickCount ? [...prev, number] : prev;
+    });
   }
 
+  const contractUnavailable = !contractReady;
+
   async function handleBuyTicket() {
-    if (selectedNumber === null) {
-      setErrorMessage('Select a number before purchasing');
+    if (selectedNumbers.length !== pickCount) {
+      setErrorMessage(`Select ${pickCount} number${pickCount === 1 ? '' : 's'} before purchasing`);
       return;
     }
     if (!address) {
@@ -232,29 +495,49 @@ export function LuckyBallApp() {
     }
 
     setErrorMessage(null);
-    setStatusMessage('Encrypting selected number...');
+    setStatusMessage('Encrypting selected numbers...');
     setBuyLoading(true);
 
     try {
-      const encryptedInputBuilder = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
-      encryptedInputBuilder.add8(selectedNumber);
-      const encrypted = await encryptedInputBuilder.encrypt();
-
       const signer = await signerPromise;
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-
-      const tx = await contract.buyTicket(encrypted.handles[0], encrypted.inputProof, {
-        value: ticketPrice ?? DEFAULT_TICKET_PRICE,
-      });
-
-      setStatusMessage('Waiting for confirmation...');
-      await tx.wait();
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      if (paysInToken) {
+        // Token-priced draws take the price from an allowance of the treasury, sponsored purchases included
+        setStatusMessage('Approving the ticket payment...');
+        await approveTicketPayment(contract);
+        setStatusMessage('Encrypting selected numbers...');
+      }
+      if (sponsored && sponsorable) {
+        // The wallet only signs; the relayer submits the purchase and pays its gas
+        const forwarder = LuckyBallForwarder__factory.connect(trustedForwarder!, signer);
+        const deadline = BigInt(Math.floor(Date.now() / 1000)) + 600n;
+        const request = await signSponsoredPurchase(
+          contract,
+          forwarder,
+          relayerBackend(instance),
+          [selectedNumbers],
+          deadline
+        );
+        setStatusMessage('Submitting sponsored purchase...');
+        const response = await fetch(`${RELAYER_URL}/purchases`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)),
+        });
+        if (!response.ok) {
+          const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+          throw new Error(error ?? `Relayer rejected the purchase (${response.status})`);
+        }
+      } else {
+        await buyTicket(contract, relayerBackend(instance), selectedNumbers);
+      }
 
       setStatusMessage('Ticket purchased successfully');
-      setSelectedNumber(null);
+      setSelectedNumbers([]);
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['tickets', address] }),
         queryClient.invalidateQueries({ queryKey: ['score', address] }),
+        queryClient.invalidateQueries({ queryKey: ['activeDraw'] }),
       ]);
     } catch (error) {
       setErrorMessage(parseError(error));
@@ -270,21 +553,21 @@ export function LuckyBallApp() {
       return;
     }
     setErrorMessage(null);
-    setStatusMessage('Executing draw...');
+    setStatusMessage('Requesting draw randomness...');
     setDrawLoading(true);
 
     try {
       const signer = await signerPromise;
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.executeDraw();
-      await tx.wait();
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      await executeDraw(contract);
 
-      setStatusMessage('Draw completed successfully');
+      setStatusMessage('Draw closed, awaiting randomness');
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['currentDrawId'] }),
         queryClient.invalidateQueries({ queryKey: ['tickets', address] }),
         queryClient.invalidateQueries({ queryKey: ['activeDraw'] }),
         queryClient.invalidateQueries({ queryKey: ['previousDraw'] }),
+        queryClient.invalidateQueries({ queryKey: ['drawHistory'] }),
       ]);
     } catch (error) {
       setErrorMessage(parseError(error));
@@ -294,6 +577,79 @@ export function LuckyBallApp() {
     }
   }
 
+  async function handleRevealRandomness() {
+    if (!previousDraw || !randomnessProvider) {
+      return;
+    }
+    if (!instance || !signerPromise) {
+      setErrorMessage('Connect your wallet to reveal the draw randomness');
+      return;
+    }
+
+    setErrorMessage(null);
+    setStatusMessage('Revealing draw randomness...');
+    setRevealLoading(true);
+
+    try {
+      const handle = (await publicClient!.readContract({
+        address: randomnessProvider,
+        abi: RANDOMNESS_PROVIDER_ABI,
+        functionName: 'getEncryptedRandomness',
+        args: [previousDraw.requestId],
+      })) as `0x${string}`;
+      const decrypted = await instance.publicDecrypt([handle]);
+
+      const signer = await signerPromise;
+      const provider = new Contract(randomnessProvider, RANDOMNESS_PROVIDER_ABI, signer);
+      const tx = await provider.revealRandomness(
+        previousDraw.requestId,
+        decrypted.abiEncodedClearValues,
+        decrypted.decryptionProof
+      );
+      await tx.wait();
+
+      setStatusMessage('Draw completed successfully');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['previousDraw'] }),
+        queryClient.invalidateQueries({ queryKey: ['drawHistory'] }),
+        queryClient.invalidateQueries({ queryKey: ['ticket-draws'] }),
+      ]);
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setRevealLoading(false);
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  async function handlePublishTally() {
+    if (!previousDraw || !currentDrawId) {
+      return;
+    }
+    if (!instance || !signerPromise) {
+      setErrorMessage('Connect your wallet to publish the winner count');
+      return;
+    }
+
+    setErrorMessage(null);
+    setStatusMessage('Decrypting the winner count...');
+    setTallyLoading(true);
+
+    try {
+      const signer = await signerPromise;
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      const winningTickets = await publishWinnerTally(contract, relayerBackend(instance), currentDrawId - 1n);
+
+      setStatusMessage(`Draw #${(currentDrawId - 1n).toString()} had ${winningTickets} winning ticket(s)`);
+      await queryClient.invalidateQueries({ queryKey: ['previousDraw'] });
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setTallyLoading(false);
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
   async function handleClaimTicket(ticket: TicketInfo) {
     if (!signerPromise) {
       setErrorMessage('Connect your wallet to claim a ticket');
@@ -306,9 +662,8 @@ export function LuckyBallApp() {
 
     try {
       const signer = await signerPromise;
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.claimTicket(ticket.index);
-      await tx.wait();
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      await claimTicket(contract, ticket.index);
 
       setStatusMessage(`Ticket #${ticket.index} processed`);
       await Promise.all([
@@ -323,6 +678,227 @@ export function LuckyBallApp() {
     }
   }
 
+  async function handleClaimAll() {
+    if (!signerPromise) {
+      setErrorMessage('Connect your wallet to claim tickets');
+      return;
+    }
+    if (claimableTickets.length === 0) {
+      return;
+    }
+
+    setClaimAllLoading(true);
+    setErrorMessage(null);
+    setStatusMessage(`Claiming ${claimableTickets.length} tickets...`);
+
+    try {
+      const signer = await signerPromise;
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      await claimTickets(
+        contract,
+        claimableTickets.map((ticket) => ticket.index)
+      );
+
+      setStatusMessage(`${claimableTickets.length} tickets processed`);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['tickets', address] }),
+        queryClient.invalidateQueries({ queryKey: ['score', address] }),
+      ]);
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setClaimAllLoading(false);
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  async function handleToggleAutoClaim() {
+    if (!signerPromise) {
+      setErrorMessage('Connect your wallet to change auto-claim');
+      return;
+    }
+
+    setAutoClaimLoading(true);
+    setErrorMessage(null);
+
+    try {
+      const signer = await signerPromise;
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      await (await contract.setAutoClaim(!autoClaim)).wait();
+
+      setStatusMessage(autoClaim ? 'Auto-claim disabled' : 'Auto-claim enabled, relayers will claim your tickets');
+      await queryClient.invalidateQueries({ queryKey: ['autoClaim', address] });
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setAutoClaimLoading(false);
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  async function handleConfirmWin(ticket: TicketInfo) {
+    if (!instance || !signerPromise) {
+      setErrorMessage('Connect your wallet to confirm a win');
+      return;
+    }
+
+    setPayoutLoading((prev) => ({ ...prev, [ticket.index]: true }));
+    setErrorMessage(null);
+    setStatusMessage(`Decrypting outcome of ticket #${ticket.index}...`);
+
+    try {
+      const decrypted = await instance.publicDecrypt([ticket.outcome]);
+      if (!decrypted.clearValues[ticket.outcome]) {
+        setStatusMessage(`Ticket #${ticket.index} did not win this draw`);
+        return;
+      }
+
+      const signer = await signerPromise;
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      const tx = await contract.confirmWin(ticket.index, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+      await tx.wait();
+
+      setStatusMessage(`Ticket #${ticket.index} confirmed as a winner`);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['tickets', address] }),
+        queryClient.invalidateQueries({ queryKey: ['ticket-draws'] }),
+        queryClient.invalidateQueries({ queryKey: ['previousDraw'] }),
+        queryClient.invalidateQueries({ queryKey: ['drawHistory'] }),
+      ]);
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setPayoutLoading((prev) => ({ ...prev, [ticket.index]: false }));
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  async function handleCollectPrize(ticket: TicketInfo) {
+    if (!signerPromise) {
+      setErrorMessage('Connect your wallet to collect a prize');
+      return;
+    }
+
+    setPayoutLoading((prev) => ({ ...prev, [ticket.index]: true }));
+    setErrorMessage(null);
+    setStatusMessage(`Collecting prize for ticket #${ticket.index}...`);
+
+    try {
+      const signer = await signerPromise;
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      const tx = await contract.collectPrize(ticket.index);
+      await tx.wait();
+
+      setStatusMessage(`Prize for ticket #${ticket.index} paid out`);
+      await queryClient.invalidateQueries({ queryKey: ['tickets', address] });
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setPayoutLoading((prev) => ({ ...prev, [ticket.index]: false }));
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  async function handleRefundTicket(ticket: TicketInfo) {
+    if (!signerPromise) {
+      setErrorMessage('Connect your wallet to refund a ticket');
+      return;
+    }
+
+    setPayoutLoading((prev) => ({ ...prev, [ticket.index]: true }));
+    setErrorMessage(null);
+    setStatusMessage(`Refunding ticket #${ticket.index}...`);
+
+    try {
+      const signer = await signerPromise;
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      const tx = await contract.refundTicket(ticket.index);
+      await tx.wait();
+
+      setStatusMessage(`Ticket #${ticket.index} refunded`);
+      await queryClient.invalidateQueries({ queryKey: ['tickets', address] });
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setPayoutLoading((prev) => ({ ...prev, [ticket.index]: false }));
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  async function handleRedeem() {
+    const points = Number(redeemPoints);
+    if (!Number.isInteger(points) || points <= 0) {
+      setErrorMessage('Enter a positive number of points to redeem');
+      return;
+    }
+    if (!address || !instance || !signerPromise || !pointsAddress) {
+      setErrorMessage('Connect your wallet to redeem points');
+      return;
+    }
+
+    setRedeemLoading(true);
+    setErrorMessage(null);
+    setStatusMessage('Encrypting redemption amount...');
+
+    try {
+      const encryptedInputBuilder = instance.createEncryptedInput(pointsAddress, address);
+      encryptedInputBuilder.add32(points);
+      const encrypted = await encryptedInputBuilder.encrypt();
+
+      const signer = await signerPromise;
+      const contract = LuckyBallPoints__factory.connect(pointsAddress, signer);
+      const tx = await contract.redeem(encrypted.handles[0], encrypted.inputProof);
+      await tx.wait();
+
+      setRedeemPoints('');
+      await finalizeRedemption(contract);
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setRedeemLoading(false);
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  async function handleFinalizeRedemption() {
+    if (!signerPromise || !pointsAddress) {
+      setErrorMessage('Connect your wallet to settle the redemption');
+      return;
+    }
+
+    setRedeemLoading(true);
+    setErrorMessage(null);
+
+    try {
+      const signer = await signerPromise;
+      await finalizeRedemption(LuckyBallPoints__factory.connect(pointsAddress, signer));
+    } catch (error) {
+      setErrorMessage(parseError(error));
+    } finally {
+      setRedeemLoading(false);
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  }
+
+  async function finalizeRedemption(contract: LuckyBallPoints) {
+    setStatusMessage('Decrypting approved amount...');
+    const redemption = (await contract.getPendingRedemption(address!)) as RedemptionInfo;
+    const decrypted = await instance.publicDecrypt([redemption.amount]);
+    const points = BigInt(decrypted.clearValues[redemption.amount]);
+
+    setStatusMessage('Paying out redemption...');
+    const tx = await contract.finalizeRedemption(decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+    await tx.wait();
+
+    setStatusMessage(
+      points === 0n ? 'Your score did not cover the requested points' : `Redeemed ${points.toString()} points`
+    );
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['pendingRedemption', address] }),
+      queryClient.invalidateQueries({ queryKey: ['score', address] }),
+    ]);
+  }
+
   async function handleDecryptScore() {
     if (!scoreHandle || scoreHandle === ZeroHash) {
       setDecryptedScore(0n);
@@ -333,10 +909,9 @@ export function LuckyBallApp() {
     setErrorMessage(null);
 
     try {
-      const result = await requestUserDecrypt([scoreHandle]);
-      const valueRaw = result[scoreHandle];
-      const value = typeof valueRaw === 'bigint' ? valueRaw : BigInt(valueRaw);
-      setDecryptedScore(value);
+      const signer = await signerPromise!;
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      setDecryptedScore(await decryptScore(contract, relayerBackend(instance)));
     } catch (error) {
       setErrorMessage(parseError(error));
     } finally {
@@ -345,27 +920,41 @@ export function LuckyBallApp() {
   }
 
   async function handleDecryptTicket(ticket: TicketInfo) {
-    if (!ticket.handle || ticket.handle === ZeroHash) {
-      setTicketDecryptions((prev) => ({ ...prev, [ticket.index]: { value: 0n, loading: false } }));
+    const handles = ticket.handles.filter((handle) => handle && handle !== ZeroHash);
+    if (handles.length === 0) {
+      setTicketDecryptions((prev) => ({ ...prev, [ticket.index]: { values: [], loading: false } }));
       return;
     }
 
-    setTicketDecryptions((prev) => ({ ...prev, [ticket.index]: { value: prev[ticket.index]?.value, loading: true } }));
+    setTicketDecryptions((prev) => ({ ...prev, [ticket.index]: { values: prev[ticket.index]?.values, loading: true } }));
     setErrorMessage(null);
 
     try {
-      const result = await requestUserDecrypt([ticket.handle]);
-      const valueRaw = result[ticket.handle];
-      const value = typeof valueRaw === 'bigint' ? valueRaw : BigInt(valueRaw);
-      setTicketDecryptions((prev) => ({ ...prev, [ticket.index]: { value, loading: false } }));
+      const signer = await signerPromise!;
+      const contract = LuckyBall__factory.connect(contractAddress, signer);
+      const values = await decryptTicket(contract, relayerBackend(instance), ticket.index);
+      setTicketDecryptions((prev) => ({ ...prev, [ticket.index]: { values, loading: false } }));
     } catch (error) {
       setErrorMessage(parseError(error));
-      setTicketDecryptions((prev) => ({ ...prev, [ticket.index]: { value: prev[ticket.index]?.value, loading: false } }));
+      setTicketDecryptions((prev) => ({
+        ...prev,
+        [ticket.index]: { values: prev[ticket.index]?.values, loading: false },
+      }));
     }
   }
 
   const connected = Boolean(address);
+  const payoutInEth = !redemptionTerms || redemptionTerms.token === EMPTY_ADDRESS;
+  const redemptionAsset = payoutInEth ? 'ETH' : `tokens of ${redemptionTerms.token}`;
+  const redemptionValue = payoutInEth
+    ? `${formatEther(redemptionTerms?.pointValue ?? 0n)} ETH`
+    : `${redemptionTerms.pointValue.toString()} token units`;
   const ticketList = tickets ?? [];
+  const claimableTickets = ticketList.filter((ticket) => {
+    const draw = historicalDraws?.[ticket.drawId.toString()];
+    const deadline = claimDeadline(draw);
+    return !ticket.claimed && !ticket.refunded && draw?.executed && (deadline === null || nowSeconds <= deadline);
+  });
 
   return (
     <div className="app-shell">
@@ -373,7 +962,13 @@ export function LuckyBallApp() {
       <div className="content-wrapper">
         {contractUnavailable && (
           <div className="status-banner error">
-            Contract address is not configured. Please update the frontend configuration.
+            LuckyBall is not deployed on this network. Switch networks or deploy it to record its address.
+          </div>
+        )}
+        {outdated && (
+          <div className="status-banner error">
+            The LuckyBall deployment on this network predates this app's ABI; some actions may fail until it is
+            redeployed.
           </div>
         )}
         {zamaError && <div className="status-banner error">{zamaError}</div>}
@@ -384,7 +979,9 @@ export function LuckyBallApp() {
           <div className="section">
             <h2 className="section-title">Your Score</h2>
             <p className="section-description">
-              Encrypted player points awarded for matching draw results. Each winning ticket adds 10 points.
+              Encrypted player points awarded for matching draw results. Rewards grow with the number of matches:{' '}
+              {drawConfig.rewards.map((reward) => reward.toString()).join(' / ')} points. Points are held in the
+              confidential LuckyBall Points (LBP) token and can be transferred to other players.
             </p>
             <div className="score-subtitle">Encrypted score handle</div>
             <div className="handle-box">{scoreHandle ?? '—'}</div>
@@ -404,14 +1001,26 @@ export function LuckyBallApp() {
             <h2 className="section-title">Buy Ticket</h2>
             <p>Your ticket is encrypted by zama.</p>
             <p className="section-description">
-              Select a number and purchase a ticket for the current draw. Each ticket costs {ticketPriceLabel}.
+              Pick {pickCount} number{pickCount === 1 ? '' : 's'} between {drawConfig.minNumber} and{' '}
+              {drawConfig.maxNumber} and purchase a ticket for the current draw. Each ticket costs {ticketPriceLabel}
+              {paysInToken ? ` of ${paymentToken}, which your wallet first approves the treasury to take` : ''}.
+              {purchaseLimits?.perPlayer ? ` You can buy up to ${purchaseLimits.perPlayer} tickets in this draw.` : ''}
+              {purchaseLimits?.uniqueNumbers
+                ? ' A ticket repeating a number you already picked in this draw is void and wins nothing.'
+                : ''}
+              {drawConfig.bitmask
+                ? ' All your numbers in this draw share one encrypted ticket, which wins once if it holds the drawn number.'
+                : ''}
             </p>
-            <div className="number-grid">
-              {Array.from({ length: 9 }, (_, idx) => idx + 1).map((number) => (
+            <div className={`number-grid ${drawConfig.maxNumber - drawConfig.minNumber >= 9 ? 'dense' : ''}`}>
+              {Array.from(
+                { length: drawConfig.maxNumber - drawConfig.minNumber + 1 },
+                (_, idx) => idx + drawConfig.minNumber
+              ).map((number) => (
                 <button
                   key={number}
-                  className={`number-button ${selectedNumber === number ? 'active' : ''}`}
-                  onClick={() => setSelectedNumber(number)}
+                  className={`number-button ${selectedNumbers.includes(number) ? 'active' : ''}`}
+                  onClick={() => toggleNumber(number)}
                   type="button"
                 >
                   {number}
@@ -423,11 +1032,36 @@ export function LuckyBallApp() {
                 className="action-button"
                 onClick={handleBuyTicket}
                 disabled={
-                  !connected || !instance || zamaLoading || buyLoading || selectedNumber === null || !contractReady
+                  !connected ||
+                  !instance ||
+                  zamaLoading ||
+                  buyLoading ||
+                  selectedNumbers.length !== pickCount ||
+                  !contractReady ||
+                  !salesOpen
                 }
               >
                 {buyLoading ? 'Processing...' : 'Buy Ticket'}
               </button>
+              {pickCount > 1 && (
+                <div className="muted-text">
+                  Selected {selectedNumbers.length}/{pickCount}
+                </div>
+              )}
+              {sponsorable && (
+                <label
+                  className="toggle-label muted-text"
+                  title="Sign the purchase in your wallet and let the relayer pay the gas"
+                >
+                  <input
+                    type="checkbox"
+                    checked={sponsored}
+                    disabled={buyLoading}
+                    onChange={(event) => setSponsored(event.target.checked)}
+                  />
+                  Sponsored purchase
+                </label>
+              )}
             </div>
           </div>
         </div>
@@ -436,24 +1070,71 @@ export function LuckyBallApp() {
           <div className="section">
             <div className="list-header">
               <h2 className="section-title" style={{ marginBottom: 0 }}>Your Tickets</h2>
-              <div className="muted-text">Total: {ticketList.length}</div>
+              <div className="cta-row" style={{ marginTop: 0 }}>
+                <div className="muted-text">Total: {ticketCount?.toString() ?? ticketList.length}</div>
+                <input
+                  className="text-input"
+                  type="number"
+                  min={1}
+                  placeholder="Draw ID"
+                  title="Only show your tickets of this draw"
+                  value={ticketDrawFilter}
+                  onChange={(event) => setTicketDrawFilter(event.target.value)}
+                />
+                <button
+                  className="action-button secondary"
+                  type="button"
+                  disabled={!connected || autoClaimLoading || !contractReady}
+                  onClick={handleToggleAutoClaim}
+                  title="Lets relayers claim your tickets after each draw; your score stays private to you"
+                >
+                  {autoClaimLoading ? 'Saving...' : autoClaim ? 'Auto-claim: on' : 'Auto-claim: off'}
+                </button>
+                <button
+                  className="action-button danger"
+                  type="button"
+                  disabled={!connected || claimAllLoading || claimableTickets.length === 0 || !contractReady}
+                  onClick={handleClaimAll}
+                >
+                  {claimAllLoading ? 'Claiming...' : `Claim all (${claimableTickets.length})`}
+                </button>
+              </div>
             </div>
             {ticketList.length === 0 ? (
               <div className="empty-state">
-                Purchase tickets to populate this list. You can decrypt them anytime.
+                {filterDrawId !== null
+                  ? `You hold no tickets in draw #${filterDrawId}.`
+                  : 'Purchase tickets to populate this list. You can decrypt them anytime.'}
               </div>
             ) : (
               <div className="ticket-list">
                 {ticketList.map((ticket) => {
                   const ticketState = ticketDecryptions[ticket.index];
-                  const decodedValue = ticketState?.value;
+                  const decodedValues = ticketState?.values;
                   const drawInfo = historicalDraws?.[ticket.drawId.toString()];
-                  const statusLabel = ticket.claimed
-                    ? 'Claimed'
-                    : drawInfo?.executed
-                      ? 'Ready to claim'
-                      : 'Waiting for draw';
-                  const statusClass = ticket.claimed ? 'claimed' : 'open';
+                  const settlementEnd = drawInfo ? drawInfo.executedAt + settlementWindow : 0n;
+                  const settling = Boolean(drawInfo?.executed) && nowSeconds <= settlementEnd;
+                  const deadline = claimDeadline(drawInfo);
+                  const processed = ticket.claimed || ticket.refunded;
+                  const expired = ticket.expired || (!processed && deadline !== null && nowSeconds > deadline);
+                  const statusLabel = ticket.paid
+                    ? 'Prize paid'
+                    : ticket.won
+                      ? 'Winner'
+                      : ticket.claimed
+                        ? 'Claimed'
+                        : ticket.refunded
+                          ? 'Refunded'
+                          : drawInfo?.cancelled
+                            ? 'Draw cancelled'
+                            : expired
+                              ? 'Expired'
+                              : drawInfo?.executed
+                                ? 'Ready to claim'
+                                : drawInfo?.requested
+                                  ? 'Awaiting randomness'
+                                  : 'Waiting for draw';
+                  const statusClass = ticket.won ? 'won' : processed ? 'claimed' : expired ? 'lost' : 'open';
 
                   return (
                     <div className="ticket-card" key={ticket.index}>
@@ -464,13 +1145,22 @@ export function LuckyBallApp() {
                       <div className="ticket-meta">
                         <span>Draw ID: {ticket.drawId.toString()}</span>
                         {drawInfo?.executed && (
-                          <span className="pill">Winning number: {drawInfo.winningNumber}</span>
+                          <span className="pill">Winning numbers: {drawInfo.winningNumbers.join(', ')}</span>
+                        )}
+                        <span>{processed ? 'Already processed' : 'Not claimed yet'}</span>
+                        {!processed && !expired && deadline !== null && (
+                          <span className="pill">Claim closes in {formatCountdown(deadline - nowSeconds)}</span>
                         )}
-                        <span>{ticket.claimed ? 'Already processed' : 'Not claimed yet'}</span>
                       </div>
-                      <div className="handle-box" style={{ marginBottom: '12px' }}>{ticket.handle}</div>
-                      {decodedValue !== undefined && (
-                        <div className="muted-text">Decrypted number: {decodedValue.toString()}</div>
+                      {ticket.handles.map((handle, position) => (
+                        <div className="handle-box" style={{ marginBottom: '12px' }} key={position}>
+                          {handle}
+                        </div>
+                      ))}
+                      {decodedValues !== undefined && (
+                        <div className="muted-text">
+                          Decrypted numbers: {decodedValues.map((value) => value.toString()).join(', ')}
+                        </div>
                       )}
                       <div className="ticket-actions">
                         <button
@@ -485,43 +1175,268 @@ export function LuckyBallApp() {
                           className="action-button danger"
                           type="button"
                           disabled={
-                            !connected || ticket.claimed || claimLoading[ticket.index] || !contractReady
+                            !connected ||
+                            processed ||
+                            expired ||
+                            drawInfo?.cancelled ||
+                            claimLoading[ticket.index] ||
+                            !contractReady
                           }
                           onClick={() => handleClaimTicket(ticket)}
                         >
                           {claimLoading[ticket.index] ? 'Claiming...' : 'Claim Reward'}
                         </button>
+                        {ticket.claimed && !ticket.won && settling && (
+                          <button
+                            className="action-button secondary"
+                            type="button"
+                            disabled={!connected || !instance || payoutLoading[ticket.index]}
+                            onClick={() => handleConfirmWin(ticket)}
+                          >
+                            {payoutLoading[ticket.index] ? 'Confirming...' : 'Confirm Win'}
+                          </button>
+                        )}
+                        {drawInfo?.cancelled && !ticket.refunded && (
+                          <button
+                            className="action-button"
+                            type="button"
+                            disabled={!connected || payoutLoading[ticket.index]}
+                            onClick={() => handleRefundTicket(ticket)}
+                          >
+                            {payoutLoading[ticket.index] ? 'Refunding...' : 'Refund'}
+                          </button>
+                        )}
+                        {ticket.won && !ticket.paid && (
+                          <button
+                            className="action-button"
+                            type="button"
+                            disabled={!connected || settling || payoutLoading[ticket.index]}
+                            onClick={() => handleCollectPrize(ticket)}
+                          >
+                            {settling
+                              ? `Collectable after ${formatTimestamp(settlementEnd)}`
+                              : payoutLoading[ticket.index]
+                                ? 'Collecting...'
+                                : 'Collect Prize'}
+                          </button>
+                        )}
                       </div>
                     </div>
                   );
                 })}
+                <div ref={ticketListEnd} className="muted-text">
+                  {loadingMoreTickets ? 'Loading more tickets...' : null}
+                </div>
               </div>
             )}
           </div>
 
-          <div className="section">
-            <h2 className="section-title">Draw Control</h2>
-            <div className="draw-info">
-              <div>
-                <strong>Active draw:</strong> #{currentDrawId ? currentDrawId.toString() : '—'}
+          <div className="side-column">
+            <div className="section">
+              <h2 className="section-title">Draw Control</h2>
+              <div className="draw-info">
+                <div>
+                  <strong>Active draw:</strong> #{currentDrawId ? currentDrawId.toString() : '—'}
+                </div>
+                <div>
+                  <strong>Status:</strong> {activeDraw?.requested || !salesOpen ? 'Closed' : 'Open for tickets'}
+                </div>
+                <div>
+                  <strong>Sales close:</strong>{' '}
+                  {salesCloseAt === 0n
+                    ? 'When an operator executes the draw'
+                    : salesOpen
+                      ? `in ${formatCountdown(salesCloseAt - nowSeconds)}`
+                      : `closed at ${formatTimestamp(salesCloseAt)}`}
+                </div>
+                <div>
+                  <strong>Tickets sold:</strong> {activeDraw ? activeDraw.ticketCount.toString() : '—'}
+                  {purchaseLimits?.perDraw ? ` of ${purchaseLimits.perDraw}` : ''}
+                  {activeDraw && activeDraw.minTickets > 0n ? ` (minimum ${activeDraw.minTickets.toString()})` : ''}
+                </div>
+                <div>
+                  <strong>Jackpot:</strong> {activeDraw ? `${jackpotOf(activeDraw).toString()} points` : '—'}
+                  {activeDraw && activeDraw.jackpot > 0n ? ` (${activeDraw.jackpot.toString()} rolled over)` : ''}
+                </div>
+                {previousDraw?.executed && (
+                  <>
+                    <div>
+                      <strong>Last winning numbers:</strong> {previousDraw.winningNumbers.join(', ')}
+                    </div>
+                    <div>
+                      <strong>Last draw tickets:</strong> {previousDraw.ticketCount.toString()}
+                    </div>
+                    <div>
+                      <strong>Winning tickets:</strong>{' '}
+                      {previousDraw.tallyPublished
+                        ? previousDraw.winningTickets
+                        : tallyOpen
+                          ? 'Ready to decrypt'
+                          : `Encrypted until ${formatTimestamp(tallyClosesAt(previousDraw, settlementWindow))}`}
+                    </div>
+                    <div>
+                      <strong>Last jackpot:</strong> {jackpotOf(previousDraw).toString()} points
+                      {previousDraw.tallyPublished && previousDraw.winningTickets === 0 ? ' (rolled over)' : ''}
+                    </div>
+                  </>
+                )}
+                {previousDraw?.requested && !previousDraw.executed && (
+                  <div>
+                    <strong>Draw #{(currentDrawId! - 1n).toString()}:</strong> awaiting randomness (request #
+                    {previousDraw.requestId.toString()})
+                  </div>
+                )}
+              </div>
+              <div className="cta-row" style={{ marginTop: 0 }}>
+                <button
+                  className="action-button"
+                  type="button"
+                  onClick={handleExecuteDraw}
+                  disabled={!connected || drawLoading || !contractReady || !drawReady}
+                >
+                  {drawLoading ? 'Requesting...' : 'Execute Draw'}
+                </button>
+                {connected && !isOperator && (
+                  <div className="muted-text">Only the owner or an operator can execute draws.</div>
+                )}
+                {tallyOpen && (
+                  <button
+                    className="action-button secondary"
+                    type="button"
+                    onClick={handlePublishTally}
+                    disabled={!connected || !instance || tallyLoading}
+                  >
+                    {tallyLoading ? 'Publishing...' : 'Publish Winner Count'}
+                  </button>
+                )}
+                {previousDraw?.requested && !previousDraw.executed && (
+                  <button
+                    className="action-button secondary"
+                    type="button"
+                    onClick={handleRevealRandomness}
+                    disabled={!connected || !instance || revealLoading || !randomnessProvider}
+                  >
+                    {revealLoading ? 'Revealing...' : 'Reveal Randomness'}
+                  </button>
+                )}
               </div>
-              <div>
-                <strong>Status:</strong> {activeDraw?.executed ? 'Closed' : 'Open for tickets'}
+            </div>
+
+            <div className="section">
+              <h2 className="section-title">Prize pool</h2>
+              <p className="section-description">
+                Ticket payments build each draw's pot. Winners confirm their claim during the settlement period and then
+                share the pot equally.
+              </p>
+              <div className="draw-info">
+                <div>
+                  <strong>Current pot:</strong> {activeDraw ? formatPayment(activeDraw.pot, activeDraw.paymentToken) : '—'}
+                </div>
+                {previousDraw?.executed && (
+                  <>
+                    <div>
+                      <strong>Last draw pot:</strong> {formatPayment(previousDraw.pot, previousDraw.paymentToken)}
+                    </div>
+                    <div>
+                      <strong>Confirmed winners:</strong> {previousDraw.winners.toString()}
+                    </div>
+                    {previousDraw.winners > 0n && (
+                      <div>
+                        <strong>Share per winner:</strong>{' '}
+                        {formatPayment(previousDraw.pot / previousDraw.winners, previousDraw.paymentToken)}
+                      </div>
+                    )}
+                    <div>
+                      <strong>Settlement ends:</strong> {formatTimestamp(previousDraw.executedAt + settlementWindow)}
+                    </div>
+                  </>
+                )}
               </div>
-              {previousDraw?.executed && (
+            </div>
+
+            <div className="section">
+              <h2 className="section-title">Redeem points</h2>
+              <p className="section-description">
+                Spend encrypted points for {redemptionAsset}. The amount is only deducted when your score covers it.
+              </p>
+              <div className="draw-info">
                 <div>
-                  <strong>Last winning number:</strong> {previousDraw.winningNumber}
+                  <strong>Value per point:</strong>{' '}
+                  {redemptionTerms && redemptionTerms.pointValue > 0n ? redemptionValue : 'Redemptions disabled'}
                 </div>
+              </div>
+              <div className="cta-row">
+                <input
+                  className="text-input"
+                  type="number"
+                  min={1}
+                  placeholder="Points"
+                  value={redeemPoints}
+                  onChange={(event) => setRedeemPoints(event.target.value)}
+                  disabled={Boolean(pendingRedemption)}
+                />
+                {pendingRedemption ? (
+                  <button
+                    className="action-button secondary"
+                    type="button"
+                    disabled={!connected || !instance || redeemLoading}
+                    onClick={handleFinalizeRedemption}
+                  >
+                    {redeemLoading ? 'Settling...' : 'Settle pending redemption'}
+                  </button>
+                ) : (
+                  <button
+                    className="action-button"
+                    type="button"
+                    disabled={
+                      !connected ||
+                      !instance ||
+                      zamaLoading ||
+                      redeemLoading ||
+                      !redeemPoints ||
+                      !redemptionTerms ||
+                      redemptionTerms.pointValue === 0n
+                    }
+                    onClick={handleRedeem}
+                  >
+                    {redeemLoading ? 'Redeeming...' : 'Redeem'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="section">
+              <h2 className="section-title">Draw history</h2>
+              <p className="section-description">
+                {INDEXER_URL ? 'Served by the LuckyBall indexer.' : 'Latest draws, read directly from the contract.'}
+              </p>
+              {!drawHistory || drawHistory.length === 0 ? (
+                <div className="empty-state">No draws yet.</div>
+              ) : (
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Draw</th>
+                      <th>Winning numbers</th>
+                      <th>Tickets</th>
+                      <th>Jackpot</th>
+                      {INDEXER_URL && <th>Claimed</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {drawHistory.map((draw) => (
+                      <tr key={draw.drawId}>
+                        <td>#{draw.drawId}</td>
+                        <td>{draw.executed ? draw.winningNumbers.join(', ') : 'Pending'}</td>
+                        <td>{draw.ticketCount}</td>
+                        <td>{draw.jackpot ?? '—'}</td>
+                        {INDEXER_URL && <td>{draw.claimedCount ?? '—'}</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               )}
             </div>
-            <button
-              className="action-button"
-              type="button"
-              onClick={handleExecuteDraw}
-              disabled={!connected || drawLoading || !contractReady}
-            >
-              {drawLoading ? 'Drawing...' : 'Execute Draw'}
-            </button>
           </div>
         </div>
       </div>
@@ -1,284 +1,23 @@
-// Frontend must not use environment variables; set the deployed address here
-export const CONTRACT_ADDRESS: `0x${string}` = '0x7cb173838A52446E6E69dc9acEb6D05Ed85F7932';
+import { LUCKYBALL_ABI, abiHash, type DeploymentManifest } from 'luckyball-sdk';
 
-export const CONTRACT_ABI = [
-  {
-    "inputs": [],
-    "stateMutability": "nonpayable",
-    "type": "constructor"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "drawId",
-        "type": "uint256"
-      },
-      {
-        "indexed": false,
-        "internalType": "uint8",
-        "name": "winningNumber",
-        "type": "uint8"
-      }
-    ],
-    "name": "DrawExecuted",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": true,
-        "internalType": "address",
-        "name": "player",
-        "type": "address"
-      },
-      {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "drawId",
-        "type": "uint256"
-      },
-      {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "ticketIndex",
-        "type": "uint256"
-      }
-    ],
-    "name": "TicketClaimProcessed",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": true,
-        "internalType": "address",
-        "name": "player",
-        "type": "address"
-      },
-      {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "drawId",
-        "type": "uint256"
-      },
-      {
-        "indexed": true,
-        "internalType": "uint256",
-        "name": "ticketIndex",
-        "type": "uint256"
-      }
-    ],
-    "name": "TicketPurchased",
-    "type": "event"
-  },
-  {
-    "inputs": [],
-    "name": "TICKET_PRICE",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "externalEuint8",
-        "name": "encryptedNumber",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "bytes",
-        "name": "inputProof",
-        "type": "bytes"
-      }
-    ],
-    "name": "buyTicket",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "payable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "uint256",
-        "name": "ticketIndex",
-        "type": "uint256"
-      }
-    ],
-    "name": "claimTicket",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "currentDrawId",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "executeDraw",
-    "outputs": [
-      {
-        "internalType": "uint8",
-        "name": "",
-        "type": "uint8"
-      }
-    ],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "player",
-        "type": "address"
-      }
-    ],
-    "name": "getScore",
-    "outputs": [
-      {
-        "internalType": "euint32",
-        "name": "",
-        "type": "bytes32"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "player",
-        "type": "address"
-      }
-    ],
-    "name": "getTickets",
-    "outputs": [
-      {
-        "components": [
-          {
-            "internalType": "euint8",
-            "name": "number",
-            "type": "bytes32"
-          },
-          {
-            "internalType": "uint256",
-            "name": "drawId",
-            "type": "uint256"
-          },
-          {
-            "internalType": "bool",
-            "name": "claimed",
-            "type": "bool"
-          }
-        ],
-        "internalType": "struct LuckyBall.Ticket[]",
-        "name": "",
-        "type": "tuple[]"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "uint256",
-        "name": "drawId",
-        "type": "uint256"
-      }
-    ],
-    "name": "getDraw",
-    "outputs": [
-      {
-        "components": [
-          {
-            "internalType": "uint8",
-            "name": "winningNumber",
-            "type": "uint8"
-          },
-          {
-            "internalType": "uint256",
-            "name": "executedAt",
-            "type": "uint256"
-          },
-          {
-            "internalType": "bool",
-            "name": "executed",
-            "type": "bool"
-          }
-        ],
-        "internalType": "struct LuckyBall.Draw",
-        "name": "",
-        "type": "tuple"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "player",
-        "type": "address"
-      }
-    ],
-    "name": "scoreInitialized",
-    "outputs": [
-      {
-        "internalType": "bool",
-        "name": "",
-        "type": "bool"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "player",
-        "type": "address"
-      }
-    ],
-    "name": "totalTickets",
-    "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "",
-        "type": "uint256"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  }
-] as const;
+import deployments from './deployments.json';
+
+// Frontend must not use environment variables; `npx hardhat deploy` records each chain's deployment here
+export const DEPLOYMENTS: DeploymentManifest = deployments as DeploymentManifest;
+
+// Optional luckyball-indexer endpoint, e.g. 'http://localhost:4000'; leave empty to read draws from the contract
+export const INDEXER_URL: string = '';
+
+// Optional purchase relayer endpoint, e.g. 'http://localhost:4200' (`npx hardhat luckyball:purchase-relayer`);
+// leave empty to hide sponsored purchases
+export const RELAYER_URL: string = '';
+
+// ABIs are generated from the hardhat artifacts into luckyball-sdk (`npx hardhat luckyball:sdk`)
+export {
+  LUCKYBALL_ABI as CONTRACT_ABI,
+  LUCKYBALL_POINTS_ABI as POINTS_ABI,
+  FHE_RANDOMNESS_PROVIDER_ABI as RANDOMNESS_PROVIDER_ABI,
+} from 'luckyball-sdk';
+
+// Compared against each deployment's recorded hash to flag deployments older than the bundled ABI
+export const CONTRACT_ABI_HASH = abiHash(LUCKYBALL_ABI);
@@ -1,11 +1,14 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
 
 const projectId = 'projectid';
 
+// `hardhat` is chain 31337 on http://127.0.0.1:8545, which also covers a local anvil node
+export const LOCAL_CHAIN = hardhat;
+
 export const config = getDefaultConfig({
   appName: 'LuckyBall Lottery',
   projectId,
-  chains: [sepolia],
+  chains: [sepolia, LOCAL_CHAIN],
   ssr: false,
 });
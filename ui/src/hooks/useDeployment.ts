@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { useChainId } from 'wagmi';
+import { getDeployment } from 'luckyball-sdk';
+
+import { CONTRACT_ABI_HASH, DEPLOYMENTS } from '../config/contracts';
+
+const EMPTY_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Resolves the LuckyBall deployment of the connected chain, or of the first configured chain when disconnected
+export function useDeployment() {
+  const chainId = useChainId();
+
+  return useMemo(() => {
+    const deployment = getDeployment(DEPLOYMENTS, chainId);
+    return {
+      chainId,
+      contractAddress: deployment?.address ?? EMPTY_ADDRESS,
+      deployBlock: deployment?.deployBlock ?? 0,
+      deployed: deployment !== undefined,
+      outdated: deployment !== undefined && deployment.abiHash !== CONTRACT_ABI_HASH,
+    };
+  }, [chainId]);
+}
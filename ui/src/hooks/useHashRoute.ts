@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+export type Route = 'play' | 'leaderboard';
+
+function readRoute(): Route {
+  return window.location.hash === '#/leaderboard' ? 'leaderboard' : 'play';
+}
+
+export function useHashRoute() {
+  const [route, setRoute] = useState<Route>(readRoute);
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(readRoute());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  return route;
+}
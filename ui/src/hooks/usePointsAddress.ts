@@ -0,0 +1,25 @@
+import { usePublicClient } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { useDeployment } from './useDeployment';
+
+// The points token holds the leaderboard and redemptions; its address is read from the LuckyBall deployment
+export function usePointsAddress() {
+  const publicClient = usePublicClient();
+  const { contractAddress, deployed } = useDeployment();
+
+  const { data } = useQuery({
+    queryKey: ['pointsAddress', contractAddress],
+    enabled: deployed && Boolean(publicClient),
+    staleTime: Infinity,
+    queryFn: async () => {
+      return (await publicClient!.readContract({
+        address: contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'points',
+      })) as `0x${string}`;
+    },
+  });
+  return data;
+}
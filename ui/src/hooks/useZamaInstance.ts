@@ -1,7 +1,47 @@
 import { useState, useEffect } from 'react';
+import { useChainId } from 'wagmi';
+import { JsonRpcProvider } from 'ethers';
 import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
 
+import { LOCAL_CHAIN } from '../config/wagmi';
+
+type RelayerMetadata = {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+};
+
+// A local hardhat node runs the FHEVM mock; its relayer endpoints are served over the node's own RPC
+async function createMockInstance() {
+  const { MockFhevmInstance, contracts } = await import('@fhevm/mock-utils');
+  const provider = new JsonRpcProvider(LOCAL_CHAIN.rpcUrls.default.http[0]);
+  const metadata: RelayerMetadata = await provider.send('fhevm_relayer_metadata', []);
+  const inputVerifier = await contracts.InputVerifier.create(provider, metadata.InputVerifierAddress);
+  const kmsVerifier = await contracts.KMSVerifier.create(provider, metadata.KMSVerifierAddress);
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: Number(metadata.chainId),
+      gatewayChainId: Number(metadata.gatewayChainId),
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: kmsVerifier.gatewayDecryptionAddress,
+      verifyingContractAddressInputVerification: inputVerifier.gatewayInputVerificationAddress,
+    },
+    {
+      inputVerifierProperties: inputVerifier.inputVerifierProperties,
+      kmsVerifierProperties: kmsVerifier.kmsVerifierProperties,
+    }
+  );
+}
+
 export function useZamaInstance() {
+  const chainId = useChainId();
   const [instance, setInstance] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -13,9 +53,15 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
+        setInstance(null);
 
-        const zamaInstance = await createInstance(SepoliaConfig);
+        let zamaInstance;
+        if (chainId === LOCAL_CHAIN.id) {
+          zamaInstance = await createMockInstance();
+        } else {
+          await initSDK()
+          zamaInstance = await createInstance(SepoliaConfig);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -37,7 +83,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [chainId]);
 
   return { instance, isLoading, error };
-}
\ No newline at end of file
+}
@@ -1,7 +1,16 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // luckyball-sdk is consumed from source; it must share the app's copy of ethers
+    alias: { 'luckyball-sdk': fileURLToPath(new URL('../sdk/src', import.meta.url)) },
+    dedupe: ['ethers'],
+  },
+  server: {
+    fs: { allow: ['..'] },
+  },
 })